@@ -8,10 +8,10 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { AksaraConverter, ConvertOptions } from 'aksara-writer-core';
-import { readFile, writeFile, access } from 'fs/promises';
+import { AksaraConverter, ConvertOptions, Diagnostic, DocumentMeta, formatDiagnostic, loadDataFile } from 'aksara-writer-core';
+import { readFile, writeFile, access, mkdir } from 'fs/promises';
 import { constants } from 'fs';
-import { extname, basename, resolve, dirname } from 'path';
+import { extname, basename, resolve, dirname, join } from 'path';
 
 /**
  * Read input from stdin
@@ -29,6 +29,26 @@ async function readStdin(): Promise<string> {
   });
 }
 
+/**
+ * Print conversion diagnostics to stderr
+ */
+function printDiagnostics(diagnostics: Diagnostic[], source: string): void {
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.severity === 'info') continue;
+    const color = diagnostic.severity === 'error' ? chalk.red : chalk.yellow;
+    // Diagnostics in included files name their own file
+    console.error(color(diagnostic.file ? formatDiagnostic(diagnostic) : `${source}:${formatDiagnostic(diagnostic)}`));
+    if (diagnostic.asset) console.error(chalk.dim(`  searched: ${diagnostic.asset.searched.join(', ')}`));
+  }
+}
+
+/**
+ * Collect a repeatable option (`--asset-path a --asset-path b`)
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 const program = new Command();
 
 program
@@ -44,10 +64,13 @@ program
   .option('-o, --output <output>', 'Output file path')
   .option('-t, --theme <theme>', 'Document theme', 'default')
   .option('--template <template>', 'Document template')
-  .option('--locale <locale>', 'Document locale (id, en)', 'id')
+  .option('--locale <locale>', 'Document locale (id, en, ms)', 'id')
   .option('--page-size <size>', 'Page size (A4, Letter, Legal)', 'A4')
   .option('--orientation <orientation>', 'Page orientation (portrait, landscape)', 'portrait')
   .option('--stdout', 'Output to stdout instead of file (for live preview)')
+  .option('--strict', 'Fail the conversion on any warning')
+  .option('--sanitize', 'Treat the markdown as untrusted: filter raw HTML and URLs')
+  .option('--asset-path <dir>', 'Another directory searched for images (repeatable)', collect, [])
   .action(async (input: string, options) => {
     const isStdin = input === '-';
     const useStdout = options.stdout;
@@ -75,10 +98,14 @@ program
         format: options.format as 'html' | 'pdf' | 'pptx',
         theme: options.theme,
         template: options.template,
-        locale: options.locale as 'id' | 'en',
+        locale: options.locale,
         pageSize: options.pageSize as 'A4' | 'Letter' | 'Legal',
         orientation: options.orientation as 'portrait' | 'landscape',
-        sourceDir: isStdin ? process.cwd() : dirname(resolve(input))
+        sourceDir: isStdin ? process.cwd() : dirname(resolve(input)),
+        sourceFile: isStdin ? undefined : resolve(input),
+        strict: options.strict,
+        sanitize: options.sanitize,
+        assetPaths: options.assetPath.map((dir: string) => resolve(dir))
       };
 
       // Create converter
@@ -87,6 +114,10 @@ program
       // Convert document
       const result = await converter.convert(markdown);
 
+      // Diagnostics go to stderr so --stdout output stays clean
+      if (spinner && result.diagnostics?.some(d => d.severity !== 'info')) spinner.stop();
+      printDiagnostics(result.diagnostics || [], isStdin ? 'stdin' : input);
+
       if (!result.success) {
         if (spinner) spinner.fail(chalk.red('Conversion failed'));
         console.error(chalk.red(`Error: ${result.error}`));
@@ -132,6 +163,102 @@ program
     }
   });
 
+program
+  .command('merge')
+  .description('Generate one document per row of a CSV, JSON or YAML data file (mail merge)')
+  .argument('<template>', 'Template markdown file, row fields are available as ${meta.field}')
+  .argument('<data>', 'Data file with one row per document (.csv, .json, .yaml)')
+  .option('-f, --format <format>', 'Output format (html, pdf, pptx)', 'html')
+  .option('-o, --output <dir>', 'Output directory', '.')
+  .option('-n, --name <pattern>', 'Output filename pattern, e.g. "surat-${nomor}.pdf"')
+  .option('--combined <file>', 'Also write all documents into a single file')
+  .option('-t, --theme <theme>', 'Document theme', 'default')
+  .option('--locale <locale>', 'Document locale (id, en, ms)', 'id')
+  .option('--page-size <size>', 'Page size (A4, Letter, Legal)', 'A4')
+  .option('--orientation <orientation>', 'Page orientation (portrait, landscape)', 'portrait')
+  .option('--strict', 'Fail a document on any warning')
+  .option('--asset-path <dir>', 'Another directory searched for images (repeatable)', collect, [])
+  .action(async (template: string, data: string, options) => {
+    const spinner = ora('Merging documents...').start();
+
+    try {
+      const templatePath = resolve(template);
+      const markdown = await readFile(templatePath, 'utf-8');
+      const rows = loadDataFile(resolve(data));
+      if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+        throw new Error(`${data} must contain a list of rows`);
+      }
+
+      const converter = new AksaraConverter({
+        format: options.format as 'html' | 'pdf' | 'pptx',
+        theme: options.theme,
+        locale: options.locale,
+        pageSize: options.pageSize as 'A4' | 'Letter' | 'Legal',
+        orientation: options.orientation as 'portrait' | 'landscape',
+        sourceDir: dirname(templatePath),
+        sourceFile: templatePath,
+        strict: options.strict,
+        assetPaths: options.assetPath.map((dir: string) => resolve(dir))
+      });
+
+      const result = await converter.merge(markdown, rows as DocumentMeta[], {
+        filename: options.name || `${basename(template, extname(template))}-\${number}${getDefaultOutputPath('', options.format)}`,
+        combined: Boolean(options.combined)
+      });
+
+      spinner.stop();
+      await mkdir(options.output, { recursive: true });
+
+      // Rows per output name; case-insensitive file systems treat Surat.pdf and surat.pdf as one file
+      const rowsByName = new Map<string, number[]>();
+      for (const document of result.documents) {
+        const key = document.filename.toLowerCase();
+        rowsByName.set(key, [...(rowsByName.get(key) || []), document.index + 1]);
+      }
+
+      let written = 0;
+      for (const document of result.documents) {
+        const source = `${data}#${document.index + 1}`;
+        printDiagnostics(document.result.diagnostics || [], source);
+        if (!document.result.success) {
+          console.error(chalk.red(`${source}: ${document.result.error}`));
+          continue;
+        }
+        // The reason is among the row's diagnostics
+        if (document.filenameError) {
+          console.error(chalk.red(`${source}: not written, the filename pattern could not be filled in`));
+          continue;
+        }
+        const others = rowsByName.get(document.filename.toLowerCase())!.filter(row => row !== document.index + 1);
+        if (others.length > 0) {
+          console.error(chalk.red(`${source}: not written, ${document.filename} is also the filename of row ${others.join(', ')}`));
+          continue;
+        }
+        await writeFile(join(options.output, document.filename), document.result.data!);
+        written++;
+      }
+
+      if (result.combined && !result.combined.success) {
+        console.error(chalk.red(`${options.combined}: ${result.combined.error}`));
+      } else if (result.combined) {
+        await writeFile(options.combined, result.combined.data!);
+      }
+
+      const summary = `${written} of ${result.documents.length} documents written to ${resolve(options.output)}`;
+      if (written < result.documents.length || (result.combined && !result.combined.success)) {
+        console.error(chalk.red(summary));
+        process.exit(1);
+      }
+      console.log(chalk.green(summary));
+      if (result.combined) console.log(chalk.blue(`Combined: ${resolve(options.combined)}`));
+
+    } catch (error) {
+      spinner.fail(chalk.red('Merge failed'));
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  });
+
 program
   .command('templates')
   .description('List available templates')
@@ -0,0 +1,322 @@
+/**
+ * Images referenced by a document, for every output format: looked up along one search path,
+ * read once per conversion and, when embedded, written once per document however often they are used.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { resolve, basename, extname, isAbsolute } from 'path';
+import { DiagnosticCollector } from './diagnostics';
+import { isInsideDirectories } from './sanitize';
+
+export interface Asset {
+  id: string; // aksara-asset-1, names the shared copy of a repeated image
+  path: string; // absolute path of the file
+  mimeType: string;
+  dataUri: string;
+  width?: number; // intrinsic size in pixels, when the format tells
+  height?: number;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  bmp: 'image/bmp'
+};
+
+// Left to the viewer: URLs with a scheme (http:, data:) and protocol-relative URLs
+const EXTERNAL_REGEX = /^(?:[a-z][a-z\d+.-]*:|\/\/)/i;
+
+// How an embedded image is written in CSS, escaped inside a `style` attribute or not
+const URL_QUOTES = ['', '"', "'", '&quot;'];
+
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[extname(filePath).toLowerCase().slice(1)] || 'image/png';
+}
+
+/**
+ * Finds and reads the local files a document refers to. One resolver serves a whole conversion,
+ * so a logo in every header is looked up, read and reported once.
+ */
+export class AssetResolver {
+  private found = new Map<string, string | null>(); // source as written → file, null when missing
+  private assets = new Map<string, Asset>(); // file → contents
+
+  /**
+   * @param searchPaths Directories tried in order; file names are also tried in each one's `assets/` folder
+   * @param canRead Whether a found file may be read, refused files are reported by the caller
+   */
+  constructor(
+    private searchPaths: string[],
+    private diagnostics: DiagnosticCollector,
+    private canRead: (file: string, src: string) => boolean = () => true
+  ) {}
+
+  /**
+   * The file a local source refers to; undefined for URLs and, reported as `image-not-found`, for missing files
+   */
+  find(src: string): string | undefined {
+    if (!isAbsolute(src) && EXTERNAL_REGEX.test(src)) return undefined;
+
+    if (!this.found.has(src)) {
+      const candidates = this.candidates(src);
+      const path = candidates.find(candidate => isFile(candidate));
+      if (!path) this.diagnostics.missingAsset(src, candidates);
+      this.found.set(src, path ?? null);
+    }
+    return this.found.get(src) ?? undefined;
+  }
+
+  /**
+   * Contents of a local source, read on first use
+   */
+  load(src: string): Asset | undefined {
+    const path = this.find(src);
+    if (!path) return undefined;
+
+    let asset = this.assets.get(path);
+    if (!asset) {
+      if (!this.canEmbed(path, src) || !this.canRead(path, src)) {
+        this.found.set(src, null);
+        return undefined;
+      }
+      try {
+        const data = readFileSync(path);
+        const mimeType = getMimeType(path);
+        asset = {
+          id: `aksara-asset-${this.assets.size + 1}`,
+          path,
+          mimeType,
+          dataUri: `data:${mimeType};base64,${data.toString('base64')}`,
+          ...imageSize(data, mimeType)
+        };
+        this.assets.set(path, asset);
+      } catch (error) {
+        this.diagnostics.warn('image-error', `Error reading image ${src}: ${error instanceof Error ? error.message : error}`, src);
+        this.found.set(src, null);
+        return undefined;
+      }
+    }
+    return asset;
+  }
+
+  /**
+   * What to write for `src` in the output: a data URI when embedding and the file exists, otherwise `src` as written.
+   * Local files are looked up either way, so missing ones are reported.
+   */
+  url(src: string, embed: boolean): string {
+    if (!embed) {
+      this.find(src);
+      return src;
+    }
+    return this.load(src)?.dataUri ?? src;
+  }
+
+  /**
+   * Take over the files another resolver read, so a document assembled from other conversions shares their images
+   */
+  adopt(other: AssetResolver): void {
+    for (const [path, asset] of other.assets) {
+      if (!this.assets.has(path)) this.assets.set(path, { ...asset, id: `aksara-asset-${this.assets.size + 1}` });
+    }
+  }
+
+  /**
+   * Write images embedded more than once in a complete HTML document only once, as a custom property set on
+   * `:root`. CSS `url()`s use it directly; `<img>`s of a known size keep their element, and with it every
+   * `img` style, but show a transparent placeholder of the same size painted with the shared image.
+   */
+  deduplicate(html: string): string {
+    let result = html;
+    const properties: string[] = [];
+
+    for (const asset of this.assets.values()) {
+      if (!occursTwice(result, asset.dataUri)) continue;
+
+      const before = result;
+      for (const quote of URL_QUOTES) {
+        result = result.split(`url(${quote}${asset.dataUri}${quote})`).join(`var(--${asset.id})`);
+      }
+      if (asset.width && asset.height) result = replaceImages(result, asset);
+      if (result !== before) properties.push(`--${asset.id}: url("${asset.dataUri}");`);
+    }
+
+    return properties.length > 0
+      ? insertAfter(result, /<\/title>|<head[^>]*>/i, `\n<style>:root { ${properties.join(' ')} }</style>`)
+      : result;
+  }
+
+  /**
+   * Only images inside the search paths are embedded, so a path can't copy other files of the machine into the output
+   */
+  private canEmbed(path: string, src: string): boolean {
+    const extension = extname(path).toLowerCase().slice(1);
+    if (!MIME_TYPES[extension]) {
+      this.diagnostics.warn('image-error', `${src} is not embedded, only ${Object.keys(MIME_TYPES).join(', ')} images are`, src);
+      return false;
+    }
+    if (!isInsideDirectories(path, this.searchPaths)) {
+      this.diagnostics.warn('image-error', `${src} is not embedded, it is outside the image directories; add its directory to assetPaths`, src);
+      return false;
+    }
+    return true;
+  }
+
+  private candidates(src: string): string[] {
+    const variants = [src];
+    try {
+      // Paths written into CSS are percent-encoded (`my%20logo.png`)
+      const decoded = decodeURI(src);
+      if (decoded !== src) variants.push(decoded);
+    } catch {
+      // Not percent-encoded after all
+    }
+    if (isAbsolute(src)) return variants;
+
+    const paths = [
+      ...this.searchPaths.flatMap(dir => variants.map(variant => resolve(dir, variant))),
+      ...this.searchPaths.flatMap(dir => variants.map(variant => resolve(dir, 'assets', basename(variant))))
+    ];
+    return [...new Set(paths)];
+  }
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function occursTwice(text: string, part: string): boolean {
+  const first = text.indexOf(part);
+  return first !== -1 && text.indexOf(part, first + part.length) !== -1;
+}
+
+function insertAfter(html: string, pattern: RegExp, content: string): string {
+  const match = html.match(pattern);
+  if (!match || match.index === undefined) return content + html;
+  const end = match.index + match[0].length;
+  return html.slice(0, end) + content + html.slice(end);
+}
+
+/**
+ * Point every `<img>` of an asset to its shared copy, keeping its other attributes
+ */
+function replaceImages(html: string, asset: Asset): string {
+  const src = `src="${asset.dataUri}"`;
+  let result = '';
+  let cursor = 0;
+
+  for (let index = html.indexOf(src); index !== -1; index = html.indexOf(src, index + src.length)) {
+    const start = html.lastIndexOf('<', index);
+    const end = html.indexOf('>', index + src.length);
+    if (start < cursor || end === -1 || !/^<img\s/i.test(html.slice(start, index))) continue;
+
+    const tag = html.slice(start, index) + html.slice(index + src.length, end + 1);
+    result += html.slice(cursor, start) + sharedImage(tag, asset);
+    cursor = end + 1;
+  }
+
+  return result + html.slice(cursor);
+}
+
+function sharedImage(tag: string, asset: Asset): string {
+  // A transparent image of the same size keeps the layout of the original: intrinsic size, aspect ratio, max-width
+  const placeholder = `data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='${asset.width}' height='${asset.height}'/%3E`;
+  const style = (tag.match(/\sstyle="([^"]*)"/i)?.[1] ?? '').trim().replace(/[^;]$/, '$&;');
+  // An <img> stretches its picture unless object-fit says otherwise
+  const size = style.match(/object-fit:\s*(contain|cover)/i)?.[1] ?? '100% 100%';
+  const attributes = tag.slice('<img'.length).replace(/\sstyle="[^"]*"/i, '').replace(/\/?>$/, '').trim();
+
+  return `<img src="${placeholder}"${attributes ? ` ${attributes}` : ''} style="${style ? `${style} ` : ''}background: var(--${asset.id}) center / ${size} no-repeat; print-color-adjust: exact; -webkit-print-color-adjust: exact;">`;
+}
+
+/**
+ * Pixel size from the file header; undefined for formats or files it can't read
+ */
+function imageSize(data: Buffer, mimeType: string): { width: number; height: number } | undefined {
+  let size: { width: number; height: number } | undefined;
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        if (data.toString('ascii', 12, 16) === 'IHDR') size = { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+        break;
+      case 'image/gif':
+        if (data.toString('ascii', 0, 4) === 'GIF8') size = { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+        break;
+      case 'image/bmp':
+        if (data.toString('ascii', 0, 2) === 'BM') size = { width: data.readInt32LE(18), height: Math.abs(data.readInt32LE(22)) };
+        break;
+      case 'image/jpeg':
+        size = jpegSize(data);
+        break;
+      case 'image/webp':
+        size = webpSize(data);
+        break;
+      case 'image/svg+xml':
+        size = svgSize(data.toString('utf-8'));
+        break;
+    }
+  } catch {
+    // Truncated file
+  }
+  return size && size.width > 0 && size.height > 0 ? size : undefined;
+}
+
+function jpegSize(data: Buffer): { width: number; height: number } | undefined {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+
+  let offset = 2;
+  while (offset + 9 < data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    // Exif orientation can turn the picture, swapping its sides
+    if (marker === 0xe1 && data.toString('ascii', offset + 4, offset + 8) === 'Exif') return undefined;
+    // Start of frame, except DHT (C4), JPG (C8) and DAC (CC) which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function webpSize(data: Buffer): { width: number; height: number } | undefined {
+  if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WEBP') return undefined;
+
+  switch (data.toString('ascii', 12, 16)) {
+    case 'VP8 ':
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  return undefined;
+}
+
+function svgSize(svg: string): { width: number; height: number } | undefined {
+  const tag = svg.match(/<svg\b[^>]*>/i)?.[0];
+  if (!tag) return undefined;
+
+  const attribute = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+  // Only plain pixel lengths; 100% or 2cm has no pixel size of its own
+  const length = (value: string | undefined) => value && /^\s*[\d.]+\s*(?:px)?\s*$/.test(value) ? parseFloat(value) : undefined;
+
+  const width = length(attribute('width'));
+  const height = length(attribute('height'));
+  if (width && height) return { width, height };
+
+  const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  return viewBox?.length === 4 ? { width: viewBox[2], height: viewBox[3] } : undefined;
+}
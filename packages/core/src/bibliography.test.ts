@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseBibtex, parseCslJson, formatReference, citationAuthors, sortReferences, disambiguateYears, ReferencePart } from './bibliography';
+import { AksaraConverter } from './index';
+
+const BIBTEX = `
+@article{widodo2020,
+  author = {Widodo, Joko and Lestari, Ani and Santoso, Budi},
+  title = {Ekonomi Digital di Indonesia},
+  journal = {Jurnal Ekonomi},
+  volume = {12}, number = {3}, pages = {45--67}, year = {2020},
+  doi = {10.1234/je.2020.3}
+}
+@book{bps2021,
+  author = {{Badan Pusat Statistik}},
+  title = {Statistik Indonesia 2021},
+  publisher = {BPS}, address = {Jakarta}, year = 2021
+}
+@misc{sari2020a, author = {Sari, Dewi}, title = {Satu}, year = {2020}}
+@misc{sari2020b, author = {Sari, Dewi}, title = {Dua}, year = {2020}}
+`;
+
+const entries = parseBibtex(BIBTEX);
+const [widodo, bps] = entries;
+
+// Italic parts as *markdown*
+const written = (parts: ReferencePart[]) => parts.map(part => part.italic ? `*${part.text}*` : part.text).join('');
+
+describe('parseBibtex', () => {
+  test('reads authors, group authors and page ranges', () => {
+    expect(widodo.type).toBe('article');
+    expect(widodo.authors.map(author => author.family)).toEqual(['Widodo', 'Lestari', 'Santoso']);
+    expect(widodo.pages).toBe('45–67');
+    expect(bps.authors).toEqual([{ family: 'Badan Pusat Statistik', literal: true }]);
+  });
+});
+
+describe('parseCslJson', () => {
+  test('reads the same fields as BibTeX', () => {
+    const [entry] = parseCslJson([{ id: 'x', type: 'article-journal', title: 'Judul', author: [{ family: 'Widodo', given: 'Joko' }], issued: { 'date-parts': [[2020]] } }]);
+    expect(entry).toMatchObject({ id: 'x', type: 'article', title: 'Judul', year: '2020', authors: [{ family: 'Widodo', given: 'Joko' }] });
+  });
+});
+
+describe('citations', () => {
+  test('three or more authors are shortened with dkk. in Indonesian', () => {
+    expect(citationAuthors(widodo, 'id')).toBe('Widodo dkk.');
+    expect(citationAuthors(widodo, 'en')).toBe('Widodo et al.');
+    expect(citationAuthors(bps, 'id')).toBe('Badan Pusat Statistik');
+  });
+
+  test('APA years of the same author are told apart', () => {
+    const years = disambiguateYears(sortReferences(entries, 'apa', 'id'), 'id');
+    expect(years.get('sari2020b')).toBe('2020a');
+    expect(years.get('sari2020a')).toBe('2020b');
+    expect(years.get('widodo2020')).toBe('2020');
+  });
+});
+
+describe('formatReference', () => {
+  test('APA', () => {
+    expect(written(formatReference(widodo, 'apa', 'id'))).toBe(
+      'Widodo, J., Lestari, A., & Santoso, B. (2020). Ekonomi Digital di Indonesia. *Jurnal Ekonomi*, *12*(3), 45–67. https://doi.org/10.1234/je.2020.3'
+    );
+    expect(written(formatReference(bps, 'apa', 'id'))).toBe('Badan Pusat Statistik. (2021). *Statistik Indonesia 2021*. BPS.');
+  });
+
+  test('IEEE', () => {
+    expect(written(formatReference(widodo, 'ieee', 'id'))).toBe(
+      'J. Widodo, A. Lestari, dan B. Santoso, "Ekonomi Digital di Indonesia," *Jurnal Ekonomi*, vol. 12, no. 3, pp. 45–67, 2020. doi: 10.1234/je.2020.3.'
+    );
+    expect(written(formatReference(bps, 'ieee', 'id'))).toBe('Badan Pusat Statistik, *Statistik Indonesia 2021*. Jakarta: BPS, 2021.');
+  });
+});
+
+describe('documents', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'aksara-bibliography-'));
+  writeFileSync(join(dir, 'pustaka.bib'), BIBTEX);
+
+  async function convert(style: string) {
+    const markdown = `---\naksara: true\nbibliography: pustaka.bib\ncitation: ${style}\n---\n\nMenurut [@widodo2020], data [@bps2021, hlm. 5].\n\nCatatan[^1].\n\n[^1]: Isi catatan.\n\n[bibliography]\n`;
+    const result = await new AksaraConverter({ format: 'html', sourceDir: dir }).convert(markdown);
+    return result.data!.toString();
+  }
+
+  test('APA citations name authors and years, the list is sorted by author', async () => {
+    const html = await convert('apa');
+    expect(html).toContain('>Widodo dkk., 2020</a>');
+    expect(html).toContain('>Badan Pusat Statistik, 2021, hlm. 5</a>');
+    expect(html.indexOf('id="ref-bps2021"')).toBeLessThan(html.indexOf('id="ref-widodo2020"'));
+  });
+
+  test('IEEE citations are numbered in order of use', async () => {
+    const html = await convert('ieee');
+    expect(html).toContain('[<a class="citation" href="#ref-widodo2020">1</a>]');
+    expect(html).toContain('<span class="reference-number">[2]</span> Badan Pusat Statistik');
+  });
+
+  test('footnotes are numbered and listed after the section', async () => {
+    const html = await convert('apa');
+    expect(html).toContain('<a href="#fn-1" id="fnref-1">1</a>');
+    expect(html).toMatch(/<li id="fn-1"[^>]*><p[^>]*>Isi catatan\./);
+  });
+});
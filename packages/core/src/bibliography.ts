@@ -0,0 +1,494 @@
+/**
+ * Bibliography for citations
+ * Loads BibTeX (.bib) and CSL-JSON (.json) files named by the `bibliography:` directive
+ * and formats citations and reference lists in APA or IEEE style.
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { getMessages } from './messages';
+
+export type CitationStyle = 'apa' | 'ieee';
+
+export type ReferenceType = 'article' | 'book' | 'chapter' | 'paper-conference' | 'report' | 'thesis' | 'webpage' | 'misc';
+
+export interface Author {
+  family: string;
+  given?: string;
+  literal?: boolean; // organisation or single name, never abbreviated
+}
+
+export interface BibEntry {
+  id: string;
+  type: ReferenceType;
+  authors: Author[];
+  editors: Author[];
+  year?: string;
+  title?: string;
+  container?: string; // journal, book or proceedings title
+  publisher?: string;
+  place?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  edition?: string;
+  url?: string;
+  doi?: string;
+}
+
+/** Piece of a formatted reference; italic parts are titles */
+export interface ReferencePart {
+  text: string;
+  italic?: boolean;
+}
+
+const BIBTEX_TYPES: Record<string, ReferenceType> = {
+  article: 'article',
+  book: 'book',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  inproceedings: 'paper-conference',
+  conference: 'paper-conference',
+  techreport: 'report',
+  report: 'report',
+  phdthesis: 'thesis',
+  mastersthesis: 'thesis',
+  thesis: 'thesis',
+  online: 'webpage',
+  electronic: 'webpage'
+};
+
+const CSL_TYPES: Record<string, ReferenceType> = {
+  'article-journal': 'article',
+  'article-magazine': 'article',
+  'article-newspaper': 'article',
+  article: 'article',
+  book: 'book',
+  chapter: 'chapter',
+  'paper-conference': 'paper-conference',
+  report: 'report',
+  thesis: 'thesis',
+  webpage: 'webpage',
+  'post-weblog': 'webpage'
+};
+
+// LaTeX accent commands as combining marks: {\"o} → ö
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301', '`': '\u0300', '"': '\u0308', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307', c: '\u0327', v: '\u030c', u: '\u0306'
+};
+
+/**
+ * Load a bibliography file; .bib is BibTeX, .json is CSL-JSON
+ */
+export function loadBibliography(filePath: string): BibEntry[] {
+  const text = readFileSync(filePath, 'utf-8').replace(/^\ufeff/, '');
+
+  switch (extname(filePath).toLowerCase()) {
+    case '.bib':
+      return parseBibtex(text);
+    case '.json':
+      return parseCslJson(JSON.parse(text));
+    default:
+      throw new Error(`Unsupported bibliography type: ${extname(filePath) || filePath} (use .bib or .json)`);
+  }
+}
+
+/**
+ * Parse BibTeX entries; `@string` macros and `#` concatenation are supported
+ */
+export function parseBibtex(text: string): BibEntry[] {
+  const entries: BibEntry[] = [];
+  const strings: Record<string, string> = {};
+  let position = 0;
+
+  while ((position = text.indexOf('@', position)) !== -1) {
+    const header = text.slice(position).match(/^@\s*(\w+)\s*([{(])/);
+    if (!header) {
+      position++;
+      continue;
+    }
+
+    const type = header[1].toLowerCase();
+    const close = header[2] === '{' ? '}' : ')';
+    let cursor = position + header[0].length;
+
+    const skipSpace = () => {
+      while (/\s/.test(text[cursor] ?? '')) cursor++;
+    };
+
+    const readBraced = (): string => {
+      let depth = 1;
+      const start = ++cursor;
+      for (; cursor < text.length && depth > 0; cursor++) {
+        if (text[cursor] === '\\') cursor++;
+        else if (text[cursor] === '{') depth++;
+        else if (text[cursor] === '}') depth--;
+      }
+      if (depth > 0) throw new Error(`Unterminated value in @${type} at offset ${start}`);
+      return text.slice(start, cursor - 1);
+    };
+
+    // value = {..} | ".." | number | macro, joined with #
+    const readValue = (): string => {
+      let value = '';
+      for (;;) {
+        skipSpace();
+        if (text[cursor] === '{') {
+          value += readBraced();
+        } else if (text[cursor] === '"') {
+          const start = ++cursor;
+          let depth = 0;
+          while (cursor < text.length && (text[cursor] !== '"' || depth > 0)) {
+            if (text[cursor] === '{') depth++;
+            if (text[cursor] === '}') depth--;
+            cursor++;
+          }
+          value += text.slice(start, cursor++);
+        } else {
+          const word = text.slice(cursor).match(/^[^\s,#{}()"]+/)?.[0] ?? '';
+          cursor += word.length;
+          value += /^\d+$/.test(word) ? word : strings[word.toLowerCase()] ?? word;
+        }
+        skipSpace();
+        if (text[cursor] !== '#') return value;
+        cursor++;
+      }
+    };
+
+    if (type === 'comment' || type === 'preamble') {
+      if (close === '}') {
+        cursor--;
+        readBraced();
+      }
+      position = cursor;
+      continue;
+    }
+
+    if (type === 'string') {
+      skipSpace();
+      const name = text.slice(cursor).match(/^[^\s=]+/)?.[0] ?? '';
+      cursor += name.length;
+      skipSpace();
+      cursor++; // =
+      strings[name.toLowerCase()] = readValue();
+      position = cursor;
+      continue;
+    }
+
+    skipSpace();
+    const key = text.slice(cursor).match(/^[^\s,]+/)?.[0];
+    if (!key) throw new Error(`Missing key in @${type} at offset ${position}`);
+    cursor += key.length;
+
+    const fields: Record<string, string> = {};
+    for (;;) {
+      skipSpace();
+      if (text[cursor] === ',') cursor++;
+      skipSpace();
+      if (text[cursor] === close || cursor >= text.length) break;
+
+      const name = text.slice(cursor).match(/^[\w-]+/)?.[0];
+      if (!name) throw new Error(`Unexpected "${text[cursor]}" in @${type}{${key}}`);
+      cursor += name.length;
+      skipSpace();
+      if (text[cursor] !== '=') throw new Error(`Missing "=" after ${name} in @${type}{${key}}`);
+      cursor++;
+      fields[name.toLowerCase()] = readValue();
+    }
+
+    entries.push(fromBibtex(key, type, fields));
+    position = cursor + 1;
+  }
+
+  return entries;
+}
+
+function fromBibtex(id: string, type: string, fields: Record<string, string>): BibEntry {
+  const field = (name: string) => fields[name] !== undefined ? cleanLatex(fields[name]) : undefined;
+  const year = field('year') ?? field('date')?.match(/\d{4}/)?.[0];
+
+  return {
+    id,
+    type: BIBTEX_TYPES[type] ?? (fields.url ? 'webpage' : 'misc'),
+    authors: fields.author ? parseBibtexNames(fields.author) : [],
+    editors: fields.editor ? parseBibtexNames(fields.editor) : [],
+    year,
+    title: field('title'),
+    container: field('journal') ?? field('journaltitle') ?? field('booktitle'),
+    publisher: field('publisher') ?? field('institution') ?? field('school') ?? field('organization'),
+    place: field('address') ?? field('location'),
+    volume: field('volume'),
+    issue: field('number') ?? field('issue'),
+    pages: field('pages')?.replace(/\s*-+\s*/g, '–'),
+    edition: field('edition'),
+    url: fields.url,
+    doi: fields.doi
+  };
+}
+
+/**
+ * "Widodo, Joko and {Badan Pusat Statistik} and Ani Lestari" → authors; braced names are kept whole
+ */
+function parseBibtexNames(value: string): Author[] {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '{') depth++;
+    else if (value[i] === '}') depth--;
+    else if (depth === 0 && /^\s+and\s+/i.test(value.slice(i, i + 6)) && /\s/.test(value[i])) {
+      names.push(value.slice(start, i));
+      i += value.slice(i).match(/^\s+and\s+/i)![0].length - 1;
+      start = i + 1;
+    }
+  }
+  names.push(value.slice(start));
+
+  return names.map(name => name.trim()).filter(Boolean).map(name => {
+    if (/^\{[^{}]*\}$/.test(name)) return { family: cleanLatex(name), literal: true };
+
+    const comma = name.indexOf(',');
+    if (comma !== -1) {
+      return { family: cleanLatex(name.slice(0, comma)), given: cleanLatex(name.slice(comma + 1)) || undefined };
+    }
+
+    const words = name.split(/\s+/);
+    return words.length === 1
+      ? { family: cleanLatex(name), literal: true }
+      : { family: cleanLatex(words[words.length - 1]), given: cleanLatex(words.slice(0, -1).join(' ')) };
+  });
+}
+
+/**
+ * Turn common LaTeX markup into plain text
+ */
+function cleanLatex(value: string): string {
+  return value
+    .replace(/\\([`'"^~=.]|[cvu]\s)\s*\{?(\w)\}?/g, (match, accent: string, letter: string) =>
+      ACCENTS[accent.trim()] ? (letter + ACCENTS[accent.trim()]).normalize('NFC') : letter)
+    .replace(/\\(?:textit|textbf|emph|textsc|url)\s*\{([^{}]*)\}/g, '$1')
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+type CslItem = Record<string, unknown> & {
+  id: string | number;
+  type?: string;
+  author?: CslName[];
+  editor?: CslName[];
+  issued?: { 'date-parts'?: (string | number)[][]; literal?: string; raw?: string };
+};
+
+/**
+ * Convert CSL-JSON items (as exported by Zotero or Mendeley) to entries
+ */
+export function parseCslJson(items: unknown): BibEntry[] {
+  if (!Array.isArray(items)) throw new Error('CSL-JSON bibliography must be an array of items');
+
+  const names = (list?: CslName[]): Author[] => (list ?? []).map(name =>
+    name.literal || !name.family
+      ? { family: name.literal ?? name.given ?? '', literal: true }
+      : { family: name.family, given: name.given });
+  const text = (value: unknown) => value === undefined || value === null ? undefined : String(value);
+
+  return (items as CslItem[]).map(item => {
+    const issued = item.issued;
+    const year = text(issued?.['date-parts']?.[0]?.[0]) ?? (issued?.literal ?? issued?.raw)?.match(/\d{4}/)?.[0];
+
+    return {
+      id: String(item.id),
+      type: CSL_TYPES[item.type ?? ''] ?? (item.URL ? 'webpage' : 'misc'),
+      authors: names(item.author),
+      editors: names(item.editor),
+      year,
+      title: text(item.title),
+      container: text(item['container-title']),
+      publisher: text(item.publisher),
+      place: text(item['publisher-place']),
+      volume: text(item.volume),
+      issue: text(item.issue),
+      pages: text(item.page)?.replace(/\s*-+\s*/g, '–'),
+      edition: text(item.edition),
+      url: text(item.URL),
+      doi: text(item.DOI)
+    };
+  });
+}
+
+function terms(locale: string) {
+  return getMessages(locale).references;
+}
+
+/**
+ * "J. W." from "Joko Widodo", "J.-P." from "Jean-Paul"
+ */
+function initials(given: string): string {
+  return given.split(/\s+/).map(part => part.split('-').map(name => `${name[0]}.`).join('-')).join(' ');
+}
+
+function joinNames(names: string[], and: string, serialComma: boolean): string {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]} ${and} ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}${serialComma ? ',' : ''} ${and} ${names[names.length - 1]}`;
+}
+
+/**
+ * In-text label without the year: Widodo, Widodo & Lestari, Widodo dkk.
+ */
+export function citationAuthors(entry: BibEntry, locale: string): string {
+  const { etAl } = terms(locale);
+  const names = entry.authors.length > 0 ? entry.authors : entry.editors;
+  if (names.length === 0) return entry.title ?? entry.id;
+  if (names.length === 1) return names[0].family;
+  if (names.length === 2) return `${names[0].family} & ${names[1].family}`;
+  return `${names[0].family} ${etAl}`;
+}
+
+/**
+ * Order of the reference list: APA by author and year, IEEE by first citation
+ */
+export function sortReferences(entries: BibEntry[], style: CitationStyle, locale: string): BibEntry[] {
+  if (style === 'ieee') return entries;
+  const key = (entry: BibEntry) => `${citationAuthors(entry, locale)}\u0000${entry.year ?? ''}\u0000${entry.title ?? ''}`;
+  return [...entries].sort((a, b) => key(a).localeCompare(key(b), locale));
+}
+
+/**
+ * APA years with a/b suffixes for the same authors in the same year (2020a, 2020b)
+ */
+export function disambiguateYears(sorted: BibEntry[], locale: string): Map<string, string> {
+  const years = new Map<string, string>();
+  const groups = new Map<string, BibEntry[]>();
+
+  for (const entry of sorted) {
+    const label = `${citationAuthors(entry, locale)}\u0000${entry.year ?? ''}`;
+    groups.set(label, [...(groups.get(label) ?? []), entry]);
+  }
+
+  for (const group of groups.values()) {
+    group.forEach((entry, index) => {
+      const year = entry.year ?? terms(locale).noDate;
+      years.set(entry.id, group.length > 1 ? `${year}${entry.year ? '' : '-'}${String.fromCharCode(97 + index)}` : year);
+    });
+  }
+
+  return years;
+}
+
+/**
+ * One entry of the reference list
+ */
+export function formatReference(entry: BibEntry, style: CitationStyle, locale: string, year?: string): ReferencePart[] {
+  return style === 'ieee' ? formatIeee(entry, locale) : formatApa(entry, locale, year ?? entry.year ?? terms(locale).noDate);
+}
+
+// Widodo, J., Lestari, A., & Santoso, B. (2020). Judul artikel. *Jurnal*, *12*(3), 45–67. https://doi.org/...
+function formatApa(entry: BibEntry, locale: string, year: string): ReferencePart[] {
+  const t = terms(locale);
+  const name = (author: Author) => author.literal || !author.given ? author.family : `${author.family}, ${initials(author.given)}`;
+  const authors = entry.authors.map(name);
+  const parts: ReferencePart[] = [];
+  const add = (text: string, italic?: boolean) => parts.push({ text, italic });
+
+  // Initials already end with a period, group authors get one: Badan Pusat Statistik. (2021).
+  const period = (text: string) => text.endsWith('.') ? `${text} ` : `${text}. `;
+  if (authors.length > 0) {
+    add(period(authors.length === 1 ? authors[0] : `${authors.slice(0, -1).join(', ')}, & ${authors[authors.length - 1]}`));
+  } else if (entry.editors.length > 0) {
+    add(`${joinNames(entry.editors.map(name), '&', true)} (${t.editors}). `);
+  }
+  add(`(${year}). `);
+
+  const title = entry.title ? entry.title.replace(/[.?!]?$/, match => match || '.') : '';
+  switch (entry.type) {
+    case 'article':
+      add(`${title} `);
+      if (entry.container) {
+        add(entry.container, true);
+        if (entry.volume) {
+          add(', ');
+          add(entry.volume, true);
+        }
+        add(`${entry.issue ? `(${entry.issue})` : ''}${entry.pages ? `, ${entry.pages}` : ''}. `);
+      }
+      break;
+    case 'chapter':
+    case 'paper-conference':
+      add(`${title} `);
+      if (entry.container) {
+        add(`${t.in} `);
+        if (entry.editors.length > 0 && entry.authors.length > 0) {
+          add(`${joinNames(entry.editors.map(editor => editor.literal || !editor.given ? editor.family : `${initials(editor.given)} ${editor.family}`), '&', true)} (${t.editors}), `);
+        }
+        add(entry.container, true);
+        add(`${entry.pages ? ` (pp. ${entry.pages})` : ''}. `);
+      }
+      if (entry.publisher) add(`${entry.publisher}. `);
+      break;
+    default:
+      if (entry.title) {
+        add(entry.title, true);
+        add(`${entry.edition ? ` (${entry.edition} ${t.edition})` : ''}. `);
+      }
+      if (entry.publisher) add(`${entry.publisher}. `);
+  }
+
+  if (entry.doi) add(`https://doi.org/${entry.doi.replace(/^https?:\/\/(?:dx\.)?doi\.org\//, '')}`);
+  else if (entry.url) add(entry.url);
+  return trimParts(parts);
+}
+
+// J. Widodo, A. Lestari, dan B. Santoso, "Judul artikel," *Jurnal*, vol. 12, no. 3, pp. 45–67, 2020.
+function formatIeee(entry: BibEntry, locale: string): ReferencePart[] {
+  const t = terms(locale);
+  const name = (author: Author) => author.literal || !author.given ? author.family : `${initials(author.given)} ${author.family}`;
+  const authors = entry.authors.length > 6
+    ? `${name(entry.authors[0])} ${t.etAl}`
+    : joinNames(entry.authors.map(name), t.and, true);
+  const parts: ReferencePart[] = [];
+  const add = (text: string, italic?: boolean) => parts.push({ text, italic });
+  const details: string[] = [];
+
+  if (authors) add(`${authors}, `);
+
+  if (entry.type === 'book' || entry.type === 'report' || entry.type === 'thesis') {
+    if (entry.title) add(entry.title, true);
+    if (entry.edition) details.push(`${entry.edition} ${t.edition}`);
+    const publisher = [entry.place, entry.publisher].filter(Boolean).join(': ');
+    add(`${details.length ? `, ${details.join(', ')}` : ''}${publisher ? `. ${publisher}` : ''}, ${entry.year ?? t.noDate}.`);
+  } else {
+    if (entry.title) add(`"${entry.title}," `);
+    if (entry.container) {
+      if (entry.type === 'chapter' || entry.type === 'paper-conference') add(`${t.in.toLowerCase()} `);
+      add(entry.container, true);
+      add(', ');
+    }
+    if (entry.volume) details.push(`vol. ${entry.volume}`);
+    if (entry.issue) details.push(`no. ${entry.issue}`);
+    if (entry.pages) details.push(`${entry.pages.includes('–') ? 'pp.' : 'p.'} ${entry.pages}`);
+    details.push(entry.year ?? t.noDate);
+    add(`${details.join(', ')}.`);
+  }
+
+  if (entry.doi) add(` doi: ${entry.doi}.`);
+  else if (entry.url) add(` [${t.online}]. ${t.available}: ${entry.url}`);
+  return trimParts(parts);
+}
+
+function trimParts(parts: ReferencePart[]): ReferencePart[] {
+  const last = parts[parts.length - 1];
+  if (last) last.text = last.text.trimEnd();
+  return parts.filter(part => part.text);
+}
@@ -0,0 +1,246 @@
+/**
+ * Block helpers for data-driven documents
+ * Expands `{{#each list}} ... {{/each}}` and `{{#if condition}} ... {{else}} ... {{/if}}`
+ * in the markdown source before it is parsed, so loops can generate table rows and sections.
+ */
+
+import type { ExpressionScope, ExpressionValue } from './expressions';
+import { findExpressionEnd } from './markdown';
+
+export interface BlockContext {
+  /** Raw value of a block expression; errors are reported and return undefined */
+  value: (expression: string, scope: ExpressionScope) => ExpressionValue | undefined;
+  /** Display text of a `${...}` expression inside a loop */
+  evaluate: (expression: string, scope: ExpressionScope) => string | undefined;
+  /** Store text under a generated variable name so it renders through the normal `${...}` path */
+  bind: (text: string) => string;
+  warn: (code: string, message: string, snippet?: string) => void;
+}
+
+export interface BlockExpansion {
+  text: string;
+  lines: number[]; // source line of every line of `text`, from 0
+}
+
+type BlockNode =
+  | { type: 'text'; text: string; start: number }
+  | { type: 'each' | 'if'; expression: string; raw: string; body: BlockNode[]; alternate: BlockNode[] };
+
+interface Segment {
+  text: string;
+  start: number; // offset in the source
+}
+
+interface Tag {
+  kind: 'each' | 'if' | 'else' | 'end';
+  name?: 'each' | 'if';
+  expression: string;
+  raw: string;
+  start: number;
+  end: number;
+}
+
+const TAG_REGEX = /\{\{\s*(#each|#if|else|\/each|\/if)\b\s*([\s\S]*?)\s*\}\}/g;
+
+/**
+ * Ranges of fenced and inline code, where tags and expressions are left alone
+ */
+function findCodeRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const match of text.matchAll(/^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[^\n]*$|(?![\s\S]))/gm)) {
+    ranges.push([match.index!, match.index! + match[0].length]);
+  }
+  for (const match of text.matchAll(/(`+)(?!`)[\s\S]*?[^`]\1(?!`)/g)) {
+    const start = match.index!;
+    if (!ranges.some(([from, to]) => start >= from && start < to)) {
+      ranges.push([start, start + match[0].length]);
+    }
+  }
+  return ranges;
+}
+
+function findTags(text: string, code: [number, number][]): Tag[] {
+  const tags: Tag[] = [];
+
+  for (const match of text.matchAll(TAG_REGEX)) {
+    let start = match.index!;
+    let end = start + match[0].length;
+    if (code.some(([from, to]) => start >= from && start < to)) continue;
+
+    // A tag alone on its line takes the whole line with it
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = text.indexOf('\n', end);
+    if (text.slice(lineStart, start).trim() === '' && text.slice(end, lineEnd === -1 ? text.length : lineEnd).trim() === '') {
+      start = lineStart;
+      end = lineEnd === -1 ? text.length : lineEnd + 1;
+    }
+
+    const keyword = match[1];
+    tags.push({
+      kind: keyword === 'else' ? 'else' : keyword.startsWith('/') ? 'end' : keyword.slice(1) as 'each' | 'if',
+      name: keyword === 'else' ? undefined : keyword.replace(/^[#/]/, '') as 'each' | 'if',
+      expression: match[2],
+      raw: match[0],
+      start,
+      end
+    });
+  }
+
+  return tags;
+}
+
+function buildTree(text: string, tags: Tag[], context: BlockContext): BlockNode[] | null {
+  const root: BlockNode[] = [];
+  const stack: { node: Extract<BlockNode, { type: 'each' | 'if' }>; inElse: boolean; tag: Tag }[] = [];
+  let cursor = 0;
+
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.alternate : top.node.body) : root;
+  };
+
+  for (const tag of tags) {
+    if (tag.start > cursor) current().push({ type: 'text', text: text.slice(cursor, tag.start), start: cursor });
+    cursor = tag.end;
+
+    if (tag.kind === 'each' || tag.kind === 'if') {
+      const node: BlockNode = { type: tag.kind, expression: tag.expression, raw: tag.raw, body: [], alternate: [] };
+      current().push(node);
+      stack.push({ node, inElse: false, tag });
+    } else if (tag.kind === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        context.warn('block-error', `Unexpected {{else}}`, tag.raw);
+        return null;
+      }
+      top.inElse = true;
+    } else {
+      const top = stack.pop();
+      if (!top || top.node.type !== tag.name) {
+        context.warn('block-error', `Unexpected ${tag.raw}${top ? `, expected {{/${top.node.type}}}` : ''}`, tag.raw);
+        return null;
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].tag;
+    context.warn('block-error', `${open.raw} is never closed with {{/${open.name}}}`, open.raw);
+    return null;
+  }
+
+  if (cursor < text.length) root.push({ type: 'text', text: text.slice(cursor), start: cursor });
+  return root;
+}
+
+function isTruthy(value: ExpressionValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * Expand block helpers. Top-level `${...}` expressions are left for the
+ * markdown transform; inside loops they are evaluated with the item scope.
+ */
+export function expandBlocks(text: string, scope: ExpressionScope, context: BlockContext): string {
+  return expandBlocksWithLines(text, scope, context).text;
+}
+
+/**
+ * expandBlocks(), also telling which source line every line of the result comes from,
+ * so diagnostics and editor sync point below a loop still point to the right line
+ */
+export function expandBlocksWithLines(text: string, scope: ExpressionScope, context: BlockContext): BlockExpansion {
+  const unchanged = () => ({ text, lines: text.split('\n').map((_, index) => index) });
+  if (!text.includes('{{')) return unchanged();
+
+  const code = findCodeRanges(text);
+  const tree = buildTree(text, findTags(text, code), context);
+  if (!tree) return unchanged();
+
+  const inCode = (offset: number) => code.some(([from, to]) => offset >= from && offset < to);
+
+  const bindExpressions = (node: Extract<BlockNode, { type: 'text' }>, local: ExpressionScope): string => {
+    let result = '';
+    let cursor = 0;
+    let start = node.text.indexOf('${');
+
+    while (start !== -1) {
+      const end = findExpressionEnd(node.text, start);
+      if (end === -1) break;
+
+      if (!inCode(node.start + start)) {
+        const raw = node.text.slice(start, end);
+        const text = context.evaluate(raw.slice(2, -1).trim(), local);
+        result += node.text.slice(cursor, start) + `\${${context.bind(text ?? raw)}}`;
+        cursor = end;
+      }
+      start = node.text.indexOf('${', end);
+    }
+
+    return result + node.text.slice(cursor);
+  };
+
+  // Pieces of output text with the source offset each one starts at
+  const render = (nodes: BlockNode[], local: ExpressionScope, inLoop: boolean): Segment[] => nodes.flatMap((node): Segment[] => {
+    if (node.type === 'text') {
+      return [{ text: inLoop ? bindExpressions(node, local) : node.text, start: node.start }];
+    }
+
+    if (node.type === 'if') {
+      const condition = context.value(node.expression, local);
+      return render(isTruthy(condition) ? node.body : node.alternate, local, inLoop);
+    }
+
+    // {{#each items}} or {{#each items as item}}
+    const [, listExpression, alias] = node.expression.match(/^([\s\S]+?)(?:\s+as\s+([A-Za-z_$][\w$]*))?$/)!;
+    const list = context.value(listExpression, local);
+    if (list !== undefined && list !== null && !Array.isArray(list)) {
+      context.warn('block-error', `{{#each ${listExpression}}} expects a list`, node.raw);
+      return [];
+    }
+    if (!list || list.length === 0) {
+      return render(node.alternate, local, inLoop);
+    }
+
+    return list.flatMap((item, index) => {
+      const fields = item && typeof item === 'object' && !Array.isArray(item) && !(item instanceof Date) ? item : {};
+      const itemScope: ExpressionScope = { ...local, ...fields, this: item, index, number: index + 1 };
+      if (alias) itemScope[alias] = item;
+      return render(node.body, itemScope, true);
+    });
+  });
+
+  return joinSegments(render(tree, scope, false), text);
+}
+
+/**
+ * Concatenate rendered pieces; each line of the result comes from the source line of its first character
+ */
+function joinSegments(segments: Segment[], source: string): BlockExpansion {
+  const breaks = [...source.matchAll(/\n/g)].map(match => match.index!);
+  // Number of line breaks before `offset`
+  const lineOf = (offset: number) => {
+    let [low, high] = [0, breaks.length];
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (breaks[middle] < offset) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+  const lines: number[] = [];
+  let lineStart = true;
+  let line = 0;
+
+  for (const segment of segments) {
+    line = lineOf(segment.start);
+    for (const char of segment.text) {
+      if (lineStart) lines.push(line);
+      lineStart = char === '\n';
+      if (lineStart) line++;
+    }
+  }
+  if (lineStart) lines.push(line);
+
+  return { text: segments.map(segment => segment.text).join(''), lines };
+}
@@ -1,6 +1,11 @@
 import { DocumentSection, AksaraDirectives, DocumentMetadata, ConvertOptions, ConvertResult } from '../types';
+import { DiagnosticCollector } from '../diagnostics';
+import { AssetResolver } from '../assets';
+import { MarkdownProcessor, escapeHtml, cssUrl, splitParts } from '../markdown';
 import { readFileSync, existsSync } from 'fs';
-import { resolve, isAbsolute, basename, extname } from 'path';
+import { resolve, isAbsolute } from 'path';
+import { resolvePageSize, documentPageSize } from '../page-size';
+import { getMessages, formatMessage } from '../messages';
 
 export class HtmlConverter {
   constructor(
@@ -9,12 +14,15 @@ export class HtmlConverter {
     private metadata: DocumentMetadata,
     private options: ConvertOptions,
     private loadTemplate: (path: string) => string,
-    private replaceTemplateVars: (template: string, vars: Record<string, string>) => string
+    private replaceTemplateVars: (template: string, vars: Record<string, string>) => string,
+    private markdown: MarkdownProcessor,
+    private diagnostics: DiagnosticCollector,
+    private assets: AssetResolver
   ) {}
 
   async convert(): Promise<ConvertResult> {
     const html = this.generateSectionedHtml();
-    const styledHtml = this.applyDocumentTheme(html);
+    const styledHtml = this.assets.deduplicate(this.applyDocumentTheme(html));
 
     return {
       success: true,
@@ -23,67 +31,66 @@ export class HtmlConverter {
     };
   }
 
-  private extractBackgroundImages(html: string): { backgroundImages: string; contentWithoutBg: string } {
-    const backgroundImageRegex = /<div class="image-(bg|wm)"[^>]*>.*?<\/div>/g;
-    const pageBackgroundRegex = /<div class="page-background"[^>]*><\/div>/g;
-
-    const backgroundImages: string[] = [];
-    let contentWithoutBg = html;
-
-    // Extract image-bg, image-wm divs (positioned background images)
-    let match;
-    while ((match = backgroundImageRegex.exec(html)) !== null) {
-      backgroundImages.push(match[0]);
-      contentWithoutBg = contentWithoutBg.replace(match[0], '');
-    }
-
-    // Extract page-background divs (legacy background images)
-    while ((match = pageBackgroundRegex.exec(html)) !== null) {
-      backgroundImages.push(match[0]);
-      contentWithoutBg = contentWithoutBg.replace(match[0], '');
-    }
-
-    return {
-      backgroundImages: backgroundImages.join('\n'),
-      contentWithoutBg: contentWithoutBg.trim()
-    };
-  }
-
   private generateSectionedHtml(): string {
     const sectionsHtml = this.sections.map(section => {
-      // Extract background images from section content
-      const { backgroundImages, contentWithoutBg } = this.extractBackgroundImages(section.html);
-
       // Build section classes
       let sectionClasses = 'document-section';
       if (section.classes) {
         sectionClasses += ` ${section.classes}`;
       }
+      if (section.layout) {
+        sectionClasses += ` layout-${section.layout}`;
+      }
+
+      const style = this.getSectionStyle(section);
+      const source = section.source && section.source.file === this.options.sourceFile ? ` data-source-line="${section.source.line}"` : '';
 
       return `
-        <section class="${sectionClasses}" data-section="${section.index}">
-          ${backgroundImages}
-          ${this.directives.header ? this.generateHeader(section.index) : ''}
+        <section class="${escapeHtml(sectionClasses)}" data-section="${section.index}"${source}${style ? ` style="${style}"` : ''}>
+          ${section.backgroundHtml || ''}
+          ${this.generateHeader(section.header ?? this.directives.header)}
           <div class="section-content">
-            ${contentWithoutBg}
+            ${section.html}
+            ${section.footnotesHtml || ''}
           </div>
-          ${this.generateFooter(section.index)}
+          ${this.generateFooter(section.index, section.footer ?? this.directives.footer)}
         </section>
       `;
     }).join('\n');
 
     return `
-      <div class="aksara-document" data-size="${this.directives.size || 'A4'}">
+      <div class="aksara-document" data-size="${this.directives.size || 'A4'}"${this.isFlow() ? ' data-pagination="flow"' : ''}>
         ${sectionsHtml}
       </div>
     `;
   }
 
-  private generateHeader(pageNumber: number): string {
-    if (!this.directives.header) return '';
+  /**
+   * Inline style for a section's own background and page size
+   */
+  private getSectionStyle(section: DocumentSection): string {
+    const styles: string[] = [];
 
-    const parts = this.directives.header.split('|').filter(part => part !== '');
-    const processedParts = parts.map(part => this.markdownToHtml(part.trim()));
+    if (section.background === false) {
+      styles.push('background-image: none !important;');
+    } else if (section.background) {
+      styles.push(`background-image: url(${cssUrl(this.convertImagePath(section.background))}) !important; background-size: 100% 100% !important; background-position: center !important; background-repeat: no-repeat !important;`);
+    }
+
+    // Page sizes only apply to page-like document sections, slides keep the presentation size
+    if (section.page && this.directives.type !== 'presentation') {
+      const { pageWidth, pageHeight } = resolvePageSize(section.page, documentPageSize(this.directives.size));
+      styles.push(`width: ${pageWidth} !important; ${this.isFlow() ? 'height' : 'min-height'}: ${pageHeight} !important;`);
+    }
+
+    return escapeHtml(styles.join(' '));
+  }
+
+  private generateHeader(header: string | false | undefined): string {
+    if (!header) return '';
+
+    const parts = splitParts(header);
+    const processedParts = parts.map(part => this.markdown.toHtml(part.trim()));
 
     const headerItems = processedParts.map((part, index) =>
       `<div class="header-item">${part}</div>`
@@ -96,18 +103,20 @@ export class HtmlConverter {
     `;
   }
 
-  private generateFooter(pageNumber: number): string {
-    const footerContent = this.directives.footer || '';
+  private generateFooter(pageNumber: number, footerContent: string | false = this.directives.footer || ''): string {
     const totalPages = this.sections.length;
 
+    // `footer: none` hides the footer and the default page number
+    if (footerContent === false) return '';
+
     // If custom footer provided, split by | like header does
     if (footerContent) {
-      const parts = footerContent.split('|').filter(part => part !== '');
+      const parts = splitParts(footerContent);
       const processedParts = parts.map(part => {
         const replaced = part.trim()
-          .replace(/\[page\]/g, pageNumber.toString())
-          .replace(/\[total\]/g, totalPages.toString());
-        return this.markdownToHtml(replaced);
+          .replace(/\[page\]/g, `<span class="page-current">${pageNumber}</span>`)
+          .replace(/\[total\]/g, `<span class="page-total">${totalPages}</span>`);
+        return this.markdown.toHtml(replaced);
       });
 
       const footerItems = processedParts.map((part, index) =>
@@ -124,7 +133,10 @@ export class HtmlConverter {
     // Default footer if none provided
     return `
       <footer class="document-footer">
-        <div class="page-number">Halaman ${pageNumber} dari ${totalPages}</div>
+        <div class="page-number">${formatMessage(getMessages(this.options.locale).pageOf, {
+          page: `<span class="page-current">${pageNumber}</span>`,
+          total: `<span class="page-total">${totalPages}</span>`
+        })}</div>
       </footer>
     `;
   }
@@ -135,14 +147,17 @@ export class HtmlConverter {
     const isPresentation = this.directives.type === 'presentation';
 
     const template = this.loadTemplate('templates/document.html');
-    const scriptContent = this.loadTemplate('templates/scripts.js').replace(
+    const messages = `const aksaraMessages = ${JSON.stringify(getMessages(this.options.locale).controls)};\n`;
+    const scriptContent = messages + this.loadTemplate('templates/scripts.js').replace(
       'function initializeAksaraDocument(totalSections) {',
       `// Initialized with ${totalSections} sections\nconst totalSections = ${totalSections};\n`
-    ).replace(/\/\/ End of initializeAksaraDocument function\s*}$/, '');
+    ).replace(/\/\/ End of initializeAksaraDocument function\s*}$/, '') + (this.isFlow() ? this.getPaginationScript() : '');
 
     return this.replaceTemplateVars(template, {
       locale: this.options.locale || 'id',
-      title: this.metadata.title || 'Aksara Document',
+      title: escapeHtml(this.metadata.title || 'Aksara Document'),
+      author: escapeHtml(this.metadata.author || ''),
+      keywords: escapeHtml((this.metadata.keywords || []).join(', ')),
       baseStyles: this.getBaseStyles(),
       layoutStyles: isPresentation ? this.getPresentationStyles() : this.getDocumentStyles(),
       controlStyles: this.getControlStyles(),
@@ -152,10 +167,47 @@ export class HtmlConverter {
       documentType: isPresentation ? 'presentation' : 'document',
       controls: isPresentation ? this.getPresentationControls(totalSections) : this.getDocumentControls(totalSections),
       content: html,
+      mermaidSecurity: this.options.sanitize ? 'strict' : 'loose', // strict: no click handlers or HTML labels in diagrams
       scriptContent
     });
   }
 
+  /**
+   * Flow pagination applies to documents; slides always keep one section per slide
+   */
+  private isFlow(): boolean {
+    return this.directives.pagination === 'flow' && this.directives.type !== 'presentation';
+  }
+
+  /**
+   * Split overflowing sections once images are loaded and update the page count in the controls
+   */
+  private getPaginationScript(): string {
+    return `
+${this.loadTemplate('templates/paginate.js')}
+window.addEventListener('load', () => {
+  const total = paginateAksaraPages('.document-section', '.section-content');
+  const indicator = document.getElementById('total-pages');
+  if (indicator) indicator.textContent = String(total);
+});
+`;
+  }
+
+  /**
+   * Flow pages have the fixed height of the document's page, so overflowing content moves to continuation pages
+   */
+  private getFlowPageStyles(): string {
+    const { pageWidth, pageHeight } = documentPageSize(this.directives.size);
+    return `
+        body[data-type="document"] .aksara-document[data-pagination="flow"] .document-section {
+          width: ${pageWidth} !important;
+          height: ${pageHeight} !important;
+          min-height: 0 !important;
+          aspect-ratio: auto;
+        }
+      `;
+  }
+
   private getBaseStyles(): string {
     return this.loadTemplate('styles/base.css');
   }
@@ -181,12 +233,7 @@ export class HtmlConverter {
 
   private getThemeStyles(): string {
     const themeName = this.options.theme || 'default';
-    try {
-      return this.loadTemplate(`styles/themes/${themeName}.css`);
-    } catch (error) {
-      console.warn(`Theme '${themeName}' not found, falling back to default`);
-      return this.loadTemplate('styles/themes/default.css');
-    }
+    return this.loadTemplate(`styles/themes/${themeName}.css`);
   }
 
   // Keep for backward compatibility
@@ -222,11 +269,15 @@ export class HtmlConverter {
       otherCustomStyles += this.parseSizeDirective(this.directives.size);
     }
 
+    if (this.isFlow()) {
+      otherCustomStyles += this.getFlowPageStyles();
+    }
+
     if (this.directives.background) {
       const backgroundPath = this.convertImagePath(this.directives.background);
       otherCustomStyles += `
         .document-section {
-          background-image: url(${backgroundPath}) !important;
+          background-image: url(${cssUrl(backgroundPath)}) !important;
           background-size: 100% 100% !important;
           background-position: center !important;
           background-repeat: no-repeat !important;
@@ -249,11 +300,11 @@ export class HtmlConverter {
           const customCss = readFileSync(stylePath, 'utf-8');
           customUserStyles += `\n/* Custom user styles from: ${this.directives.style} (applied last for highest priority) */\n${customCss}\n`;
         } else {
-          console.warn(`Custom style file not found: ${this.directives.style} (resolved to: ${stylePath})`);
+          this.diagnostics.warn('style-not-found', `Custom style file not found: ${this.directives.style} (resolved to: ${stylePath})`, this.directives.style);
           customUserStyles += `/* Custom style file not found: ${this.directives.style} */\n`;
         }
       } catch (error) {
-        console.warn(`Error loading custom style file ${this.directives.style}:`, error);
+        this.diagnostics.warn('style-error', `Error loading custom style file ${this.directives.style}: ${error instanceof Error ? error.message : error}`, this.directives.style);
         customUserStyles += `/* Error loading custom style file: ${this.directives.style} */\n`;
       }
     }
@@ -307,6 +358,7 @@ export class HtmlConverter {
   private getPresentationControls(totalSections: number): string {
     const template = this.loadTemplate('templates/presentation-controls.html');
     return this.replaceTemplateVars(template, {
+      ...this.getControlLabels(),
       totalSections: totalSections.toString()
     });
   }
@@ -314,325 +366,26 @@ export class HtmlConverter {
   private getDocumentControls(totalSections: number): string {
     const template = this.loadTemplate('templates/document-controls.html');
     return this.replaceTemplateVars(template, {
-      totalSections: totalSections.toString()
-    });
-  }
-
-  private processLists(text: string): string {
-    const lines = text.split('\n');
-    const result: string[] = [];
-    type ListState = { indent: number; type: 'ul' | 'ol' };
-    const listStack: ListState[] = [];
-
-    for (const line of lines) {
-      const ulMatch = line.match(/^(\s*)[-*] (.*)$/);
-      const olMatch = line.match(/^(\s*)\d+\. (.*)$/);
-      const match = ulMatch || olMatch;
-
-      if (match) {
-        const indent = match[1].length;
-        const content = match[2];
-        const type: 'ul' | 'ol' = ulMatch ? 'ul' : 'ol';
-
-        // Close deeper levels
-        while (listStack.length > 0 && listStack[listStack.length - 1].indent > indent) {
-          const closed = listStack.pop()!;
-          result.push(`</${closed.type}>`);
-        }
-
-        // Open new level if indent increased or stack is empty
-        if (listStack.length === 0 || listStack[listStack.length - 1].indent < indent) {
-          listStack.push({ indent, type });
-          result.push(`<${type}>`);
-        }
-
-        result.push(`<li>${content}</li>`);
-      } else {
-        // Close all open lists before non-list line
-        while (listStack.length > 0) {
-          const closed = listStack.pop()!;
-          result.push(`</${closed.type}>`);
-        }
-        result.push(line);
-      }
-    }
-
-    // Close any remaining open lists
-    while (listStack.length > 0) {
-      const closed = listStack.pop()!;
-      result.push(`</${closed.type}>`);
-    }
-
-    return result.join('\n');
-  }
-
-  private markdownToHtml(markdown: string): string {
-    // First, evaluate JavaScript expressions
-    const withEvaluatedJS = this.evaluateJavaScriptExpressions(markdown);
-
-    // Process nested lists before inline replacements
-    const withLists = this.processLists(withEvaluatedJS);
-
-    const html = withLists
-      .replace(/^# (.*$)/gm, '<h1>$1</h1>')
-      .replace(/^## (.*$)/gm, '<h2>$1</h2>')
-      .replace(/^### (.*$)/gm, '<h3>$1</h3>')
-      .replace(/^#### (.*$)/gm, '<h4>$1</h4>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/`(.*?)`/g, '<code>$1</code>')
-      .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (match, alt, src) => {
-        // Handle ![image ...] syntax (legacy and new)
-        if (alt.toLowerCase().startsWith('image')) {
-          const attrs = alt.replace(/^image\s*/i, '');
-          let style = 'max-width: 100%; height: auto;';
-
-          if (attrs.trim()) {
-            if (attrs.includes('bg') || attrs.includes('background')) {
-              return `<div class="page-background" style="background-image: url(${src}); background-size: 100% 100%; background-position: center; position: absolute; top: 0; left: 0; width: 100%; height: 100%; z-index: -1;"></div>`;
-            }
-
-            const positions = attrs.match(/([xywh]):\s*([^;\s]+)/g);
-            if (positions) {
-              const styleMap: { [key: string]: string } = { 'x': 'left', 'y': 'top', 'w': 'width', 'h': 'height' };
-              let hasPositionAttrs = positions.some((pos: string) => pos.match(/^[xy]:/));
-              let hasSizeAttrs = positions.some((pos: string) => pos.match(/^[wh]:/));
-
-              if (hasPositionAttrs) {
-                style = 'position: absolute; ';
-              } else {
-                style = '';
-              }
-
-              positions.forEach((pos: string) => {
-                const [key, value] = pos.split(':').map((s: string) => s.trim());
-                if (styleMap[key]) {
-                  style += `${styleMap[key]}: ${value}; `;
-                }
-              });
-
-              if (!hasPositionAttrs && hasSizeAttrs) {
-                style += 'object-fit: contain;';
-              }
-            }
-          }
-
-          const convertedSrc = this.convertImagePath(src);
-          return `<img src="${convertedSrc}" alt="image" style="${style}">`;
-        }
-
-        // Handle general image syntax with type identifiers and positioning
-        const typeMatch = alt.match(/^(bg|fg|lg|wm)\b/);
-        const posMatch = alt.match(/([trblxywh]):\s*([^;\s]+)/g);
-
-        // Determine z-index from type
-        const zIndexMap = { 'wm': 0, 'bg': 1, 'fg': 2, 'lg': 3 };
-        const imageType = typeMatch ? typeMatch[1] : null;
-        const zIndex = imageType ? zIndexMap[imageType as keyof typeof zIndexMap] : 'auto';
-
-        let style = 'max-width: 100%; height: auto;';
-        let hasPositioning = imageType && posMatch && posMatch.some((pos: string) => pos.match(/^[trblxy]:/));
-        let hasSizing = posMatch && posMatch.some((pos: string) => pos.match(/^[wh]:/));
-
-        if (hasPositioning) {
-          const styleMap = {
-            't': 'top', 'r': 'right', 'b': 'bottom', 'l': 'left',
-            'x': 'left', 'y': 'top', // legacy aliases
-            'w': 'width', 'h': 'height'
-          };
-          let positionStyle = `position: absolute; z-index: ${zIndex}; `;
-
-          posMatch!.forEach((pos: string) => {
-            const [key, value] = pos.split(':').map((s: string) => s.trim());
-            if (styleMap[key as keyof typeof styleMap]) {
-              positionStyle += `${styleMap[key as keyof typeof styleMap]}: ${value}; `;
-            }
-          });
-          style = positionStyle;
-        } else if (hasSizing) {
-          // Handle standalone sizing (w: and h:) without positioning
-          let sizeStyle = '';
-          posMatch!.forEach((pos: string) => {
-            const [key, value] = pos.split(':').map((s: string) => s.trim());
-            if (key === 'w') {
-              sizeStyle += `width: ${value}; `;
-            } else if (key === 'h') {
-              sizeStyle += `height: ${value}; `;
-            }
-          });
-          if (sizeStyle) {
-            style = sizeStyle + 'object-fit: contain;';
-          }
-        }
-
-        // Clean alt text
-        const cleanAlt = alt.replace(/^(bg|fg|lg|wm)\s*/, '').replace(/\s*[trblxywh]:[^;\s]+/g, '').trim();
-        const convertedSrc = this.convertImagePath(src);
-
-        if (hasPositioning) {
-          return `<div class="image-${imageType}" style="${style}"><img src="${convertedSrc}" alt="${cleanAlt}" style="width: 100%; height: 100%; object-fit: fill;"></div>`;
-        }
-
-        return `<img src="${convertedSrc}" alt="${cleanAlt}" style="${style}">`;
+      ...this.getControlLabels(),
+      pageIndicator: formatMessage(getMessages(this.options.locale).pageOf, {
+        page: '<span id="current-page">1</span>',
+        total: `<span id="total-pages">${totalSections}</span>`
       })
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>')
-      .replace(/\|.*\|/g, (match) => {
-        const cells = match.split('|').map(cell => cell.trim()).filter(Boolean);
-        return '<tr>' + cells.map(cell => `<td>${cell}</td>`).join('') + '</tr>';
-      });
-
-    // Apply paragraph wrapping similar to main converter
-    const lines = html.split('\n');
-    const processedLines: string[] = [];
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed === '') continue;
-
-      // Don't wrap block elements or positioned image divs
-      if (trimmed.match(/^<(h[1-6]|ul|ol|li|table|div|header|footer|pre|img|br|code)/)) {
-        processedLines.push(trimmed);
-      } else if (trimmed.match(/^<\/(h[1-6]|ul|ol|li|table|div|header|footer|pre)/)) {
-        processedLines.push(trimmed);
-      } else {
-        // Wrap in paragraph tags only if not empty
-        if (trimmed) {
-          processedLines.push(`<p style="position: relative; z-index: 2;">${trimmed}</p>`);
-        }
-      }
-    }
-
-    return processedLines.join('\n');
-  }
-
-  private evaluateJavaScriptExpressions(text: string): string {
-    return text.replace(/\$\{([^}]+)\}/g, (match, expression) => {
-      try {
-        // Safely evaluate simple expressions
-        const result = this.safeEval(expression.trim());
-        return result !== undefined ? String(result) : match;
-      } catch (error) {
-        console.warn(`Failed to evaluate expression: ${expression}`, error);
-        return match; // Return original if evaluation fails
-      }
     });
   }
 
-  private safeEval(expression: string): any {
-    // Handle meta variable access: meta.fieldname
-    if (expression.startsWith('meta.')) {
-      const fieldName = expression.substring(5).trim();
-      if (this.directives.meta && fieldName in this.directives.meta) {
-        return this.directives.meta[fieldName];
-      }
-      // Error handling: field not found
-      console.warn(`Metadata field not found: ${fieldName}`);
-      return `[meta.${fieldName} not found]`;
-    }
-
-    // Only allow safe expressions - primarily Date functions
-    if (expression.includes('new Date()')) {
-      // Handle date expressions
-      if (expression.includes('.toLocaleDateString(')) {
-        const match = expression.match(/new Date\(\)\.toLocaleDateString\(['"`]([^'"`]+)['"`]\)/);
-        if (match) {
-          const locale = match[1];
-          return new Date().toLocaleDateString(locale);
-        }
-        // Default locale
-        return new Date().toLocaleDateString();
-      }
-      if (expression.includes('.toDateString()')) {
-        return new Date().toDateString();
-      }
-      if (expression.includes('.getFullYear()')) {
-        return new Date().getFullYear();
-      }
-    }
-
-    // Handle Date constructor with offset (like due dates)
-    if (expression.includes('new Date(Date.now()')) {
-      const match = expression.match(/new Date\(Date\.now\(\)\s*([+\-])\s*([^)]+)\)\.toLocaleDateString\(['"`]([^'"`]+)['"`]\)/);
-      if (match) {
-        const operator = match[1];
-        const offsetExpr = match[2].trim();
-        const locale = match[3];
-
-        // Safely evaluate simple math expressions for date offset
-        if (/^[\d\s+\-*/().]+$/.test(offsetExpr)) {
-          const offset = Function(`"use strict"; return (${offsetExpr})`)();
-          const dateMs = operator === '+' ? Date.now() + offset : Date.now() - offset;
-          return new Date(dateMs).toLocaleDateString(locale);
-        }
-      }
-    }
-
-    // Handle simple math and string operations
-    if (/^[\d\s+\-*/().]+$/.test(expression)) {
-      return Function(`"use strict"; return (${expression})`)();
-    }
-
-    // Handle simple string concatenation
-    if (expression.includes('+') && (expression.includes('"') || expression.includes("'"))) {
-      return Function(`"use strict"; return (${expression})`)();
-    }
-
-    throw new Error(`Unsafe expression: ${expression}`);
+  /**
+   * Tooltips of the viewer controls in the document locale
+   */
+  private getControlLabels(): Record<string, string> {
+    const { controls } = getMessages(this.options.locale);
+    return Object.fromEntries(Object.entries(controls).map(([key, label]) => [key, escapeHtml(label)]));
   }
 
+  /**
+   * Backgrounds, kept as relative paths unless `embedImages` is set
+   */
   private convertImagePath(imagePath: string): string {
-    if (imagePath.startsWith('http') || imagePath.startsWith('data:') || isAbsolute(imagePath)) {
-      return imagePath;
-    }
-
-    // For HTML exports, default to NOT embedding images (keep relative paths)
-    // This keeps HTML file size small
-    const shouldEmbed = this.options.embedImages ?? false;
-
-    if (!shouldEmbed) {
-      // Keep relative path as-is for HTML export
-      return imagePath;
-    }
-
-    // Embed as base64 if explicitly requested
-    try {
-      const baseDir = this.options.basePath || process.cwd();
-      let absolutePath = resolve(baseDir, imagePath);
-
-      if (existsSync(absolutePath)) {
-        const fileData = readFileSync(absolutePath);
-        const mimeType = this.getMimeType(absolutePath);
-        const base64Data = fileData.toString('base64');
-        return `data:${mimeType};base64,${base64Data}`;
-      }
-
-      const altPath = resolve(baseDir, 'assets', basename(imagePath));
-      if (existsSync(altPath)) {
-        const fileData = readFileSync(altPath);
-        const mimeType = this.getMimeType(altPath);
-        const base64Data = fileData.toString('base64');
-        return `data:${mimeType};base64,${base64Data}`;
-      }
-
-      console.warn(`Image not found: ${imagePath}`);
-      return imagePath;
-    } catch (error) {
-      console.warn(`Error resolving image path ${imagePath}:`, error);
-      return imagePath;
-    }
-  }
-
-  private getMimeType(filePath: string): string {
-    const ext = extname(filePath).toLowerCase().slice(1);
-    const mimeTypes: Record<string, string> = {
-      'png': 'image/png',
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'gif': 'image/gif',
-      'svg': 'image/svg+xml',
-      'webp': 'image/webp',
-      'bmp': 'image/bmp'
-    };
-    return mimeTypes[ext || ''] || 'image/png';
+    return this.assets.url(imagePath, this.options.embedImages ?? false);
   }
 }
\ No newline at end of file
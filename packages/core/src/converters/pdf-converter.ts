@@ -1,7 +1,36 @@
 import { DocumentSection, AksaraDirectives, DocumentMetadata, ConvertOptions, ConvertResult } from '../types';
 import { HtmlConverter } from './html-converter';
+import { DiagnosticCollector } from '../diagnostics';
+import { AssetResolver } from '../assets';
+import { MarkdownProcessor, escapeHtml, cssUrl, splitParts } from '../markdown';
 import { readFileSync, existsSync } from 'fs';
-import { resolve, isAbsolute, basename, extname } from 'path';
+import { resolve, isAbsolute } from 'path';
+import { resolvePageSize, documentPageSize, PageDimensions } from '../page-size';
+import { getMessages, formatMessage } from '../messages';
+import type { Page } from 'puppeteer';
+
+/**
+ * A headless browser page to print PDFs on; undefined when puppeteer is not installed.
+ * Several documents can share it, the caller closes it with `page.browser().close()`.
+ */
+export async function openPdfPage(): Promise<Page | undefined> {
+  let puppeteer;
+  try {
+    puppeteer = await import('puppeteer');
+  } catch {
+    return undefined;
+  }
+
+  const browser = await puppeteer.default.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox']
+  });
+  const page = await browser.newPage();
+  await page.setExtraHTTPHeaders({
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8'
+  });
+  return page;
+}
 
 export class PdfConverter {
   private htmlConverter: HtmlConverter;
@@ -12,19 +41,17 @@ export class PdfConverter {
     private metadata: DocumentMetadata,
     private options: ConvertOptions,
     private loadTemplate: (path: string) => string,
-    private replaceTemplateVars: (template: string, vars: Record<string, string>) => string
+    private replaceTemplateVars: (template: string, vars: Record<string, string>) => string,
+    private markdown: MarkdownProcessor,
+    private diagnostics: DiagnosticCollector,
+    private assets: AssetResolver
   ) {
-    this.htmlConverter = new HtmlConverter(sections, directives, metadata, options, loadTemplate, replaceTemplateVars);
+    this.htmlConverter = new HtmlConverter(sections, directives, metadata, options, loadTemplate, replaceTemplateVars, markdown, diagnostics, assets);
   }
 
   private getThemeStyles(): string {
     const themeName = this.options.theme || 'default';
-    try {
-      return this.loadTemplate(`styles/themes/${themeName}.css`);
-    } catch (error) {
-      console.warn(`Theme '${themeName}' not found, falling back to default`);
-      return this.loadTemplate('styles/themes/default.css');
-    }
+    return this.loadTemplate(`styles/themes/${themeName}.css`);
   }
 
   private getCustomStyles(): string {
@@ -47,13 +74,13 @@ export class PdfConverter {
         if (existsSync(stylePath)) {
           const customCss = readFileSync(stylePath, 'utf-8');
           styles += `\n/* Custom user styles from: ${this.directives.style} (applied last for PDF) */\n${customCss}\n`;
-          console.log(`Loaded custom CSS from: ${stylePath}`);
+          this.diagnostics.report('info', 'style-loaded', `Loaded custom CSS from: ${stylePath}`, this.directives.style);
         } else {
-          console.warn(`Custom style file not found: ${this.directives.style} (resolved to: ${stylePath})`);
+          this.diagnostics.warn('style-not-found', `Custom style file not found: ${this.directives.style} (resolved to: ${stylePath})`, this.directives.style);
           styles += `/* Custom style file not found: ${this.directives.style} */\n`;
         }
       } catch (error) {
-        console.warn(`Error loading custom style file ${this.directives.style}:`, error);
+        this.diagnostics.warn('style-error', `Error loading custom style file ${this.directives.style}: ${error instanceof Error ? error.message : error}`, this.directives.style);
         styles += `/* Error loading custom style file: ${this.directives.style} */\n`;
       }
     }
@@ -106,10 +133,14 @@ export class PdfConverter {
     return expandedStyles;
   }
 
-  async convert(): Promise<ConvertResult> {
+  /**
+   * @param shared Page from openPdfPage() to print on, left open for the next document; without it a browser is launched and closed
+   */
+  async convert(shared?: Page): Promise<ConvertResult> {
+    let page: Page | undefined;
     try {
       const stackedHtml = this.generateStackedHtmlForPdf();
-      const htmlWithAbsolutePaths = this.convertRelativeImagePaths(stackedHtml);
+      const htmlWithAbsolutePaths = this.assets.deduplicate(this.convertRelativeImagePaths(stackedHtml));
 
       // DEBUG: Temporarily always save HTML for debugging
       // const { writeFileSync } = await import('fs');
@@ -117,45 +148,34 @@ export class PdfConverter {
       // writeFileSync(debugPath, htmlWithAbsolutePaths, 'utf-8');
       // console.log(`[DEBUG] HTML saved to: ${debugPath}`);
 
-      let puppeteer;
-      try {
-        puppeteer = await import('puppeteer');
-      } catch (importError) {
+      page = shared ?? await openPdfPage();
+      if (!page) {
         return {
           success: false,
           error: 'PDF generation unavailable: puppeteer not installed. Install with: bun add puppeteer'
         };
       }
 
-      const browser = await puppeteer.default.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox']
-      });
-
-      const page = await browser.newPage();
-
-      await page.setExtraHTTPHeaders({
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8'
-      });
-
       await page.setContent(htmlWithAbsolutePaths, {
         waitUntil: 'domcontentloaded',
         timeout: 30000 // DOM loaded is faster than waiting for network
       });
 
-      await page.evaluate(() => {
+      const failedImages = await page.evaluate(() => {
         const images = Array.from(document.querySelectorAll('img'));
         return Promise.all(images.map(img => {
-          if (img.complete) return Promise.resolve();
-          return new Promise<void>((resolve) => {
-            img.onload = () => resolve();
-            img.onerror = () => {
-              console.warn('Image failed to load:', img.src);
-              resolve();
-            };
+          if (img.complete) return Promise.resolve(img.naturalWidth === 0 ? img.getAttribute('src') : null);
+          return new Promise<string | null>((resolve) => {
+            img.onload = () => resolve(null);
+            img.onerror = () => resolve(img.getAttribute('src'));
           });
         }));
       });
+      for (const src of failedImages) {
+        if (src && !src.startsWith('data:')) {
+          this.diagnostics.warn('image-load-failed', `Image failed to load: ${src}`, src);
+        }
+      }
 
       await page.evaluate(() => {
         return new Promise<void>((resolve) => {
@@ -194,9 +214,25 @@ export class PdfConverter {
 
       await new Promise(resolve => setTimeout(resolve, 2000));
 
+      // Flow pagination: overflowing sections continue on new pages, before page numbers are read
+      if (this.directives.pagination === 'flow' && this.directives.type !== 'presentation') {
+        await page.evaluate(`${this.loadTemplate('templates/paginate.js')}\npaginateAksaraPages('.pdf-page', '.pdf-content');`);
+      }
+
+      // Table of contents: the page each heading ended up on after layout
+      await page.evaluate(() => {
+        const pages = Array.from(document.querySelectorAll('.pdf-page')).map(page => page.getBoundingClientRect());
+        document.querySelectorAll<HTMLElement>('.toc-page[data-target]').forEach(entry => {
+          const target = document.getElementById(entry.dataset.target || '');
+          if (!target) return;
+          const top = target.getBoundingClientRect().top;
+          const index = pages.findIndex(rect => top >= rect.top && top < rect.bottom);
+          if (index !== -1) entry.textContent = String(index + 1);
+        });
+      });
+
       const pdfOptions = this.getPdfOptions();
       const pdfBuffer = await page.pdf(pdfOptions);
-      await browser.close();
 
       return {
         success: true,
@@ -209,6 +245,8 @@ export class PdfConverter {
         success: false,
         error: `PDF conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
+    } finally {
+      if (!shared) await page?.browser().close();
     }
   }
 
@@ -222,7 +260,7 @@ export class PdfConverter {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${this.metadata.title || 'Aksara Document'}</title>
+    <title>${escapeHtml(this.metadata.title || 'Aksara Document')}</title>
     <style>
       ${this.getThemeStyles()}
 
@@ -299,52 +337,42 @@ export class PdfConverter {
 </html>`;
   }
 
-  private extractBackgroundImages(html: string): { backgroundImages: string; contentWithoutBg: string } {
-    const backgroundImageRegex = /<div class="image-(bg|wm)"[^>]*>.*?<\/div>/g;
-    const pageBackgroundRegex = /<div class="page-background"[^>]*><\/div>/g;
-
-    const backgroundImages: string[] = [];
-    let contentWithoutBg = html;
-
-    // Extract image-bg, image-wm divs (positioned background images)
-    let match;
-    while ((match = backgroundImageRegex.exec(html)) !== null) {
-      backgroundImages.push(match[0]);
-      contentWithoutBg = contentWithoutBg.replace(match[0], '');
-    }
-
-    // Extract page-background divs (legacy background images)
-    while ((match = pageBackgroundRegex.exec(html)) !== null) {
-      backgroundImages.push(match[0]);
-      contentWithoutBg = contentWithoutBg.replace(match[0], '');
-    }
-
-    return {
-      backgroundImages: backgroundImages.join('\n'),
-      contentWithoutBg: contentWithoutBg.trim()
-    };
-  }
-
   private generateStackedHtmlForPdf(): string {
     const isPresentation = this.directives.type === 'presentation';
     const { pageWidth, pageHeight } = this.getPageDimensions();
 
+    // Sections with their own page size print on a named page of that size
+    const namedPages = new Map<string, PageDimensions>();
+
     // Generate each section as a simple stacked block
     const sectionsHtml = this.sections.map((section, index) => {
       const pageNumber = index + 1;
-      const headerHtml = this.directives.header ? this.generateHeader(pageNumber) : '';
-      const footerHtml = this.generateFooter(pageNumber);
+      const headerHtml = this.generateHeader(section.header ?? this.directives.header);
+      const footerHtml = this.generateFooter(pageNumber, section.footer ?? this.directives.footer);
 
-      // Extract background images from section content
-      const { backgroundImages, contentWithoutBg } = this.extractBackgroundImages(section.html);
+      const classes = [section.classes, section.layout && `layout-${section.layout}`].filter(Boolean).join(' ');
+      const styles: string[] = [];
+      if (section.background === false) {
+        styles.push('background-image: none !important;');
+      } else if (section.background) {
+        styles.push(`background-image: url("${cssUrl(this.convertImagePath(section.background))}") !important; background-size: 100% 100% !important; background-position: center !important; background-repeat: no-repeat !important;`);
+      }
+      if (section.page) {
+        const size = resolvePageSize(section.page, { pageWidth, pageHeight });
+        const name = `page-${size.pageWidth}-${size.pageHeight}`.replace(/\./g, '_');
+        namedPages.set(name, size);
+        styles.push(`page: ${name}; width: ${size.pageWidth} !important; height: ${size.pageHeight} !important; min-height: ${size.pageHeight} !important; max-height: ${size.pageHeight} !important;`);
+      }
+      const style = styles.length > 0 ? ` style="${escapeHtml(styles.join(' '))}"` : '';
 
       return `
-        <div class="pdf-page${section.classes ? ` ${section.classes}` : ''}">
-          ${backgroundImages}
+        <div class="pdf-page${classes ? ` ${escapeHtml(classes)}` : ''}"${style}>
+          ${section.backgroundHtml || ''}
           ${headerHtml}
           <div class="pdf-content">
-            ${contentWithoutBg}
+            ${section.html}
           </div>
+          ${section.footnotesHtml || ''}
           ${footerHtml}
         </div>
       `;
@@ -356,7 +384,7 @@ export class PdfConverter {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${this.metadata.title || 'Aksara Document'}</title>
+    <title>${escapeHtml(this.metadata.title || 'Aksara Document')}</title>
 
     <!-- Mermaid.js for diagrams -->
     <script src="https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.min.js"></script>
@@ -365,7 +393,7 @@ export class PdfConverter {
         mermaid.initialize({
           startOnLoad: true,
           theme: 'default',
-          securityLevel: 'loose',
+          securityLevel: '${this.options.sanitize ? 'strict' : 'loose'}',
           gantt: {
             useWidth: 1100  // Set a reasonable default width for Gantt charts
           }
@@ -416,6 +444,7 @@ export class PdfConverter {
         size: ${pageWidth} ${pageHeight};
         margin: 0;
       }
+      ${Array.from(namedPages, ([name, size]) => `@page ${name} { size: ${size.pageWidth} ${size.pageHeight}; margin: 0; }`).join('\n      ')}
 
       /* Each page is a simple block that will break naturally */
       .pdf-page {
@@ -436,7 +465,7 @@ export class PdfConverter {
         border-radius: 0 !important;
         box-shadow: none !important;
         background-color: white !important;
-        ${this.directives.background ? `background-image: url("${this.convertImagePath(this.directives.background)}") !important; background-size: 100% 100% !important; background-position: center !important; background-repeat: no-repeat !important;` : ''}
+        ${this.directives.background ? `background-image: url("${cssUrl(this.convertImagePath(this.directives.background))}") !important; background-size: 100% 100% !important; background-position: center !important; background-repeat: no-repeat !important;` : ''}
       }
       
       .pdf-page:last-child {
@@ -464,6 +493,16 @@ export class PdfConverter {
         /* Keep original flex layout */
       }
 
+      .pdf-page tr {
+        page-break-inside: avoid !important;
+      }
+
+      /* Footnotes sit at the bottom of their page, above the footer */
+      .pdf-page .footnotes {
+        flex-shrink: 0 !important;
+        margin: 0 2rem 0.5rem !important;
+      }
+
       /* Fix background images to cover full page */
       .pdf-page .page-background,
       .pdf-page .image-wm {
@@ -514,15 +553,12 @@ export class PdfConverter {
 </html>`;
   }
 
-  private generateSingleSectionHtml(section: any, pageNumber: number): string {
+  private generateSingleSectionHtml(section: DocumentSection, pageNumber: number): string {
     const isPresentation = this.directives.type === 'presentation';
     const { pageWidth, pageHeight } = this.getPageDimensions();
 
-    const headerHtml = this.directives.header ? this.generateHeader(pageNumber) : '';
-    const footerHtml = this.generateFooter(pageNumber);
-
-    // Extract background images from section content
-    const { backgroundImages, contentWithoutBg } = this.extractBackgroundImages(section.html);
+    const headerHtml = this.generateHeader(section.header ?? this.directives.header);
+    const footerHtml = this.generateFooter(pageNumber, section.footer ?? this.directives.footer);
 
     return `
 <!DOCTYPE html>
@@ -530,7 +566,7 @@ export class PdfConverter {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${this.metadata.title || 'Aksara Document'} - Page ${pageNumber}</title>
+    <title>${escapeHtml(this.metadata.title || 'Aksara Document')} - Page ${pageNumber}</title>
     <style>
       ${this.loadTemplate('styles/base.css')}
       ${this.getThemeStyles()}
@@ -579,7 +615,7 @@ export class PdfConverter {
         display: flex !important;
         flex-direction: column !important;
         box-sizing: border-box !important;
-        ${this.directives.background ? `background-image: url(${this.convertImagePath(this.directives.background)}) !important; background-size: 100% 100% !important; background-position: center !important; background-repeat: no-repeat !important;` : ''}
+        ${this.directives.background ? `background-image: url(${cssUrl(this.convertImagePath(this.directives.background))}) !important; background-size: 100% 100% !important; background-position: center !important; background-repeat: no-repeat !important;` : ''}
       }
 
       .section-content {
@@ -629,10 +665,10 @@ export class PdfConverter {
 <body data-type="${isPresentation ? 'presentation' : 'document'}">
     <div class="aksara-document">
         <section class="document-section${section.classes ? ` ${section.classes}` : ''}">
-          ${backgroundImages}
+          ${section.backgroundHtml || ''}
           ${headerHtml}
           <div class="section-content">
-            ${contentWithoutBg}
+            ${section.html}
           </div>
           ${footerHtml}
         </section>
@@ -641,11 +677,11 @@ export class PdfConverter {
 </html>`;
   }
 
-  private generateHeader(pageNumber: number): string {
-    if (!this.directives.header) return '';
+  private generateHeader(header: string | false | undefined): string {
+    if (!header) return '';
 
-    const parts = this.directives.header.split('|').filter(part => part !== '');
-    const processedParts = parts.map(part => this.markdownToHtml(part.trim()));
+    const parts = splitParts(header);
+    const processedParts = parts.map(part => this.markdown.toHtml(part.trim()));
 
     const headerItems = processedParts.map((part, index) =>
       `<div class="header-item">${part}</div>`
@@ -658,18 +694,20 @@ export class PdfConverter {
     `;
   }
 
-  private generateFooter(pageNumber: number): string {
-    const footerContent = this.directives.footer || '';
+  private generateFooter(pageNumber: number, footerContent: string | false = this.directives.footer || ''): string {
     const totalPages = this.sections.length;
 
+    // `footer: none` hides the footer and the default page number
+    if (footerContent === false) return '';
+
     // If custom footer provided, split by | like header does
     if (footerContent) {
-      const parts = footerContent.split('|').filter(part => part !== '');
+      const parts = splitParts(footerContent);
       const processedParts = parts.map(part => {
         const replaced = part.trim()
-          .replace(/\[page\]/g, pageNumber.toString())
-          .replace(/\[total\]/g, totalPages.toString());
-        return this.markdownToHtml(replaced);
+          .replace(/\[page\]/g, `<span class="page-current">${pageNumber}</span>`)
+          .replace(/\[total\]/g, `<span class="page-total">${totalPages}</span>`);
+        return this.markdown.toHtml(replaced);
       });
 
       const footerItems = processedParts.map((part, index) =>
@@ -686,209 +724,14 @@ export class PdfConverter {
     // Default footer if none provided
     return `
       <footer class="document-footer">
-        <div class="page-number">Halaman ${pageNumber} dari ${totalPages}</div>
+        <div class="page-number">${formatMessage(getMessages(this.options.locale).pageOf, {
+          page: `<span class="page-current">${pageNumber}</span>`,
+          total: `<span class="page-total">${totalPages}</span>`
+        })}</div>
       </footer>
     `;
   }
 
-  private markdownToHtml(markdown: string): string {
-    // First, evaluate JavaScript expressions
-    const withEvaluatedJS = this.evaluateJavaScriptExpressions(markdown);
-
-    // Preserve existing HTML span tags with style attributes before markdown processing
-    const htmlPreserved = withEvaluatedJS.replace(/<span[^>]*style="[^"]*"[^>]*>.*?<\/span>/g, (match) => {
-      return `__HTML_PRESERVE_${Buffer.from(match).toString('base64')}_HTML_PRESERVE__`;
-    });
-
-    const processed = htmlPreserved
-      .replace(/^# (.*$)/gm, '<h1>$1</h1>')
-      .replace(/^## (.*$)/gm, '<h2>$1</h2>')
-      .replace(/^### (.*$)/gm, '<h3>$1</h3>')
-      .replace(/^#### (.*$)/gm, '<h4>$1</h4>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/`(.*?)`/g, '<code>$1</code>')
-      .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (match, alt, src) => {
-        // Handle ![image ...] syntax (legacy and new)
-        if (alt.toLowerCase().startsWith('image')) {
-          const attrs = alt.replace(/^image\s*/i, '');
-          let style = 'max-width: 100%; height: auto;';
-
-          if (attrs.trim()) {
-            if (attrs.includes('bg') || attrs.includes('background')) {
-              return `<div class="page-background" style="background-image: url(${src}); background-size: 100% 100%; background-position: center; position: absolute; top: 0; left: 0; width: 100%; height: 100%; z-index: -1;"></div>`;
-            }
-
-            const positions = attrs.match(/([xywh]):\s*([^;\s]+)/g);
-            if (positions) {
-              const styleMap: { [key: string]: string } = { 'x': 'left', 'y': 'top', 'w': 'width', 'h': 'height' };
-              let hasPositionAttrs = positions.some((pos: string) => pos.match(/^[xy]:/));
-              let hasSizeAttrs = positions.some((pos: string) => pos.match(/^[wh]:/));
-
-              if (hasPositionAttrs) {
-                style = 'position: absolute; ';
-              } else {
-                style = '';
-              }
-
-              positions.forEach((pos: string) => {
-                const [key, value] = pos.split(':').map((s: string) => s.trim());
-                if (styleMap[key]) {
-                  style += `${styleMap[key]}: ${value}; `;
-                }
-              });
-
-              if (!hasPositionAttrs && hasSizeAttrs) {
-                style += 'object-fit: contain;';
-              }
-            }
-          }
-
-          const convertedSrc = this.convertImagePath(src);
-          return `<img src="${convertedSrc}" alt="image" style="${style}">`;
-        }
-
-        // Handle general image syntax with type identifiers and positioning
-        const typeMatch = alt.match(/^(bg|fg|lg|wm)\b/);
-        const posMatch = alt.match(/([trblxywh]):[^;\s]+/g);
-
-        // Determine z-index from type
-        const zIndexMap = { 'wm': 0, 'bg': 1, 'fg': 2, 'lg': 3 };
-        const imageType = typeMatch ? typeMatch[1] : null;
-        const zIndex = imageType ? zIndexMap[imageType as keyof typeof zIndexMap] : 'auto';
-
-        let style = 'max-width: 100%; height: auto;';
-        let hasPositioning = imageType && posMatch && posMatch.some((pos: string) => pos.match(/^[trblxy]:/));
-        let hasSizing = posMatch && posMatch.some((pos: string) => pos.match(/^[wh]:/));
-
-        if (hasPositioning) {
-          const styleMap = {
-            't': 'top', 'r': 'right', 'b': 'bottom', 'l': 'left',
-            'x': 'left', 'y': 'top', // legacy aliases
-            'w': 'width', 'h': 'height'
-          };
-          let positionStyle = `position: absolute; z-index: ${zIndex}; `;
-
-          posMatch!.forEach((pos: string) => {
-            const [key, value] = pos.split(':').map((s: string) => s.trim());
-            if (styleMap[key as keyof typeof styleMap]) {
-              positionStyle += `${styleMap[key as keyof typeof styleMap]}: ${value}; `;
-            }
-          });
-          style = positionStyle;
-        } else if (hasSizing) {
-          // Handle standalone sizing (w: and h:) without positioning
-          let sizeStyle = '';
-          posMatch!.forEach((pos: string) => {
-            const [key, value] = pos.split(':').map((s: string) => s.trim());
-            if (key === 'w') {
-              sizeStyle += `width: ${value}; `;
-            } else if (key === 'h') {
-              sizeStyle += `height: ${value}; `;
-            }
-          });
-          if (sizeStyle) {
-            style = sizeStyle + 'object-fit: contain;';
-          }
-        }
-
-        // Clean alt text
-        const cleanAlt = alt.replace(/^(bg|fg|lg|wm)\s*/, '').replace(/\s*[trblxywh]:[^;\s]+/g, '').trim();
-        const convertedSrc = this.convertImagePath(src);
-
-        if (hasPositioning) {
-          // For bg images, create a background div instead of img element to ensure proper rendering
-          if (imageType === 'bg') {
-            return `<div class="image-${imageType}" style="${style} background-image: url('${convertedSrc}'); background-size: 100% 100%; background-position: center; background-repeat: no-repeat;"></div>`;
-          }
-          return `<div class="image-${imageType}" style="${style}"><img src="${convertedSrc}" alt="${cleanAlt}" style="width: 100%; height: 100%; object-fit: fill;"></div>`;
-        }
-
-        return `<img src="${convertedSrc}" alt="${cleanAlt}" style="${style}">`;
-      })
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-
-    // Restore preserved HTML span tags
-    return processed.replace(/__HTML_PRESERVE_([A-Za-z0-9+/=]+)_HTML_PRESERVE__/g, (match, base64) => {
-      return Buffer.from(base64, 'base64').toString('utf8');
-    });
-  }
-
-  private evaluateJavaScriptExpressions(text: string): string {
-    return text.replace(/\$\{([^}]+)\}/g, (match, expression) => {
-      try {
-        // Safely evaluate simple expressions
-        const result = this.safeEval(expression.trim());
-        return result !== undefined ? String(result) : match;
-      } catch (error) {
-        console.warn(`Failed to evaluate expression: ${expression}`, error);
-        return match; // Return original if evaluation fails
-      }
-    });
-  }
-
-  private safeEval(expression: string): any {
-    // Handle meta variable access: meta.fieldname
-    if (expression.startsWith('meta.')) {
-      const fieldName = expression.substring(5).trim();
-      if (this.directives.meta && fieldName in this.directives.meta) {
-        return this.directives.meta[fieldName];
-      }
-      // Error handling: field not found
-      console.warn(`Metadata field not found: ${fieldName}`);
-      return `[meta.${fieldName} not found]`;
-    }
-
-    // Only allow safe expressions - primarily Date functions
-    if (expression.includes('new Date()')) {
-      // Handle date expressions
-      if (expression.includes('.toLocaleDateString(')) {
-        const match = expression.match(/new Date\(\)\.toLocaleDateString\(['"`]([^'"`]+)['"`]\)/);
-        if (match) {
-          const locale = match[1];
-          return new Date().toLocaleDateString(locale);
-        }
-        // Default locale
-        return new Date().toLocaleDateString();
-      }
-      if (expression.includes('.toDateString()')) {
-        return new Date().toDateString();
-      }
-      if (expression.includes('.getFullYear()')) {
-        return new Date().getFullYear();
-      }
-    }
-
-    // Handle Date constructor with offset (like due dates)
-    if (expression.includes('new Date(Date.now()')) {
-      const match = expression.match(/new Date\(Date\.now\(\)\s*([+\-])\s*([^)]+)\)\.toLocaleDateString\(['"`]([^'"`]+)['"`]\)/);
-      if (match) {
-        const operator = match[1];
-        const offsetExpr = match[2].trim();
-        const locale = match[3];
-
-        // Safely evaluate simple math expressions for date offset
-        if (/^[\d\s+\-*/().]+$/.test(offsetExpr)) {
-          const offset = Function(`"use strict"; return (${offsetExpr})`)();
-          const dateMs = operator === '+' ? Date.now() + offset : Date.now() - offset;
-          return new Date(dateMs).toLocaleDateString(locale);
-        }
-      }
-    }
-
-    // Handle simple math and string operations
-    if (/^[\d\s+\-*/().]+$/.test(expression)) {
-      return Function(`"use strict"; return (${expression})`)();
-    }
-
-    // Handle simple string concatenation
-    if (expression.includes('+') && (expression.includes('"') || expression.includes("'"))) {
-      return Function(`"use strict"; return (${expression})`)();
-    }
-
-    throw new Error(`Unsafe expression: ${expression}`);
-  }
-
   private async mergePdfBuffers(pdfBuffers: Buffer[]): Promise<Buffer> {
     if (pdfBuffers.length === 0) {
       throw new Error('No PDF buffers to merge');
@@ -905,137 +748,31 @@ export class PdfConverter {
   }
 
   private convertImagePath(imagePath: string): string {
-    if (imagePath.startsWith('http') || imagePath.startsWith('data:') || isAbsolute(imagePath)) {
-      return imagePath;
-    }
-
-    try {
-      const baseDir = this.options.basePath || process.cwd();
-      let absolutePath = resolve(baseDir, imagePath);
-
-      if (existsSync(absolutePath)) {
-        const fileData = readFileSync(absolutePath);
-        const mimeType = this.getMimeType(absolutePath);
-        const base64Data = fileData.toString('base64');
-        return `data:${mimeType};base64,${base64Data}`;
-      }
-
-      const altPath = resolve(baseDir, 'assets', basename(imagePath));
-      if (existsSync(altPath)) {
-        const fileData = readFileSync(altPath);
-        const mimeType = this.getMimeType(altPath);
-        const base64Data = fileData.toString('base64');
-        return `data:${mimeType};base64,${base64Data}`;
-      }
-
-      console.warn(`Image not found: ${imagePath}`);
-      return imagePath;
-    } catch (error) {
-      console.warn(`Error resolving image path ${imagePath}:`, error);
-      return imagePath;
-    }
+    return this.assets.url(imagePath, true);
   }
 
-  private getPageDimensions(): { pageWidth: string; pageHeight: string } {
-    if (this.directives.size) {
-      const size = this.directives.size;
-
-      // Handle mm dimensions (e.g., 210mmx297mm)
-      if (size.includes('mm')) {
-        const dimensions = size.split('x');
-        if (dimensions.length === 2) {
-          return {
-            pageWidth: dimensions[0],
-            pageHeight: dimensions[1]
-          };
-        }
-      }
-
-      // Handle aspect ratios (e.g., 16:9, 4:3)
-      if (size.includes(':')) {
-        const [w, h] = size.split(':').map(Number);
-        const aspectRatio = w / h;
-
-        if (aspectRatio > 1) { // Landscape
-          return {
-            pageWidth: '29.7cm',
-            pageHeight: `${29.7 / aspectRatio}cm`
-          };
-        } else { // Portrait or square
-          return {
-            pageWidth: `${21 * aspectRatio}cm`,
-            pageHeight: '29.7cm'
-          };
-        }
-      }
-    }
-
-    // Default dimensions
-    const isPresentation = this.directives.type === 'presentation';
-    return isPresentation
-      ? { pageWidth: '29.7cm', pageHeight: '21cm' }
-      : { pageWidth: '21cm', pageHeight: '29.7cm' };
+  private getPageDimensions(): PageDimensions {
+    return documentPageSize(this.directives.size, this.directives.type === 'presentation');
   }
 
-  private convertRelativeImagePaths(html: string): string {
-    const baseDir = this.options.basePath || process.cwd();
-    const convertPath = (imagePath: string): string | null => {
-      if (imagePath.startsWith('http') || imagePath.startsWith('data:') || isAbsolute(imagePath)) {
-        return null;
-      }
-
-      try {
-        let absolutePath = resolve(baseDir, imagePath);
-
-        if (existsSync(absolutePath)) {
-          const fileData = readFileSync(absolutePath);
-          const mimeType = this.getMimeType(absolutePath);
-          const base64Data = fileData.toString('base64');
-          return `data:${mimeType};base64,${base64Data}`;
-        }
-
-        const altPath = resolve(baseDir, 'assets', basename(imagePath));
-        if (existsSync(altPath)) {
-          const fileData = readFileSync(altPath);
-          const mimeType = this.getMimeType(altPath);
-          const base64Data = fileData.toString('base64');
-          return `data:${mimeType};base64,${base64Data}`;
-        }
-        return null;
-      } catch (error) {
-        console.warn(`Error resolving image path ${imagePath}:`, error);
-        return null;
-      }
-    };
 
+  /**
+   * Embed local images the page can't load by path, such as those written in raw HTML
+   */
+  private convertRelativeImagePaths(html: string): string {
     html = html.replace(/src="([^"]+)"/g, (match, src) => {
-      const convertedPath = convertPath(src);
-      return convertedPath ? `src="${convertedPath}"` : match;
+      const dataUri = this.assets.load(src)?.dataUri;
+      return dataUri ? `src="${dataUri}"` : match;
     });
 
     html = html.replace(/background-image:\s*url\(([^)]+)\)/g, (match, url) => {
-      const cleanUrl = url.replace(/['"]/g, '');
-      const convertedPath = convertPath(cleanUrl);
-      return convertedPath ? `background-image: url(${convertedPath})` : match;
+      const dataUri = this.assets.load(url.replace(/['"]|&quot;/g, ''))?.dataUri;
+      return dataUri ? `background-image: url(${dataUri})` : match;
     });
 
     return html;
   }
 
-  private getMimeType(filePath: string): string {
-    const ext = extname(filePath).toLowerCase().slice(1);
-    const mimeTypes: Record<string, string> = {
-      'png': 'image/png',
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'gif': 'image/gif',
-      'svg': 'image/svg+xml',
-      'webp': 'image/webp',
-      'bmp': 'image/bmp'
-    };
-    return mimeTypes[ext || ''] || 'image/png';
-  }
-
   private getPdfOptions(): any {
     const isPresentation = this.directives.type === 'presentation';
 
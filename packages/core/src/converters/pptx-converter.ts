@@ -1,4 +1,53 @@
 import { DocumentSection, AksaraDirectives, DocumentMetadata, ConvertOptions, ConvertResult } from '../types';
+import { DiagnosticCollector } from '../diagnostics';
+import { formatReference } from '../bibliography';
+import { AssetResolver } from '../assets';
+import { MarkdownProcessor, Token, Tokens, AksaraImageToken, TocToken, FigureToken, CalloutToken, CalloutKind,
+  AksaraTableToken, AksaraTableCell, ColumnsToken, ColumnToken, LangToken, PluginBlockToken, MathToken, DefinitionListToken,
+  InlineFormatToken, toPlainText, splitParts
+} from '../markdown';
+import { mathSize, MathRun } from '../math';
+import type { SlideContent } from '../plugins';
+
+// Fill, border and text colours of callout boxes
+const CALLOUT_COLORS: Record<CalloutKind, [string, string, string]> = {
+  note: ['EBF8FF', '4299E1', '2C5282'],
+  tip: ['F0FFF4', '50C878', '22543D'],
+  important: ['FAF5FF', '805AD5', '44337A'],
+  warning: ['FFFAF0', 'ECC94B', '744210'],
+  caution: ['FFF5F5', 'FF6B6B', '742A2A']
+};
+
+// Text run options of `==highlight==`, `~sub~` and `^sup^`
+const INLINE_FORMATS: Record<string, Record<string, unknown>> = {
+  mark: { highlight: 'FFF3A3' },
+  sub: { subscript: true },
+  sup: { superscript: true }
+};
+
+type TextRun = { text: string; options: Record<string, unknown> };
+
+// A rendered formula inside a line of text, which slides show as text
+function formulaRuns(token: Token): MathRun[] | undefined {
+  return token.type === 'math' ? (token as unknown as MathToken).runs : undefined;
+}
+
+interface SlideItem {
+  type: string;
+  text?: string;
+  runs?: TextRun[]; // formatted text, instead of `text` when set
+  level?: number;
+  items?: string[];
+  markers?: string[]; // bullet of each list item, checkboxes for task lists
+  tableData?: any[][];
+  title?: string;
+  kind?: CalloutKind;
+  columns?: { width?: string; align?: ColumnToken['align']; image?: string; content: SlideItem[] }[];
+  content?: SlideItem[];
+  image?: string;
+  width?: number; // inches
+  height?: number;
+}
 
 export class PptxConverter {
   constructor(
@@ -7,7 +56,10 @@ export class PptxConverter {
     private metadata: DocumentMetadata,
     private options: ConvertOptions,
     private loadTemplate: (path: string) => string,
-    private replaceTemplateVars: (template: string, vars: Record<string, string>) => string
+    private replaceTemplateVars: (template: string, vars: Record<string, string>) => string,
+    private markdown: MarkdownProcessor,
+    private diagnostics: DiagnosticCollector,
+    private assets: AssetResolver
   ) {}
 
   async convert(): Promise<ConvertResult> {
@@ -49,12 +101,24 @@ export class PptxConverter {
   }
 
   private addSlideContent(slide: any, section: DocumentSection, index: number): void {
+    const header = section.header ?? this.directives.header;
+    const footer = section.footer ?? this.directives.footer;
+    const background = section.background ?? this.directives.background;
+
+    if (background) {
+      const source = this.imageSource(background);
+      if (source) slide.background = source;
+    }
+    if (section.page) {
+      this.diagnostics.report('info', 'section-page', `Slides share one size, the page setting of section ${section.index} only applies to HTML and PDF`);
+    }
+
     // Add header if configured
-    if (this.directives.header) {
-      const headerText = this.processHeaderFooterContent(this.directives.header);
+    if (header) {
+      const headerText = this.processHeaderFooterContent(header);
 
       // Check if header contains images and try to add them
-      this.addImagesFromContent(slide, this.directives.header, 0.5, 0.2);
+      this.addImagesFromContent(slide, header, 0.5, 0.2);
 
       slide.addText(headerText, {
         x: 0.5, y: 0.2, w: 9, h: 0.5,
@@ -64,11 +128,14 @@ export class PptxConverter {
       });
     }
 
-    // Parse and add content
-    const content = this.parseContentForSlide(section.html);
-    let currentY = this.directives.header ? 1 : 0.5;
+    // Parse and add content; footnotes first referenced on the slide go below it
+    const content = this.parseContentForSlide(section.tokens);
+    for (const note of this.markdown.notes.footnotes.filter(note => note.section === section.index)) {
+      content.push({ type: 'footnote', text: `${note.number}. ${toPlainText(note.tokens)}` });
+    }
+    let currentY = header ? 1 : 0.5;
 
-    content.forEach(item => {
+    this.applyLayout(section, content).forEach(item => {
       switch (item.type) {
         case 'title':
           slide.addText(item.text, {
@@ -92,7 +159,7 @@ export class PptxConverter {
           break;
 
         case 'paragraph':
-          slide.addText(item.text, {
+          slide.addText(item.runs ?? item.text, {
             x: 0.5, y: currentY, w: 9, h: 0.4,
             fontSize: 14,
             color: '2c3e50'
@@ -100,9 +167,117 @@ export class PptxConverter {
           currentY += 0.5;
           break;
 
+        case 'quote':
+          slide.addText(item.text, {
+            x: 0.8, y: currentY, w: 8.7, h: 0.5,
+            fontSize: 14,
+            italic: true,
+            color: '4a5568',
+            fill: { color: 'F7FAFC' }
+          });
+          currentY += 0.6;
+          break;
+
+        case 'callout': {
+          const [fill, border, color] = CALLOUT_COLORS[item.kind || 'note'];
+          slide.addText([
+            { text: item.title || '', options: { bold: true, breakLine: !!item.text } },
+            { text: item.text || '' }
+          ], {
+            x: 0.5, y: currentY, w: 9, h: 0.8,
+            fontSize: 12,
+            color,
+            fill: { color: fill },
+            line: { color: border, width: 1 }
+          });
+          currentY += 0.9;
+          break;
+        }
+
+        case 'cover': {
+          // Title layout: everything centered on the slide, the title larger
+          const runs = (item.content || []).flatMap(child => this.toTextRuns([child]).map(run =>
+            child.type === 'title' ? { ...run, options: { ...run.options, fontSize: 36 } } : run));
+          slide.addText(runs, {
+            x: 0.5, y: currentY, w: 9, h: 4.8 - currentY,
+            fontSize: 18,
+            color: '2c3e50',
+            align: 'center',
+            valign: 'middle'
+          });
+          currentY = 4.8;
+          break;
+        }
+
+        case 'columns': {
+          // One text box per column, side by side
+          const columns = item.columns || [];
+          const fractions = this.columnFractions(columns.map(column => column.width));
+          let x = 0.5;
+          let height = 0;
+          columns.forEach((column, index) => {
+            const w = 9 * fractions[index];
+            const source = column.image && this.imageSource(column.image);
+            if (source) {
+              const h = 4.8 - currentY;
+              slide.addImage({ ...source, x, y: currentY, w: w - 0.2, h, sizing: { type: 'contain', w: w - 0.2, h } });
+              x += w;
+              height = Math.max(height, h);
+              return;
+            }
+
+            const runs = this.toTextRuns(column.content);
+            const h = Math.max(0.4, runs.length * 0.3);
+            if (runs.length > 0) {
+              slide.addText(runs, {
+                x, y: currentY, w: w - 0.2, h,
+                fontSize: 12,
+                color: '2c3e50',
+                align: column.align || 'left',
+                valign: 'top'
+              });
+            }
+            x += w;
+            height = Math.max(height, h);
+          });
+          currentY += height + 0.2;
+          break;
+        }
+
+        case 'image': {
+          const source = item.image && this.imageSource(item.image);
+          if (!source) break;
+          const w = item.width ?? 4;
+          const h = item.height ?? 3;
+          slide.addImage({ ...source, x: (10 - w) / 2, y: currentY, w, h, sizing: { type: 'contain', w, h } });
+          currentY += h + 0.2;
+          break;
+        }
+
+        case 'footnote':
+          slide.addText(item.text, {
+            x: 0.5, y: currentY, w: 9, h: 0.3,
+            fontSize: 10,
+            color: '6c757d'
+          });
+          currentY += 0.35;
+          break;
+
+        case 'definitions': {
+          const runs = item.runs || [];
+          slide.addText(runs, {
+            x: 0.5, y: currentY, w: 9, h: runs.length * 0.3,
+            fontSize: 12,
+            color: '2c3e50',
+            valign: 'top'
+          });
+          currentY += runs.length * 0.3 + 0.2;
+          break;
+        }
+
         case 'list':
-          item.items?.forEach(listItem => {
-            slide.addText(`• ${listItem}`, {
+          item.items?.forEach((listItem, itemIndex) => {
+            slide.addText(`${item.markers?.[itemIndex] ?? '•'} ${listItem}`, {
               x: 0.8, y: currentY, w: 8.5, h: 0.3,
               fontSize: 12,
               color: '2c3e50'
@@ -126,9 +301,10 @@ export class PptxConverter {
       }
     });
 
-    // Add footer if configured
-    if (this.directives.footer) {
-      const footerText = this.processHeaderFooterContent(this.directives.footer);
+    // Add footer if configured, `footer: none` also hides the slide number
+    if (footer === false) return;
+    if (footer) {
+      const footerText = this.processHeaderFooterContent(footer);
       slide.addText(footerText, {
         x: 0.5, y: 5, w: 9, h: 0.4,
         fontSize: 10,
@@ -146,69 +322,139 @@ export class PptxConverter {
     });
   }
 
-  private parseContentForSlide(html: string): Array<{
-    type: string;
-    text?: string;
-    level?: number;
-    items?: string[];
-    tableData?: any[][];
-  }> {
-    const content: Array<{
-      type: string;
-      text?: string;
-      level?: number;
-      items?: string[];
-      tableData?: any[][];
-    }> = [];
-
-    // Simple HTML parsing for slide content
-    const lines = html.split('\n').filter(line => line.trim());
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      if (trimmed.startsWith('<h1>')) {
-        content.push({
-          type: 'title',
-          text: this.cleanHtmlForText(trimmed.replace(/<\/?h1>/g, ''))
-        });
-      } else if (trimmed.startsWith('<h2>')) {
-        content.push({
-          type: 'heading',
-          level: 2,
-          text: this.cleanHtmlForText(trimmed.replace(/<\/?h2>/g, ''))
-        });
-      } else if (trimmed.startsWith('<h3>')) {
-        content.push({
-          type: 'heading',
-          level: 3,
-          text: this.cleanHtmlForText(trimmed.replace(/<\/?h3>/g, ''))
-        });
-      } else if (trimmed.startsWith('<p>') && !trimmed.includes('<li>')) {
-        const text = this.cleanHtmlForText(trimmed.replace(/<\/?p>/g, ''));
-        if (text.trim()) {
+  private parseContentForSlide(tokens: Token[]): SlideItem[] {
+    const content: SlideItem[] = [];
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'heading': {
+          const { depth, tokens: inline, number } = token as Tokens.Heading & { number?: string };
+          const text = number ? `${number} ${toPlainText(inline)}` : toPlainText(inline);
+          content.push(depth === 1 ? { type: 'title', text } : { type: 'heading', level: depth, text });
+          break;
+        }
+
+        case 'paragraph': {
+          const inline = (token as Tokens.Paragraph).tokens.filter(child => child.type !== 'image');
+          const text = toPlainText(inline);
+          if (text) {
+            content.push({ type: 'paragraph', text, runs: this.toInlineRuns(inline) });
+          }
+          break;
+        }
+
+        case 'list': {
+          const { items } = token as Tokens.List;
           content.push({
-            type: 'paragraph',
-            text: text.trim()
+            type: 'list',
+            items: items.map(item => toPlainText(item.tokens)),
+            markers: items.map(item => item.task ? (item.checked ? '☑' : '☐') : '•')
           });
+          break;
         }
-      } else if (trimmed.includes('<li>')) {
-        // Extract list items
-        const listItems = trimmed.match(/<li>(.*?)<\/li>/g);
-        if (listItems) {
+
+        case 'definitionList':
+          // Terms in bold, their definitions indented below with a dash
+          content.push({
+            type: 'definitions',
+            runs: (token as unknown as DefinitionListToken).tokens.map(item => item.type === 'definitionTerm'
+              ? { text: toPlainText(item.tokens), options: { bold: true, breakLine: true } }
+              : { text: toPlainText(item.tokens), options: { bullet: { characterCode: '2013', indent: 18 }, breakLine: true } })
+          });
+          break;
+
+        case 'toc': {
+          // Slides have no page layout, entries point to the slide number
+          const { list, depth } = token as unknown as TocToken;
+          const { headings, figures, tables } = this.markdown.outline;
           content.push({
             type: 'list',
-            items: listItems.map(item => this.cleanHtmlForText(item.replace(/<\/?li>/g, '')))
+            items: (list === 'lof' ? figures : list === 'lot' ? tables : headings)
+              .filter(entry => entry.level <= depth)
+              .map(entry => `${'  '.repeat(entry.level - 1)}${entry.number ? `${entry.number} ` : ''}${entry.text} .... ${entry.section}`)
           });
+          break;
         }
-      } else if (trimmed.includes('<table>')) {
-        // Parse table (simplified)
-        const tableData = this.parseTableForSlide(trimmed);
-        if (tableData.length > 0) {
+
+        case 'bibliography': {
+          const { references, style, years } = this.markdown.notes;
           content.push({
-            type: 'table',
-            tableData
+            type: 'list',
+            items: references.map((entry, index) => (style === 'ieee' ? `[${index + 1}] ` : '') +
+              formatReference(entry, style, this.options.locale || 'id', years.get(entry.id)).map(part => part.text).join(''))
           });
+          break;
+        }
+
+        case 'blockquote': {
+          const text = toPlainText((token as Tokens.Blockquote).tokens);
+          if (text) content.push({ type: 'quote', text });
+          break;
+        }
+
+        case 'callout': {
+          const { kind, title, tokens: body } = token as unknown as CalloutToken;
+          content.push({ type: 'callout', kind, title: toPlainText(title), text: toPlainText(body) });
+          break;
+        }
+
+        case 'columns':
+          content.push({
+            type: 'columns',
+            columns: (token as unknown as ColumnsToken).tokens.map(column => ({
+              width: column.width,
+              align: column.align,
+              content: this.parseContentForSlide(column.tokens)
+            }))
+          });
+          break;
+
+        case 'lang':
+          // Hidden translations have no tokens
+          content.push(...this.parseContentForSlide((token as unknown as LangToken).tokens));
+          break;
+
+        case 'math': {
+          // The formula's SVG as an image, 1ex being half of an 18pt font; TeX text when it did not render
+          const { svg, tex } = token as unknown as MathToken;
+          if (!svg) {
+            content.push({ type: 'paragraph', text: tex });
+            break;
+          }
+          const { width, height } = mathSize(svg);
+          const scale = Math.min(0.125, 9 / width);
+          content.push({
+            type: 'image',
+            image: `data:image/svg+xml;base64,${Buffer.from(svg.replace(/currentColor/g, '#2c3e50')).toString('base64')}`,
+            width: width * scale,
+            height: height * scale
+          });
+          break;
+        }
+
+        case 'pluginBlock': {
+          // Without a PPTX renderer the fence text stands in for the block
+          const { plugin, lang, args, text } = token as unknown as PluginBlockToken;
+          const renderer = this.markdown.plugins.block(lang)?.renderer;
+          const items = renderer?.pptx && this.markdown.plugins.render(plugin, context => renderer.pptx!({ lang, args, text }, context));
+          content.push(...(items ? items.map(item => this.fromPluginContent(item)) : [{ type: 'paragraph', text }]));
+          break;
+        }
+
+        case 'figure': {
+          const figure = token as unknown as FigureToken;
+          const caption = { type: 'paragraph' as const, text: `${figure.number} ${toPlainText(figure.caption)}` };
+          const body = this.parseContentForSlide(figure.tokens);
+          content.push(...(figure.kind === 'table' ? [caption, ...body] : [...body, caption]));
+          break;
+        }
+
+        case 'table': {
+          const tableData = this.parseTableForSlide(token as AksaraTableToken);
+          if (tableData.length > 0) {
+            content.push({ type: 'table', tableData });
+          }
+          break;
         }
       }
     }
@@ -216,136 +462,204 @@ export class PptxConverter {
     return content;
   }
 
-  private parseTableForSlide(tableHtml: string): any[][] {
-    const tableData: any[][] = [];
-
-    try {
-      // Extract table headers
-      const headerMatch = tableHtml.match(/<thead><tr>(.*?)<\/tr><\/thead>/);
-      if (headerMatch) {
-        const headers = headerMatch[1].match(/<th>(.*?)<\/th>/g);
-        if (headers) {
-          tableData.push(headers.map(h => this.cleanHtmlForText(h.replace(/<\/?th>/g, ''))));
+  private parseTableForSlide(table: AksaraTableToken): any[][] {
+    // Images don't work well in table cells in PPTX
+    const cellText = (cell: Tokens.TableCell) => toPlainText(cell.tokens.map(child =>
+      child.type === 'image' ? { type: 'text', raw: child.raw, text: '[image]' } : child
+    ));
+    // Cells covered by a span are left out, as pptxgenjs expects
+    const toRow = (cells: AksaraTableCell[], header: boolean) => cells
+      .filter(cell => !cell.merged)
+      .map(cell => ({
+        text: cellText(cell),
+        options: {
+          bold: header,
+          ...(cell.align ? { align: cell.align } : {}),
+          ...(cell.colspan && cell.colspan > 1 ? { colspan: cell.colspan } : {}),
+          ...(cell.rowspan && cell.rowspan > 1 ? { rowspan: cell.rowspan } : {})
         }
+      }));
+
+    return [
+      toRow(table.header, true),
+      ...table.rows.map(row => toRow(row, false))
+    ];
+  }
+
+  private fromPluginContent(item: SlideContent): SlideItem {
+    switch (item.type) {
+      case 'table':
+        return { type: 'table', tableData: item.rows.map(row => row.map(text => ({ text }))) };
+      case 'image':
+        return { type: 'image', image: item.src, width: item.width, height: item.height };
+      default:
+        return item;
+    }
+  }
+
+  /**
+   * Arrange slide items for the section's layout: `title` centers everything, `two-column`
+   * splits the body under the title, `image-left` puts the section's first image beside the text
+   */
+  private applyLayout(section: DocumentSection, content: SlideItem[]): SlideItem[] {
+    switch (section.layout) {
+      case 'title':
+        return [{ type: 'cover', content }];
+
+      case 'two-column': {
+        const start = content.findIndex(item => item.type !== 'title' && item.type !== 'heading');
+        if (start === -1) return content;
+        const body = content.slice(start);
+        const half = Math.ceil(body.length / 2);
+        return [
+          ...content.slice(0, start),
+          { type: 'columns', columns: [{ content: body.slice(0, half) }, { content: body.slice(half) }] }
+        ];
       }
 
-      // Extract table rows
-      const bodyMatch = tableHtml.match(/<tbody>(.*?)<\/tbody>/);
-      if (bodyMatch) {
-        const rows = bodyMatch[1].match(/<tr>(.*?)<\/tr>/g);
-        if (rows) {
-          rows.forEach(row => {
-            const cells = row.match(/<td>(.*?)<\/td>/g);
-            if (cells) {
-              tableData.push(cells.map(cell => this.cleanHtmlForText(cell.replace(/<\/?td>/g, ''))));
-            }
-          });
-        }
+      case 'image-left': {
+        const [image] = this.collectImages(section.tokens);
+        if (!image) return content;
+        return [{ type: 'columns', columns: [{ width: '2', image: image.href, content: [] }, { width: '3', content }] }];
       }
-    } catch (error) {
-      console.warn('Error parsing table for slide:', error);
+
+      default:
+        return content;
     }
+  }
+
+  /**
+   * Share of the slide width per column: percentages as given, fractions (`2fr`) split the rest
+   */
+  private columnFractions(widths: (string | undefined)[]): number[] {
+    const percent = widths.map(width => width?.endsWith('%') ? parseFloat(width) / 100 : null);
+    const weights = widths.map((width, index) => percent[index] === null ? parseFloat(width || '') || 1 : 0);
+    const rest = Math.max(0, 1 - percent.reduce<number>((sum, value) => sum + (value ?? 0), 0));
+    const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+    return widths.map((_, index) => percent[index] ?? rest * weights[index] / total);
+  }
+
+  /**
+   * Slide items as lines of one text box
+   */
+  private toTextRuns(items: SlideItem[]): TextRun[] {
+    return items.flatMap(item => {
+      switch (item.type) {
+        case 'title':
+        case 'heading':
+          return [{ text: item.text || '', options: { bold: true, breakLine: true } }];
+        case 'list':
+          return (item.items || []).map((text, index) => ({ text: `${item.markers?.[index] ?? '•'} ${text}`, options: { breakLine: true } }));
+        case 'definitions':
+          return item.runs || [];
+        case 'table':
+          return (item.tableData || []).map(row => ({ text: row.map(cell => cell.text).join(' | '), options: { breakLine: true } }));
+        case 'callout':
+          return [{ text: item.title || '', options: { bold: true, breakLine: true } }, { text: item.text || '', options: { breakLine: true } }];
+        case 'columns':
+          return (item.columns || []).flatMap(column => this.toTextRuns(column.content));
+        default: {
+          if (!item.runs) return item.text ? [{ text: item.text, options: { breakLine: true } }] : [];
+          const last = item.runs.length - 1;
+          return item.runs.map((run, index) => index === last ? { ...run, options: { ...run.options, breakLine: true } } : run);
+        }
+      }
+    });
+  }
 
-    return tableData;
+  /**
+   * Inline tokens as text runs keeping highlight, subscript, superscript and formulas; undefined when there are none
+   */
+  private toInlineRuns(tokens: Token[]): TextRun[] | undefined {
+    if (!tokens.some(token => token.type in INLINE_FORMATS || formulaRuns(token))) return undefined;
+
+    const runs: TextRun[] = [];
+    let plain: Token[] = [];
+    const flush = () => {
+      // toPlainText trims, the spaces next to formatted runs are put back
+      const raw = plain.map(token => token.raw).join('');
+      const text = `${/^\s/.test(raw) ? ' ' : ''}${toPlainText(plain)}${/\s$/.test(raw) ? ' ' : ''}`.replace(/\s+/g, ' ');
+      if (text) runs.push({ text, options: {} });
+      plain = [];
+    };
+
+    for (const token of tokens) {
+      if (token.type in INLINE_FORMATS) {
+        flush();
+        runs.push({ text: toPlainText((token as unknown as InlineFormatToken).tokens), options: INLINE_FORMATS[token.type] });
+      } else if (formulaRuns(token)) {
+        flush();
+        runs.push(...formulaRuns(token)!.map(run => ({ text: run.text, options: run.script ? INLINE_FORMATS[run.script] : {} })));
+      } else {
+        plain.push(token);
+      }
+    }
+    flush();
+    return runs;
   }
 
   private processHeaderFooterContent(content: string): string {
     // Handle table-like structure in headers/footers
     if (content.includes('|')) {
       // Parse pipe-separated content (common in headers)
-      const cells = content.split('|')
+      const cells = splitParts(content)
         .map(cell => cell.trim())
         .filter(cell => cell)
-        .map(cell => this.processMarkdownToText(cell));
+        .map(cell => this.markdown.toText(cell));
 
       return cells.join(' | ');
     } else {
-      // Process as regular markdown
-      return this.processMarkdownToText(content);
+      return this.markdown.toText(content);
     }
   }
 
-  private processMarkdownToText(markdown: string): string {
-    return markdown
-      // Process images - extract clean alt text and remove positioning attributes
-      .replace(/!\[([^\]]*)\]\([^)]+\)/g, (match, altText) => {
-        // Clean positioning attributes from alt text
-        const cleanAlt = altText.replace(/\s*[xywh]:[^;\s]+/g, '').trim();
-        return cleanAlt || 'image';
-      })
-      // Remove links but keep text
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-      // Remove bold/italic
-      .replace(/\*\*(.*?)\*\*/g, '$1')
-      .replace(/\*(.*?)\*/g, '$1')
-      // Remove code
-      .replace(/`(.*?)`/g, '$1')
-      // Clean up extra whitespace
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
   private addImagesFromContent(slide: any, content: string, defaultX: number, defaultY: number): void {
-    // Extract images from markdown content
-    const imageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
-    let match;
-
-    while ((match = imageRegex.exec(content)) !== null) {
-      const [fullMatch, altText, imagePath] = match;
-
-      // Parse positioning from alt text
-      let x = defaultX;
-      let y = defaultY;
-      let w = 1;
-      let h = 1;
-
-      const posMatch = altText.match(/([xywh]):\s*([^;\s]+)/g);
-      if (posMatch) {
-        posMatch.forEach((pos: string) => {
-          const [key, value] = pos.split(':').map((s: string) => s.trim());
-          const numValue = parseFloat(value.replace(/[^\d.-]/g, ''));
-
-          switch (key) {
-            case 'x':
-              x = numValue / 100 * 10; // Convert percentage to slide coordinates
-              break;
-            case 'y':
-              y = numValue / 100 * 5.625; // Convert percentage to slide coordinates
-              break;
-            case 'w':
-              w = numValue / 100 * 10; // Convert percentage to slide width
-              break;
-            case 'h':
-              h = numValue / 100 * 5.625; // Convert percentage to slide height
-              break;
-          }
-        });
-      }
+    for (const image of this.collectImages(this.markdown.parse(content))) {
+      // Convert percentage placement to slide coordinates (10 x 5.625 inches)
+      const percent = (value: string | undefined, scale: number, fallback: number) =>
+        value === undefined ? fallback : parseFloat(value.replace(/[^\d.-]/g, '')) / 100 * scale;
+      const { position, size } = image.placement;
+
+      const source = this.imageSource(image.href);
+      if (!source) continue;
 
       try {
-        // Try to add image to slide
         slide.addImage({
-          path: imagePath,
-          x: x,
-          y: y,
-          w: w,
-          h: h
+          ...source,
+          x: percent(position.left, 10, defaultX),
+          y: percent(position.top, 5.625, defaultY),
+          w: percent(size.width, 10, 1),
+          h: percent(size.height, 5.625, 1)
         });
       } catch (error) {
-        console.warn(`Could not add image ${imagePath} to slide:`, error);
+        this.diagnostics.warn('image-error', `Could not add image ${image.href} to slide: ${error instanceof Error ? error.message : error}`, image.href);
         // Image will be handled as text in the header/content
       }
     }
   }
 
-  private cleanHtmlForText(html: string): string {
-    return html
-      // Remove images (they don't work well in table cells in PPTX)
-      .replace(/<img[^>]*>/g, '[image]')
-      // Remove HTML tags but keep the content
-      .replace(/<\/?[^>]+>/g, '')
-      // Clean up extra whitespace
-      .replace(/\s+/g, ' ')
-      .trim();
+  /**
+   * pptxgenjs image source for a URL, data URI or local file; undefined for missing files, which would fail the whole presentation
+   */
+  private imageSource(src: string): { path: string } | { data: string } | undefined {
+    if (src.startsWith('data:')) return { data: src.slice('data:'.length) };
+    if (src.startsWith('http')) return { path: src };
+
+    // Read through the resolver, a logo on every slide is read once
+    const asset = this.assets.load(src);
+    return asset && { data: asset.dataUri.slice('data:'.length) };
+  }
+
+  private collectImages(tokens: Token[]): AksaraImageToken[] {
+    const images: AksaraImageToken[] = [];
+    const collect = (tokens: Token[]) => tokens.forEach(token => {
+      if (token.type === 'image') {
+        images.push(token as AksaraImageToken);
+      } else if ('tokens' in token && token.tokens) {
+        collect(token.tokens);
+      }
+    });
+    collect(tokens);
+    return images;
   }
-}
\ No newline at end of file
+}
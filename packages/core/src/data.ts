@@ -0,0 +1,98 @@
+/**
+ * Data files for data-driven documents
+ * Loads JSON, CSV and YAML files referenced by the `data:` directive.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { resolve, isAbsolute, extname } from 'path';
+import yaml from 'js-yaml';
+import type { ExpressionValue } from './expressions';
+
+/**
+ * Resolve a data path against the given directories, first existing file wins
+ */
+export function resolveDataPath(path: string, baseDirs: (string | undefined)[]): string | undefined {
+  if (isAbsolute(path)) return existsSync(path) ? path : undefined;
+
+  for (const dir of baseDirs) {
+    if (!dir) continue;
+    const candidate = resolve(dir, path);
+    if (existsSync(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Load a data file; the format follows the extension (.json, .csv, .yaml/.yml)
+ */
+export function loadDataFile(filePath: string): ExpressionValue {
+  const text = readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+
+  switch (extname(filePath).toLowerCase()) {
+    case '.json':
+      return JSON.parse(text);
+    case '.csv':
+      return parseCsv(text);
+    case '.yaml':
+    case '.yml':
+      return yaml.load(text) as ExpressionValue;
+    default:
+      throw new Error(`Unsupported data file type: ${extname(filePath) || filePath} (use .json, .csv or .yaml)`);
+  }
+}
+
+/**
+ * Parse CSV (comma or semicolon separated, RFC 4180 quoting) into a list of
+ * row objects keyed by the header. Whole numbers become numbers, everything else stays text.
+ */
+export function parseCsv(text: string): ExpressionValue[] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const separator = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+
+  const keys = header.map(key => key.trim());
+  return body.map(cells => Object.fromEntries(keys.map((key, index) => {
+    const value = (cells[index] ?? '').trim();
+    // Leading zeros (phone numbers, codes), decimals and numbers too large to keep every digit stay text
+    return [key, /^-?(0|[1-9]\d*)$/.test(value) && Number.isSafeInteger(Number(value)) ? Number(value) : value];
+  })));
+}
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AksaraConverter } from './index';
+import { DiagnosticCollector, formatDiagnostic } from './diagnostics';
+
+const dir = mkdtempSync(join(tmpdir(), 'aksara-diagnostics-'));
+writeFileSync(join(dir, 'lampiran.md'), '## Lampiran\n\nNilai ${tidak_ada}.\n');
+
+async function diagnose(markdown: string) {
+  const result = await new AksaraConverter({ format: 'html', sourceDir: dir, sourceFile: join(dir, 'main.md') }).convert(markdown);
+  return result.diagnostics ?? [];
+}
+
+describe('diagnostic positions', () => {
+  test('repeated text is reported where the problem is', async () => {
+    const markdown = [
+      '| Barang | Jumlah |',
+      '|---|---|',
+      '| Kertas | 2 |',
+      '',
+      'Paragraf lain.',
+      '',
+      'Total ${Jumlah} barang.',
+      ''
+    ].join('\n');
+    const [diagnostic] = await diagnose(markdown);
+    expect(diagnostic.message).toContain('Jumlah');
+    expect(diagnostic.line).toBe(7);
+    expect(diagnostic.file).toBeUndefined();
+  });
+
+  test('problems in included files name the file and its line', async () => {
+    const [diagnostic] = await diagnose('# Laporan\n\n<!-- include: ./lampiran.md -->\n');
+    expect(diagnostic.file).toBe(join(dir, 'lampiran.md'));
+    expect(diagnostic.line).toBe(3);
+    expect(formatDiagnostic(diagnostic)).toStartWith(`${join(dir, 'lampiran.md')}:3:`);
+  });
+
+  test('include directives are reported at their line', async () => {
+    const [diagnostic] = await diagnose('# Laporan\n\n<!-- include: ./hilang.md -->\n');
+    expect(diagnostic.code).toBe('include-not-found');
+    expect(diagnostic.line).toBe(3);
+  });
+
+  test('text found more than once outside blocks has no line', () => {
+    const diagnostics = new DiagnosticCollector('a\nb\na\n');
+    diagnostics.warn('test', 'twice', 'a');
+    diagnostics.warn('test', 'once', 'b');
+    expect(diagnostics.list().map(diagnostic => diagnostic.line)).toEqual([undefined, 2]);
+  });
+});
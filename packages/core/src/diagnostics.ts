@@ -0,0 +1,115 @@
+/**
+ * Aksara conversion diagnostics
+ * Collects warnings and errors raised while converting a document so callers
+ * receive them in ConvertResult instead of on the console.
+ */
+
+import { Diagnostic, DiagnosticSeverity, SourceLocation } from './types';
+
+/**
+ * Markdown block being processed: its text as written and where it starts
+ */
+export interface DiagnosticBlock {
+  raw: string;
+  source?: SourceLocation;
+}
+
+type Position = Pick<Diagnostic, 'file' | 'line' | 'column'>;
+
+export class DiagnosticCollector {
+  private diagnostics: Diagnostic[] = [];
+  private block?: DiagnosticBlock;
+
+  /**
+   * @param source Original markdown, used to map reported snippets back to line/column
+   * @param file Path of the original markdown; diagnostics in other (included) files name theirs
+   */
+  constructor(private source: string = '', private file?: string) {}
+
+  /**
+   * Record a diagnostic. When `snippet` is given, it is looked up in the block being processed
+   * (see within()) for the source line and column, or outside blocks in the original markdown if it
+   * occurs there only once; `offset` moves the position inside the snippet (e.g. to the failing
+   * part of an expression).
+   */
+  report(severity: DiagnosticSeverity, code: string, message: string, snippet?: string, offset: number = 0): void {
+    this.diagnostics.push({ severity, code, message, ...this.locate(snippet, offset) });
+  }
+
+  /**
+   * Run `process` reporting its diagnostics inside `block`; blocks without a source leave the outer one in place
+   */
+  within<T>(block: DiagnosticBlock, process: () => T): T {
+    if (!block.source) return process();
+    const outer = this.block;
+    this.block = block;
+    try {
+      return process();
+    } finally {
+      this.block = outer;
+    }
+  }
+
+  warn(code: string, message: string, snippet?: string, offset?: number): void {
+    this.report('warning', code, message, snippet, offset);
+  }
+
+  error(code: string, message: string, snippet?: string, offset?: number): void {
+    this.report('error', code, message, snippet, offset);
+  }
+
+  /**
+   * Record an image or other file that was not found in any of the `searched` paths
+   */
+  missingAsset(src: string, searched: string[]): void {
+    this.diagnostics.push({ severity: 'warning', code: 'image-not-found', message: `Image not found: ${src}`, asset: { src, searched }, ...this.locate(src) });
+  }
+
+  /**
+   * Whether anything at warning level or above was reported (used by strict mode)
+   */
+  hasProblems(): boolean {
+    return this.diagnostics.some(diagnostic => diagnostic.severity !== 'info');
+  }
+
+  list(): Diagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  private locate(snippet?: string, offset: number = 0): Position {
+    if (this.block?.source) {
+      const { file, line } = this.block.source;
+      const position = find(this.block.raw.replace(/^(?:[ \t]*\r?\n)+/, ''), snippet, offset);
+      return {
+        file: file && file !== this.file ? file : undefined,
+        line: line + (position ? position.line - 1 : 0),
+        column: position?.column
+      };
+    }
+
+    // Text repeated in the document can't tell where it was reported from
+    const start = snippet ? this.source.indexOf(snippet) : -1;
+    if (start === -1 || this.source.indexOf(snippet!, start + 1) !== -1) return {};
+    return find(this.source, snippet, offset) ?? {};
+  }
+}
+
+/**
+ * Line and column of the first `snippet` in `text`, moved by `offset`
+ */
+function find(text: string, snippet: string | undefined, offset: number): { line: number; column: number } | undefined {
+  const start = snippet ? text.indexOf(snippet) : -1;
+  if (start === -1) return undefined;
+
+  const before = text.slice(0, start + offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Format a diagnostic as `line:column severity [code] message`, prefixed with `file:` for included files
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const position = diagnostic.line ? `${diagnostic.line}:${diagnostic.column ?? 1}` : '';
+  const location = [diagnostic.file, position].filter(Boolean).join(':');
+  return `${location ? `${location} ` : ''}${diagnostic.severity} [${diagnostic.code}] ${diagnostic.message}`;
+}
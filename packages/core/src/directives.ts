@@ -0,0 +1,276 @@
+/**
+ * Aksara directive parsing
+ * Supports YAML front matter (`---`) and the original `<!-- aksara:true ... -->` comment block.
+ * Both forms are normalised into the same plain data object before being mapped
+ * onto AksaraDirectives and DocumentMetadata.
+ */
+
+import matter from 'gray-matter';
+import { AksaraDirectives, DocumentMetadata, MetaValue, DocumentMeta } from './types';
+import type { DirectiveParser } from './plugins';
+
+export interface ParsedDirectives {
+  content: string;
+  directives: AksaraDirectives;
+  metadata: DocumentMetadata;
+}
+
+const DIRECTIVE_KEYS = ['aksara', 'type', 'style', 'size', 'header', 'footer', 'background', 'meta', 'data', 'numbering', 'bibliography', 'citation', 'pagination', 'bilingual', 'language'];
+const METADATA_KEYS = ['title', 'subtitle', 'author', 'subject'] as const;
+
+/**
+ * Parse directives from YAML front matter or the HTML comment block; `parsers` handle the keys added by plugins
+ */
+export function parseDirectives(markdown: string, parsers: Record<string, DirectiveParser> = {}): ParsedDirectives {
+  const keys = [...DIRECTIVE_KEYS, ...Object.keys(parsers)];
+
+  const frontMatter = parseFrontMatter(markdown, keys);
+  if (frontMatter) {
+    return { content: frontMatter.content, ...mapDirectives(frontMatter.data, parsers) };
+  }
+
+  const commentBlock = parseCommentBlock(markdown, keys);
+  if (commentBlock) {
+    return { content: commentBlock.content, ...mapDirectives(commentBlock.data, parsers) };
+  }
+
+  return { content: markdown, directives: { aksara: false }, metadata: {} };
+}
+
+function parseFrontMatter(markdown: string, keys: string[]): { content: string; data: DocumentMeta } | null {
+  if (!/^---[ \t]*\r?\n/.test(markdown)) return null;
+
+  try {
+    // With options gray-matter parses afresh instead of returning a cached, shared result for the same text
+    const file = matter(markdown, {});
+    if (!file.data || typeof file.data !== 'object' || Array.isArray(file.data) || Object.keys(file.data).length === 0) {
+      return null;
+    }
+
+    // Unknown top-level keys are treated as meta fields, explicit `meta` wins
+    const data: DocumentMeta = {};
+    const extraMeta: DocumentMeta = {};
+    for (const [key, value] of Object.entries(file.data as DocumentMeta)) {
+      if (keys.includes(key)) {
+        data[key] = value;
+      } else {
+        extraMeta[key] = value;
+      }
+    }
+    if (Object.keys(extraMeta).length > 0 || isMetaObject(data.meta)) {
+      data.meta = { ...extraMeta, ...(isMetaObject(data.meta) ? data.meta : {}) };
+    }
+
+    return { content: file.content.trim(), data };
+  } catch (error) {
+    // A leading `---` may simply be a section separator rather than front matter
+    return null;
+  }
+}
+
+/**
+ * Parse the `<!-- ... -->` directive block.
+ * Lines indented below `meta:` build nested objects and `- item` lines build lists.
+ */
+function parseCommentBlock(markdown: string, keys: string[]): { content: string; data: DocumentMeta } | null {
+  // Include, toc/lof/lot, bibliography, class and widths comments are never a directive block,
+  // nor are one-line section directives such as `<!-- header: none -->`
+  const match = markdown.match(/<!--(?!\s*(?:include:|toc\b|lof\b|lot\b|bibliography\b|class:|widths:|(?:header|footer|background|page|layout):[^\n]*-->))\s*([\s\S]*?)\s*-->/);
+  if (!match) return null;
+
+  const data: DocumentMeta = {};
+  const content = markdown.replace(match[0], '').trim();
+
+  let meta: DocumentMeta | undefined;
+  let metaIndent = -1;
+  type Frame = { indent: number; container: DocumentMeta | MetaValue[] };
+  let stack: Frame[] = [];
+  let pending: { indent: number; parent: DocumentMeta | MetaValue[]; key: string } | null = null;
+
+  for (const line of match[1].split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const indent = line.length - line.trimStart().length;
+    const colonIndex = trimmed.indexOf(':');
+    const key = colonIndex > 0 ? trimmed.substring(0, colonIndex).trim() : '';
+    const inMeta = meta !== undefined && (indent > metaIndent || !keys.includes(key));
+
+    if (!inMeta) {
+      if (!key) continue;
+
+      if (key === 'meta') {
+        meta = {};
+        metaIndent = indent;
+        stack = [{ indent, container: meta }];
+        pending = null;
+        data.meta = meta;
+      } else if (keys.includes(key)) {
+        data[key] = unquote(trimmed.substring(colonIndex + 1).trim());
+      }
+      continue;
+    }
+
+    // Attach a pending `key:` as an object or list once its first child appears
+    if (pending) {
+      if (indent > pending.indent) {
+        const child: DocumentMeta | MetaValue[] = trimmed.startsWith('- ') ? [] : {};
+        setChild(pending.parent, pending.key, child);
+        stack.push({ indent: pending.indent, container: child });
+      }
+      pending = null;
+    }
+
+    while (stack.length > 1 && indent <= stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+    const container = stack[stack.length - 1].container;
+
+    if (trimmed.startsWith('- ')) {
+      if (Array.isArray(container)) {
+        container.push(unquote(trimmed.substring(2).trim()));
+      }
+      continue;
+    }
+
+    if (!key) continue;
+    const value = unquote(trimmed.substring(colonIndex + 1).trim());
+
+    if (value) {
+      setChild(container, key, value);
+    } else {
+      pending = { indent, parent: container, key };
+    }
+  }
+
+  return { content, data };
+}
+
+function setChild(container: DocumentMeta | MetaValue[], key: string, value: MetaValue): void {
+  if (Array.isArray(container)) {
+    container.push({ [key]: value });
+  } else {
+    container[key] = value;
+  }
+}
+
+function unquote(value: string): string {
+  // Strip surrounding quotes if present
+  if ((value.startsWith('"') && value.endsWith('"') && value.length > 1) ||
+      (value.startsWith("'") && value.endsWith("'") && value.length > 1)) {
+    return value.substring(1, value.length - 1);
+  }
+  return value;
+}
+
+function isMetaObject(value: MetaValue | undefined): value is DocumentMeta {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function toText(value: MetaValue | undefined): string | undefined {
+  if (value === undefined || value === null || typeof value === 'object') {
+    return value instanceof Date ? value.toISOString() : undefined;
+  }
+  return String(value);
+}
+
+function toDate(value: MetaValue | undefined): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toKeywords(value: MetaValue | undefined): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.map(item => toText(item)).filter((item): item is string => !!item);
+  }
+  const text = toText(value);
+  return text ? text.split(',').map(keyword => keyword.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * Map normalised directive data onto AksaraDirectives and DocumentMetadata
+ */
+function mapDirectives(data: DocumentMeta, parsers: Record<string, DirectiveParser>): { directives: AksaraDirectives; metadata: DocumentMetadata } {
+  const directives: AksaraDirectives = {
+    aksara: data.aksara === true || data.aksara === 'true'
+  };
+
+  if (data.type === 'document' || data.type === 'presentation') {
+    directives.type = data.type;
+  }
+
+  // `numbering: bab` (BAB I, 1.1) or `numbering: decimal` / `true` (1, 1.1)
+  if (data.numbering === 'bab' || data.numbering === 'decimal') {
+    directives.numbering = data.numbering;
+  } else if (data.numbering === true || data.numbering === 'true') {
+    directives.numbering = 'decimal';
+  }
+
+  // `citation: apa` (default) or `citation: ieee` for `[@key]` citations
+  const citation = toText(data.citation)?.toLowerCase();
+  if (citation === 'apa' || citation === 'ieee') {
+    directives.citation = citation;
+  }
+
+  // `pagination: flow` splits long document sections over several pages, `fixed` (default) is one page each
+  const pagination = toText(data.pagination)?.toLowerCase();
+  if (pagination === 'fixed' || pagination === 'flow') {
+    directives.pagination = pagination;
+  }
+
+  // `bilingual: side-by-side` or `sequential` shows every `:::lang` block, `single` (default) one language
+  const bilingual = toText(data.bilingual)?.toLowerCase();
+  if (bilingual === 'single' || bilingual === 'side-by-side' || bilingual === 'sequential') {
+    directives.bilingual = bilingual;
+  }
+
+  const language = toText(data.language)?.toLowerCase();
+  if (language) directives.language = language;
+
+  for (const key of ['style', 'size', 'header', 'footer', 'background', 'bibliography'] as const) {
+    const value = toText(data[key]);
+    if (value) directives[key] = value;
+  }
+
+  // `data: ./file.json` or a map of names to files (front matter)
+  if (isMetaObject(data.data)) {
+    const files = Object.entries(data.data)
+      .map(([name, path]) => [name, toText(path)])
+      .filter((entry): entry is [string, string] => !!entry[1]);
+    if (files.length > 0) directives.data = Object.fromEntries(files);
+  } else {
+    const path = toText(data.data);
+    if (path) directives.data = path;
+  }
+
+  const meta = isMetaObject(data.meta) ? data.meta : undefined;
+  if (meta) directives.meta = meta;
+
+  // Plugin keys, parsed by the plugin; undefined drops the value
+  for (const [key, parse] of Object.entries(parsers)) {
+    if (data[key] === undefined) continue;
+    const value = parse(data[key]);
+    if (value !== undefined) directives.plugins = { ...directives.plugins, [key]: value };
+  }
+
+  // Known metadata fields are read from meta
+  const metadata: DocumentMetadata = {};
+  for (const key of METADATA_KEYS) {
+    const value = toText(meta?.[key]);
+    if (value) metadata[key] = value;
+  }
+
+  const keywords = toKeywords(meta?.keywords);
+  if (keywords?.length) metadata.keywords = keywords;
+
+  const created = toDate(meta?.created);
+  if (created) metadata.created = created;
+
+  const modified = toDate(meta?.modified);
+  if (modified) metadata.modified = modified;
+
+  return { directives, metadata };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { ExpressionEngine } from './index';
+
+const engine = new ExpressionEngine({ locale: 'id' });
+const evaluate = (source: string, scope = {}) => engine.evaluate(source, scope).value;
+
+describe('expression sandbox', () => {
+  test('prototype keys are not readable', () => {
+    expect(() => evaluate('meta.__proto__', { meta: {} })).toThrow('not accessible');
+    expect(() => evaluate("meta['constructor']", { meta: {} })).toThrow('not accessible');
+    expect(() => evaluate('meta.prototype', { meta: {} })).toThrow('not accessible');
+    expect(() => evaluate('({ __proto__: 1 })')).toThrow('not allowed');
+  });
+
+  test('host objects are out of reach', () => {
+    expect(() => evaluate("'x'.constructor")).toThrow();
+    expect(() => evaluate("'x'.constructor('return process')()")).toThrow();
+    expect(() => evaluate('toString')).toThrow("Unknown identifier 'toString'");
+    expect(() => evaluate("''.toString.call")).toThrow();
+  });
+
+  test('strings are capped however they grow', () => {
+    expect(() => evaluate("'a'.repeat(20000)")).toThrow('limited to');
+    expect(() => evaluate("'a'.padStart(20000)")).toThrow('limited to');
+    expect(() => evaluate("'aaaaaaaaaa'.replaceAll('a', 'aaaaaaaaaa').replaceAll('a', 'aaaaaaaaaa').replaceAll('a', 'aaaaaaaaaa')")).toThrow('limited to');
+    expect(() => evaluate("'a'.repeat(9000).replace('a', '$`$`')")).toThrow('limited to');
+    expect(() => evaluate("'a'.repeat(6000).concat('b'.repeat(6000))")).toThrow('limited to');
+    expect(() => evaluate("'x'.repeat(9000).split('').join('xx')")).toThrow('limited to');
+    expect(() => evaluate("join('x'.repeat(9000).split(''), 'x'.repeat(9000))")).toThrow('limited to');
+    expect(() => evaluate("s + s", { s: 'a'.repeat(6000) })).toThrow('limited to');
+    expect(() => evaluate('truncate(s, 9999, s)', { s: 'a'.repeat(10000) })).toThrow('limited to');
+    expect(evaluate("truncate('abcdef', 3)")).toBe('abc…');
+  });
+
+  test('ordinary string methods still work', () => {
+    expect(evaluate("'abc'.replace('b', '[$&]')")).toBe('a[b]c');
+    expect(evaluate("'a-b-c'.replaceAll('-', ' / ')")).toBe('a / b / c');
+    expect(evaluate("'Rp'.concat(' ', 1000)")).toBe('Rp 1000');
+    expect(evaluate("[1, null, 2].join('-')")).toBe('1--2');
+    expect(evaluate("join(['a', 'b'])")).toBe('a, b');
+  });
+
+  test('operators follow JavaScript coercion', () => {
+    expect(evaluate("'10' * 2")).toBe(20);
+    expect(evaluate("'b' > 'a'")).toBe(true);
+    expect(evaluate("'10' > 9")).toBe(true);
+    expect(evaluate('null + 1')).toBe(1);
+    expect(evaluate('7 % 3')).toBe(1);
+  });
+});
@@ -0,0 +1,280 @@
+import { ExpressionError, ExpressionFunction, ExpressionNode, ExpressionScope, ExpressionValue, FunctionContext } from './types';
+import { methods, namespaces, toDate, toNumber, limitLength } from './functions';
+
+// Keys that would reach the prototype chain of a plain object
+const BLOCKED_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+class Namespace {
+  constructor(public name: string) {}
+}
+
+type Value = ExpressionValue | Namespace;
+
+function isRecord(value: Value): value is Record<string, ExpressionValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Namespace);
+}
+
+function typeOf(value: Value): keyof typeof methods | undefined {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value as 'string' | 'number' | 'boolean';
+  if (value instanceof Date) return 'date';
+  if (Array.isArray(value)) return 'list';
+  return undefined;
+}
+
+function toPrimitive(value: Value, operator: string, position: number): string | number | boolean | null | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'object' && value !== null) {
+    throw new ExpressionError(`Operator '${operator}' cannot be applied to ${Array.isArray(value) ? 'a list' : 'an object'}`, position);
+  }
+  return value;
+}
+
+/**
+ * Tree-walking evaluator. Identifiers resolve only against the given scope and
+ * the whitelisted libraries; nothing reaches the JavaScript runtime directly.
+ */
+export class Evaluator {
+  private missing: string[] = [];
+
+  constructor(
+    private scope: ExpressionScope,
+    private functions: Record<string, ExpressionFunction>,
+    private context: FunctionContext
+  ) {}
+
+  run(node: ExpressionNode): { value: ExpressionValue; missing: string[] } {
+    this.missing = [];
+    const value = this.evaluate(node);
+    if (value instanceof Namespace) {
+      throw new ExpressionError(`'${value.name}' cannot be used as a value`, node.position);
+    }
+    return { value, missing: this.missing };
+  }
+
+  private evaluate(node: ExpressionNode): Value {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(this.scope, node.name)) return this.scope[node.name];
+        if (Object.prototype.hasOwnProperty.call(namespaces, node.name)) return new Namespace(node.name);
+        if (Object.prototype.hasOwnProperty.call(this.functions, node.name)) {
+          throw new ExpressionError(`'${node.name}' is a function, call it as ${node.name}(...)`, node.position);
+        }
+        throw new ExpressionError(`Unknown identifier '${node.name}'`, node.position);
+
+      case 'array':
+        return node.elements.map(element => this.value(element));
+
+      case 'object': {
+        const result: Record<string, ExpressionValue> = {};
+        for (const property of node.properties) {
+          if (BLOCKED_KEYS.has(property.key)) {
+            throw new ExpressionError(`Property name '${property.key}' is not allowed`, property.value.position);
+          }
+          result[property.key] = this.value(property.value);
+        }
+        return result;
+      }
+
+      case 'member':
+        return this.member(node);
+
+      case 'call':
+        return this.call(node);
+
+      case 'new': {
+        if (node.callee !== 'Date') {
+          throw new ExpressionError(`Only 'new Date(...)' is supported`, node.position);
+        }
+        const args = node.args.map(arg => this.value(arg));
+        return this.guard(node.position, () => {
+          if (args.length === 0) return new Date();
+          if (args.length === 1) return toDate(args[0], 'new Date');
+          const parts = args.map(arg => toNumber(arg, 'new Date')) as [number, number, ...number[]];
+          return new Date(...parts);
+        });
+      }
+
+      case 'unary': {
+        const argument = this.value(node.argument);
+        if (node.operator === '!') return !argument;
+        const number = Number(toPrimitive(argument, node.operator, node.position));
+        return node.operator === '-' ? -number : number;
+      }
+
+      case 'binary':
+        return this.binary(node);
+
+      case 'conditional':
+        return this.evaluate(this.value(node.test) ? node.consequent : node.alternate);
+    }
+  }
+
+  private value(node: ExpressionNode): ExpressionValue {
+    const value = this.evaluate(node);
+    if (value instanceof Namespace) {
+      throw new ExpressionError(`'${value.name}' cannot be used as a value`, node.position);
+    }
+    return value;
+  }
+
+  private member(node: Extract<ExpressionNode, { type: 'member' }>): Value {
+    const object = this.evaluate(node.object);
+    const key = this.value(node.property);
+
+    if (object === null || object === undefined) {
+      if (node.optional) return undefined;
+      throw new ExpressionError(`Cannot read '${key}' of ${object}`, node.position);
+    }
+
+    if (object instanceof Namespace) {
+      const constants = namespaces[object.name].constants;
+      if (typeof key === 'string' && Object.prototype.hasOwnProperty.call(constants, key)) return constants[key];
+      throw new ExpressionError(`${object.name}.${key} must be called as a function`, node.position);
+    }
+
+    if (typeof key !== 'string' && typeof key !== 'number') {
+      throw new ExpressionError('Property names must be text or numbers', node.property.position);
+    }
+
+    let result: ExpressionValue;
+    if (typeof object === 'string' || Array.isArray(object)) {
+      if (key === 'length') return object.length;
+      if (!/^\d+$/.test(String(key))) {
+        throw new ExpressionError(`Unknown property '${key}'`, node.position);
+      }
+      result = object[Number(key)];
+    } else if (isRecord(object)) {
+      if (BLOCKED_KEYS.has(String(key))) {
+        throw new ExpressionError(`Property '${key}' is not accessible`, node.position);
+      }
+      result = Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+    } else {
+      throw new ExpressionError(`Cannot read property '${key}' of a ${typeOf(object)}, use a method instead`, node.position);
+    }
+
+    if (result === undefined) {
+      const path = this.describe(node);
+      if (path) this.missing.push(path);
+    }
+    return result;
+  }
+
+  private call(node: Extract<ExpressionNode, { type: 'call' }>): ExpressionValue {
+    const { callee } = node;
+
+    if (callee.type === 'identifier') {
+      const fn = Object.prototype.hasOwnProperty.call(this.functions, callee.name) ? this.functions[callee.name] : undefined;
+      if (!fn) throw new ExpressionError(`Unknown function '${callee.name}'`, callee.position);
+      const args = node.args.map(arg => this.value(arg));
+      return this.guard(callee.position, () => fn(args, this.context));
+    }
+
+    if (callee.type === 'member' && !callee.computed) {
+      const name = String((callee.property as Extract<ExpressionNode, { type: 'literal' }>).value);
+      const target = this.evaluate(callee.object);
+
+      if ((target === null || target === undefined) && callee.optional) return undefined;
+
+      let fn: ((args: ExpressionValue[]) => ExpressionValue) | undefined;
+      if (target instanceof Namespace) {
+        const library = namespaces[target.name].functions;
+        const namespaceFn = Object.prototype.hasOwnProperty.call(library, name) ? library[name] : undefined;
+        if (namespaceFn) fn = args => namespaceFn(args, this.context);
+      } else {
+        const type = typeOf(target);
+        const library = type ? methods[type] : undefined;
+        const method = library && Object.prototype.hasOwnProperty.call(library, name) ? library[name] : undefined;
+        if (method) fn = args => method(target, args, this.context);
+      }
+
+      if (!fn) {
+        const owner = target instanceof Namespace ? target.name : typeOf(target) ?? String(target === null ? 'null' : typeof target);
+        throw new ExpressionError(`Unknown method '${name}' on ${owner}`, callee.position);
+      }
+      const args = node.args.map(arg => this.value(arg));
+      return this.guard(callee.position, () => fn!(args));
+    }
+
+    throw new ExpressionError('Only functions and methods can be called', callee.position);
+  }
+
+  private binary(node: Extract<ExpressionNode, { type: 'binary' }>): ExpressionValue {
+    const { operator, position } = node;
+
+    // Short-circuit operators
+    if (operator === '&&' || operator === '||' || operator === '??') {
+      const left = this.value(node.left);
+      if (operator === '&&') return left ? this.value(node.right) : left;
+      if (operator === '||') return left ? left : this.value(node.right);
+      return left ?? this.value(node.right);
+    }
+
+    const left = this.value(node.left);
+    const right = this.value(node.right);
+
+    if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+      const a = this.concat(left, position);
+      const b = this.concat(right, position);
+      this.guard(position, () => limitLength(a.length + b.length, 'Text'));
+      return a + b;
+    }
+
+    const a = toPrimitive(left, operator, position);
+    const b = toPrimitive(right, operator, position);
+    // As in JavaScript: two texts compare alphabetically, anything else as numbers
+    const [x, y] = typeof a === 'string' && typeof b === 'string' ? [a, b] : [Number(a), Number(b)];
+
+    switch (operator) {
+      case '+': return Number(a) + Number(b);
+      case '-': return Number(a) - Number(b);
+      case '*': return Number(a) * Number(b);
+      case '/': return Number(a) / Number(b);
+      case '%': return Number(a) % Number(b);
+      case '<': return x < y;
+      case '<=': return x <= y;
+      case '>': return x > y;
+      case '>=': return x >= y;
+      case '==': return a == b;
+      case '!=': return a != b;
+      case '===': return a === b;
+      case '!==': return a !== b;
+      default:
+        throw new ExpressionError(`Unknown operator '${operator}'`, position);
+    }
+  }
+
+  private concat(value: ExpressionValue, position: number): string {
+    if (value === null || value === undefined) return String(value);
+    if (typeof value === 'object' && !(value instanceof Date)) {
+      throw new ExpressionError(`Cannot join ${Array.isArray(value) ? 'a list' : 'an object'} to text`, position);
+    }
+    return String(value);
+  }
+
+  /**
+   * Run a library call, turning runtime errors into positioned expression errors
+   */
+  private guard(position: number, run: () => ExpressionValue): ExpressionValue {
+    try {
+      return run();
+    } catch (error) {
+      if (error instanceof ExpressionError) throw error;
+      throw new ExpressionError(error instanceof Error ? error.message : String(error), position);
+    }
+  }
+
+  /**
+   * Dotted path of a member chain (meta.items.0), used to report missing fields
+   */
+  private describe(node: ExpressionNode): string | undefined {
+    if (node.type === 'identifier') return node.name;
+    if (node.type === 'member' && node.property.type === 'literal') {
+      const object = this.describe(node.object);
+      return object === undefined ? undefined : `${object}.${node.property.value}`;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,253 @@
+import { ExpressionFunction, ExpressionValue, FunctionContext } from './types';
+
+export type MethodFunction = (target: any, args: ExpressionValue[], context: FunctionContext) => ExpressionValue;
+
+const MAX_STRING_LENGTH = 10000;
+
+function describe(value: ExpressionValue): string {
+  if (value === null) return 'null';
+  if (value instanceof Date) return 'date';
+  if (Array.isArray(value)) return 'list';
+  return typeof value;
+}
+
+export function toNumber(value: ExpressionValue, name: string): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  throw new TypeError(`${name} expects a number, got ${describe(value)}`);
+}
+
+export function toText(value: ExpressionValue, name: string): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  throw new TypeError(`${name} expects text, got ${describe(value)}`);
+}
+
+export function toDate(value: ExpressionValue, name: string): Date {
+  if (value instanceof Date) return value;
+  // yyyy-mm-dd is a calendar day in local time, not UTC midnight
+  const day = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  if (day) return new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  throw new TypeError(`${name} expects a date, got ${describe(value)}`);
+}
+
+function toOptions(value: ExpressionValue, name: string): Record<string, ExpressionValue> | undefined {
+  if (value === undefined) return undefined;
+  if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) return value;
+  throw new TypeError(`${name} expects an options object, got ${describe(value)}`);
+}
+
+function toLocale(value: ExpressionValue, context: FunctionContext): string {
+  return value === undefined ? context.locale : toText(value, 'locale');
+}
+
+/**
+ * Check the length of text about to be built; every way to grow text checks it first,
+ * so chained calls can't double a string until memory runs out
+ */
+export function limitLength(length: ExpressionValue, name: string): number {
+  const result = toNumber(length, name);
+  if (result > MAX_STRING_LENGTH) {
+    throw new RangeError(`${name} is limited to ${MAX_STRING_LENGTH} characters`);
+  }
+  return result;
+}
+
+/**
+ * Join texts after checking the length of the result
+ */
+function joinTexts(items: string[], separator: string): string {
+  limitLength(items.reduce((length, item) => length + item.length, separator.length * Math.max(items.length - 1, 0)), 'join');
+  return items.join(separator);
+}
+
+function primitiveArgs(args: ExpressionValue[], name: string): (string | number | boolean | undefined)[] {
+  return args.map(arg => {
+    if (arg === undefined || typeof arg === 'string' || typeof arg === 'number' || typeof arg === 'boolean') return arg;
+    throw new TypeError(`${name} expects text or number arguments, got ${describe(arg)}`);
+  });
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+/**
+ * Whitelisted global functions available in `${...}`
+ */
+export const defaultFunctions: Record<string, ExpressionFunction> = {
+  // Dates
+  now: () => new Date(),
+  today: () => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    return date;
+  },
+  date: ([value]) => value === undefined ? new Date() : toDate(value, 'date'),
+  addDays: ([date, days]) => new Date(toDate(date, 'addDays').getTime() + toNumber(days, 'addDays') * 24 * 60 * 60 * 1000),
+  addMonths: ([date, months]) => addMonths(toDate(date, 'addMonths'), toNumber(months, 'addMonths')),
+  addYears: ([date, years]) => addMonths(toDate(date, 'addYears'), toNumber(years, 'addYears') * 12),
+  formatDate: ([date, style, locale], context) => {
+    const options = typeof style === 'string'
+      ? { dateStyle: style as Intl.DateTimeFormatOptions['dateStyle'] }
+      : toOptions(style, 'formatDate') ?? { dateStyle: 'long' as const };
+    return toDate(date, 'formatDate').toLocaleDateString(toLocale(locale, context), options as Intl.DateTimeFormatOptions);
+  },
+
+  // Numbers
+  formatNumber: ([value, decimals, locale], context) => {
+    const digits = decimals === undefined ? undefined : toNumber(decimals, 'formatNumber');
+    return toNumber(value, 'formatNumber').toLocaleString(toLocale(locale, context), {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits ?? 3
+    });
+  },
+  round: ([value, decimals]) => {
+    const factor = Math.pow(10, decimals === undefined ? 0 : toNumber(decimals, 'round'));
+    return Math.round(toNumber(value, 'round') * factor) / factor;
+  },
+
+  // Text
+  upper: ([value]) => toText(value, 'upper').toUpperCase(),
+  lower: ([value]) => toText(value, 'lower').toLowerCase(),
+  capitalize: ([value]) => toText(value, 'capitalize').replace(/(^|\s)(\p{L})/gu, (_, space, letter) => space + letter.toUpperCase()),
+  trim: ([value]) => toText(value, 'trim').trim(),
+  truncate: ([value, length, suffix]) => {
+    const text = toText(value, 'truncate');
+    const max = toNumber(length, 'truncate');
+    if (text.length <= max) return text;
+    const end = suffix === undefined ? '…' : toText(suffix, 'truncate');
+    limitLength(Math.max(max, 0) + end.length, 'truncate');
+    return text.slice(0, max) + end;
+  },
+  join: ([list, separator]) => {
+    if (!Array.isArray(list)) throw new TypeError(`join expects a list, got ${describe(list)}`);
+    return joinTexts(list.map(item => toText(item, 'join')), separator === undefined ? ', ' : toText(separator, 'join'));
+  },
+
+  // Lists (table columns)
+  sum: args => numbers(args, 'sum').reduce((total, value) => total + value, 0),
+  avg: args => {
+    const values = numbers(args, 'avg');
+    return values.length ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+  },
+  min: args => Math.min(...numbers(args, 'min')),
+  max: args => Math.max(...numbers(args, 'max')),
+  count: args => numbers(args, 'count').length
+};
+
+/**
+ * Flatten list arguments into numbers, skipping empty cells
+ */
+function numbers(args: ExpressionValue[], name: string): number[] {
+  return args.flat(Infinity as 1).filter(value => value !== null && value !== undefined && value !== '')
+    .map(value => toNumber(value as ExpressionValue, name));
+}
+
+/**
+ * Static members of the `Date` and `Math` namespaces
+ */
+export const namespaces: Record<string, { functions: Record<string, ExpressionFunction>; constants: Record<string, number> }> = {
+  Date: {
+    functions: {
+      now: () => Date.now()
+    },
+    constants: {}
+  },
+  Math: {
+    functions: Object.fromEntries(
+      (['round', 'floor', 'ceil', 'abs', 'trunc', 'sign', 'sqrt', 'min', 'max', 'pow'] as const).map(name => [
+        name,
+        (args: ExpressionValue[]) => (Math[name] as (...values: number[]) => number)(...args.map(arg => toNumber(arg, `Math.${name}`)))
+      ])
+    ),
+    constants: { PI: Math.PI, E: Math.E }
+  }
+};
+
+/**
+ * replace/replaceAll with the longest possible result checked first: `$&` and `` $` `` in the
+ * replacement insert up to the whole text per match
+ */
+function replaceMethod(name: 'replace' | 'replaceAll'): MethodFunction {
+  return (target: string, args) => {
+    const [search, replacement] = primitiveArgs(args, name).map(String);
+    const matches = name === 'replace'
+      ? (target.includes(search) ? 1 : 0)
+      : (search === '' ? target.length + 1 : target.split(search).length - 1);
+    const inserted = replacement.length + (replacement.split('$').length - 1) * target.length;
+    limitLength(target.length + matches * inserted, name);
+    return target[name](search, replacement);
+  };
+}
+
+function delegate(prototype: any, name: string, limit?: number): MethodFunction {
+  return (target, args) => {
+    if (limit !== undefined) limitLength(args[limit], name);
+    return prototype[name].apply(target, primitiveArgs(args, name));
+  };
+}
+
+function delegateAll(prototype: any, names: string[]): Record<string, MethodFunction> {
+  return Object.fromEntries(names.map(name => [name, delegate(prototype, name)]));
+}
+
+/**
+ * Whitelisted methods per value type. Arguments are checked before they reach
+ * the runtime implementation so no host object can be passed in.
+ */
+export const methods: Record<'string' | 'number' | 'boolean' | 'date' | 'list', Record<string, MethodFunction>> = {
+  string: {
+    ...delegateAll(String.prototype, [
+      'toUpperCase', 'toLowerCase', 'trim', 'trimStart', 'trimEnd', 'slice', 'substring', 'charAt',
+      'includes', 'startsWith', 'endsWith', 'indexOf', 'lastIndexOf', 'split', 'toString'
+    ]),
+    replace: replaceMethod('replace'),
+    replaceAll: replaceMethod('replaceAll'),
+    concat: (target: string, args) => {
+      const parts = primitiveArgs(args, 'concat').map(String);
+      limitLength(parts.reduce((length, part) => length + part.length, target.length), 'concat');
+      return target.concat(...parts);
+    },
+    padStart: delegate(String.prototype, 'padStart', 0),
+    padEnd: delegate(String.prototype, 'padEnd', 0),
+    repeat: (target: string, [count]) => {
+      limitLength(target.length * toNumber(count, 'repeat'), 'repeat');
+      return target.repeat(toNumber(count, 'repeat'));
+    }
+  },
+  number: {
+    ...delegateAll(Number.prototype, ['toFixed', 'toPrecision', 'toString']),
+    toLocaleString: (target: number, [locale, options]: ExpressionValue[], context: FunctionContext) =>
+      target.toLocaleString(toLocale(locale, context), toOptions(options, 'toLocaleString') as Intl.NumberFormatOptions)
+  },
+  boolean: {
+    toString: (target: boolean) => String(target)
+  },
+  date: {
+    ...delegateAll(Date.prototype, [
+      'getFullYear', 'getMonth', 'getDate', 'getDay', 'getHours', 'getMinutes', 'getSeconds', 'getTime',
+      'toDateString', 'toTimeString', 'toISOString', 'toString'
+    ]),
+    ...Object.fromEntries((['toLocaleDateString', 'toLocaleTimeString', 'toLocaleString'] as const).map(name => [
+      name,
+      (target: Date, [locale, options]: ExpressionValue[]) =>
+        target[name](locale === undefined ? undefined : toText(locale, name), toOptions(options, name) as Intl.DateTimeFormatOptions)
+    ]))
+  },
+  list: {
+    join: (target: ExpressionValue[], [separator]) => {
+      const items = target.map(item => item === null || item === undefined ? '' : String(item));
+      return joinTexts(items, separator === undefined ? ',' : toText(separator, 'join'));
+    },
+    includes: (target: ExpressionValue[], [value]) => target.includes(value),
+    indexOf: (target: ExpressionValue[], [value]) => target.indexOf(value),
+    slice: (target: ExpressionValue[], args) => target.slice(...primitiveArgs(args, 'slice') as number[])
+  }
+};
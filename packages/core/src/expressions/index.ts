@@ -0,0 +1,68 @@
+import type { EvaluationResult, ExpressionFunction, ExpressionNode, ExpressionScope, ExpressionValue } from './types';
+import { parseExpression } from './parser';
+import { Evaluator } from './evaluator';
+import { defaultFunctions } from './functions';
+import { indonesianFunctions } from './indonesian';
+import { localeTag } from '../messages';
+
+export interface ExpressionEngineOptions {
+  locale?: string; // document locale (id, en, ms) or a BCP 47 tag
+  holidays?: string[]; // yyyy-mm-dd dates skipped by hariKerja
+}
+
+/**
+ * Sandboxed evaluator for `${...}` expressions.
+ * Supports literals, arithmetic, comparisons, the conditional operator,
+ * member access into the scope (`meta`) and a whitelisted function library.
+ */
+export class ExpressionEngine {
+  private functions: Record<string, ExpressionFunction> = { ...defaultFunctions, ...indonesianFunctions };
+  private cache = new Map<string, ExpressionNode>();
+  private holidays: string[];
+  readonly locale: string;
+
+  constructor(options: ExpressionEngineOptions = {}) {
+    const locale = options.locale || 'id';
+    this.locale = localeTag(locale);
+    this.holidays = options.holidays || [];
+  }
+
+  /**
+   * Add or replace a global function
+   */
+  register(name: string, fn: ExpressionFunction): void {
+    this.functions[name] = fn;
+  }
+
+  parse(source: string): ExpressionNode {
+    let node = this.cache.get(source);
+    if (!node) {
+      node = parseExpression(source);
+      this.cache.set(source, node);
+    }
+    return node;
+  }
+
+  /**
+   * Evaluate an expression; throws ExpressionError with the offending position
+   */
+  evaluate(source: string, scope: ExpressionScope = {}): EvaluationResult {
+    return new Evaluator(scope, this.functions, { locale: this.locale, holidays: this.holidays, scope }).run(this.parse(source));
+  }
+
+  /**
+   * Text shown in the document for an evaluated value
+   */
+  format(value: ExpressionValue): string {
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return value.toLocaleDateString(this.locale);
+    if (Array.isArray(value)) return value.map(item => this.format(item)).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+}
+
+export * from './types';
+export { parseExpression } from './parser';
+export { defaultFunctions } from './functions';
+export { indonesianFunctions, spellNumber, formatTanggal, addBusinessDays } from './indonesian';
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { ExpressionEngine } from './index';
+
+const engine = new ExpressionEngine({ locale: 'id', holidays: ['2026-12-25'] });
+const evaluate = (source: string, scope = {}) => engine.evaluate(source, scope).value;
+
+describe('terbilang', () => {
+  test('spells whole numbers', () => {
+    expect(evaluate('terbilang(21140000)')).toBe('Dua Puluh Satu Juta Seratus Empat Puluh Ribu');
+    expect(evaluate('terbilang(1000)')).toBe('Seribu');
+    expect(evaluate('terbilang(1000000)')).toBe('Satu Juta');
+    expect(evaluate('terbilang(115)')).toBe('Seratus Lima Belas');
+    expect(evaluate('terbilang(0)')).toBe('Nol');
+    expect(evaluate('terbilang(-11)')).toBe('Minus Sebelas');
+  });
+
+  test('reads decimals digit by digit, rounded to two places', () => {
+    expect(evaluate('terbilang(2.5)')).toBe('Dua Koma Lima');
+    expect(evaluate('terbilang(0.1 + 0.2)')).toBe('Nol Koma Tiga');
+    expect(evaluate('terbilang(1.05)')).toBe('Satu Koma Nol Lima');
+    expect(evaluate('terbilang(1.999)')).toBe('Dua');
+  });
+
+  test('adds Rupiah or another suffix', () => {
+    expect(evaluate('terbilang(2500, true)')).toBe('Dua Ribu Lima Ratus Rupiah');
+    expect(evaluate("terbilang(12, 'Dolar')")).toBe('Dua Belas Dolar');
+  });
+});
+
+describe('rupiah', () => {
+  test('formats Indonesian currency', () => {
+    expect(evaluate('rupiah(21140000)')).toBe('Rp 21.140.000,00');
+    expect(evaluate('rupiah(21140000, 0)')).toBe('Rp 21.140.000');
+    expect(evaluate('rupiah(-1500.5)')).toBe('-Rp 1.500,50');
+  });
+});
+
+describe('ppn', () => {
+  test('takes the rate as a fraction', () => {
+    expect(evaluate('ppn(11%, 1000000)')).toBe(110000);
+    expect(evaluate('ppn(0.11, 1000000)')).toBe(110000);
+    expect(evaluate('ppn(100%, 500)')).toBe(500);
+    expect(evaluate('ppn(12%, 1001)')).toBe(120);
+  });
+
+  test('defaults to 11% of the value above', () => {
+    expect(evaluate('ppn()', { above: 200000 })).toBe(22000);
+  });
+
+  test('rejects a rate written as a whole percentage', () => {
+    expect(() => evaluate('ppn(11, 1000)')).toThrow('11% or 0.11');
+  });
+});
+
+describe('tanggal', () => {
+  test('formats dates in each form', () => {
+    expect(evaluate("tanggal('2026-10-19')")).toBe('Senin, 19 Oktober 2026');
+    expect(evaluate("tanggal('2026-10-19', 'sedang')")).toBe('19 Oktober 2026');
+    expect(evaluate("tanggal('2026-03-05', 'pendek')")).toBe('05/03/2026');
+    expect(evaluate("tanggal('2026-10-19', 'bulan')")).toBe('Oktober 2026');
+    expect(evaluate("tanggal('2026-10-19', 'hari')")).toBe('Senin');
+  });
+
+  test('rejects unknown forms', () => {
+    expect(() => evaluate("tanggal('2026-10-19', 'lengkap')")).toThrow("Unknown tanggal format 'lengkap'");
+  });
+});
+
+describe('hariKerja', () => {
+  const pendek = (source: string) => evaluate(`tanggal(${source}, 'pendek')`);
+
+  test('skips weekends', () => {
+    expect(pendek("hariKerja('2026-10-23', 1)")).toBe('26/10/2026');
+    expect(pendek("hariKerja('2026-10-19', 5)")).toBe('26/10/2026');
+    expect(pendek("hariKerja('2026-10-26', -1)")).toBe('23/10/2026');
+  });
+
+  test('skips holidays from the options and the argument', () => {
+    expect(pendek("hariKerja('2026-12-24', 1)")).toBe('28/12/2026');
+    expect(pendek("hariKerja('2026-10-23', 1, ['2026-10-26'])")).toBe('27/10/2026');
+  });
+});
@@ -0,0 +1,163 @@
+import { ExpressionFunction, ExpressionValue } from './types';
+import { toDate, toNumber, toText } from './functions';
+
+const SATUAN = ['', 'Satu', 'Dua', 'Tiga', 'Empat', 'Lima', 'Enam', 'Tujuh', 'Delapan', 'Sembilan', 'Sepuluh', 'Sebelas'];
+const SKALA = ['', 'Ribu', 'Juta', 'Miliar', 'Triliun', 'Kuadriliun'];
+const HARI = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+const BULAN = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'];
+
+/**
+ * Words for 0 < n < 1000
+ */
+function ratusan(n: number): string[] {
+  const words: string[] = [];
+  const ratus = Math.floor(n / 100);
+  const sisa = n % 100;
+
+  if (ratus === 1) words.push('Seratus');
+  else if (ratus > 1) words.push(SATUAN[ratus], 'Ratus');
+
+  if (sisa < 12) {
+    if (sisa > 0) words.push(SATUAN[sisa]);
+  } else if (sisa < 20) {
+    words.push(SATUAN[sisa % 10], 'Belas');
+  } else {
+    words.push(SATUAN[Math.floor(sisa / 10)], 'Puluh');
+    if (sisa % 10 > 0) words.push(SATUAN[sisa % 10]);
+  }
+
+  return words;
+}
+
+/**
+ * Spell out a whole number in Indonesian: 21140000 → Dua Puluh Satu Juta Seratus Empat Puluh Ribu
+ */
+export function spellNumber(value: number): string {
+  if (!Number.isFinite(value)) throw new RangeError('terbilang expects a finite number');
+  if (Math.abs(value) > Number.MAX_SAFE_INTEGER) throw new RangeError('terbilang supports numbers up to 9 kuadriliun');
+
+  const whole = Math.trunc(Math.abs(value));
+  if (whole === 0) return value < 0 ? 'Minus Nol' : 'Nol';
+
+  const words: string[] = [];
+  let rest = whole;
+  for (let scale = SKALA.length - 1; scale >= 0; scale--) {
+    const unit = Math.pow(1000, scale);
+    const group = Math.floor(rest / unit);
+    rest -= group * unit;
+    if (group === 0) continue;
+
+    // 1000 is "Seribu", but 1000000 is "Satu Juta"
+    if (group === 1 && scale === 1) {
+      words.push('Seribu');
+    } else {
+      words.push(...ratusan(group));
+      if (SKALA[scale]) words.push(SKALA[scale]);
+    }
+  }
+
+  return (value < 0 ? ['Minus', ...words] : words).join(' ');
+}
+
+/**
+ * Indonesian date text; `bentuk` is panjang (Senin, 19 Oktober 2026),
+ * sedang (19 Oktober 2026), pendek (19/10/2026), bulan (Oktober 2026) or hari (Senin)
+ */
+export function formatTanggal(date: Date, bentuk: string = 'panjang'): string {
+  const hari = date.getDate();
+  const bulan = date.getMonth();
+  const tahun = date.getFullYear();
+
+  switch (bentuk) {
+    case 'panjang':
+      return `${HARI[date.getDay()]}, ${hari} ${BULAN[bulan]} ${tahun}`;
+    case 'sedang':
+      return `${hari} ${BULAN[bulan]} ${tahun}`;
+    case 'pendek':
+      return `${String(hari).padStart(2, '0')}/${String(bulan + 1).padStart(2, '0')}/${tahun}`;
+    case 'bulan':
+      return `${BULAN[bulan]} ${tahun}`;
+    case 'hari':
+      return HARI[date.getDay()];
+    default:
+      throw new RangeError(`Unknown tanggal format '${bentuk}', use panjang, sedang, pendek, bulan or hari`);
+  }
+}
+
+function isoDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function toHolidays(value: ExpressionValue): string[] {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : [value];
+  return list.map(item =>
+    typeof item === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item) ? item : isoDay(toDate(item ?? '', 'hariKerja'))
+  );
+}
+
+/**
+ * Move `days` business days from `date`, skipping weekends and holidays (yyyy-mm-dd)
+ */
+export function addBusinessDays(date: Date, days: number, holidays: string[] = []): Date {
+  const result = new Date(date.getTime());
+  const step = days < 0 ? -1 : 1;
+  const skip = new Set(holidays);
+  let remaining = Math.abs(Math.trunc(days));
+  if (remaining > 10000) throw new RangeError('hariKerja is limited to 10000 days');
+
+  while (remaining > 0) {
+    result.setDate(result.getDate() + step);
+    const day = result.getDay();
+    if (day !== 0 && day !== 6 && !skip.has(isoDay(result))) {
+      remaining--;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Indonesian business helpers available in `${...}`
+ */
+export const indonesianFunctions: Record<string, ExpressionFunction> = {
+  terbilang: ([value, suffix]) => {
+    const number = toNumber(value, 'terbilang');
+    // Rounded to two decimals like an amount of money, so 0.1 + 0.2 is read as 0,3
+    const amount = Number.isInteger(number) ? number : Math.round(number * 100) / 100;
+    let words = spellNumber(amount);
+
+    // Decimals are read digit by digit: 2,5 → Dua Koma Lima
+    const fraction = String(Math.abs(amount)).split('.')[1];
+    if (fraction && !suffix) {
+      words += ' Koma ' + fraction.split('').map(digit => digit === '0' ? 'Nol' : SATUAN[Number(digit)]).join(' ');
+    }
+
+    if (suffix === true) return `${words} Rupiah`;
+    return suffix ? `${words} ${toText(suffix, 'terbilang')}` : words;
+  },
+
+  rupiah: ([value, decimals]) => {
+    const amount = toNumber(value, 'rupiah');
+    const digits = decimals === undefined ? 2 : toNumber(decimals, 'rupiah');
+    const formatted = Math.abs(amount).toLocaleString('id-ID', {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    });
+    return `${amount < 0 ? '-' : ''}Rp ${formatted}`;
+  },
+
+  tanggal: ([date, bentuk]) =>
+    formatTanggal(date === undefined ? new Date() : toDate(date, 'tanggal'), bentuk === undefined ? 'panjang' : toText(bentuk, 'tanggal')),
+
+  // PPN (VAT) of `base`, defaulting to the value above it in a table. The rate is a fraction: ppn(11%) or ppn(0.11)
+  ppn: ([rate, base], context) => {
+    const fraction = toNumber(rate ?? 0.11, 'ppn');
+    if (fraction < 0 || fraction > 1) throw new RangeError(`ppn expects a rate such as 11% or 0.11, not ${fraction}`);
+    const amount = toNumber(base === undefined ? context.scope.above : base, 'ppn');
+    return Math.round(amount * fraction);
+  },
+
+  hariKerja: ([date, days, holidays], context) =>
+    addBusinessDays(toDate(date, 'hariKerja'), toNumber(days, 'hariKerja'), [...context.holidays, ...toHolidays(holidays)])
+};
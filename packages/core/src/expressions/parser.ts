@@ -0,0 +1,309 @@
+import { ExpressionError, ExpressionNode } from './types';
+
+interface LexToken {
+  kind: 'number' | 'string' | 'identifier' | 'punctuator' | 'eof';
+  value: string;
+  position: number;
+}
+
+// Longest operators first so `===` wins over `==`
+const PUNCTUATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '?.',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}'
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7
+};
+
+const KEYWORDS: Record<string, boolean | null | undefined> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' };
+
+function tokenize(source: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // `.5` is a number, but `items.0` is member access
+    const afterOperand = tokens.length > 0 && (tokens[tokens.length - 1].kind === 'identifier' || /^[)\]]$/.test(tokens[tokens.length - 1].value));
+    if (/[0-9]/.test(char) || (char === '.' && !afterOperand && /[0-9]/.test(source[i + 1] || ''))) {
+      const start = i;
+      const match = source.slice(i).match(/^(?:\d+(?:_\d+)*)?(?:\.\d+)?(?:[eE][+-]?\d+)?/)!;
+      let value = match[0].replace(/_/g, '');
+      i += match[0].length;
+
+      // `11%` is a percentage when nothing follows that could be a modulo operand
+      const percent = source.slice(i).match(/^%\s*(?=$|[),\]}:?+\-*/])/);
+      if (percent) {
+        value = String(Number(value) / 100);
+        i += percent[0].length;
+      }
+      tokens.push({ kind: 'number', value, position: start });
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\') {
+          i++;
+          value += ESCAPES[source[i]] ?? source[i] ?? '';
+        } else {
+          value += source[i];
+        }
+        i++;
+      }
+      if (i >= source.length) {
+        throw new ExpressionError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][\w$]*/)!;
+      tokens.push({ kind: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, i));
+    // `a ?.5 : b` is a ternary, not optional chaining
+    if (punctuator && !(punctuator === '?.' && /[0-9]/.test(source[i + 2] || ''))) {
+      tokens.push({ kind: 'punctuator', value: punctuator, position: i });
+      i += punctuator.length;
+      continue;
+    }
+    if (char === '?') {
+      tokens.push({ kind: 'punctuator', value: '?', position: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ kind: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for the Aksara expression language:
+ * literals, arrays, objects, member access, calls, `new Date(...)`,
+ * unary/binary operators and the conditional operator.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: LexToken[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression();
+    const next = this.peek();
+    if (next.kind !== 'eof') {
+      throw new ExpressionError(`Unexpected '${next.value}'`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): LexToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): LexToken {
+    return this.tokens[this.index++];
+  }
+
+  private isPunctuator(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punctuator' && token.value === value;
+  }
+
+  private expect(value: string): LexToken {
+    const token = this.next();
+    if (token.kind !== 'punctuator' || token.value !== value) {
+      throw new ExpressionError(
+        token.kind === 'eof' ? `Expected '${value}' but the expression ended` : `Expected '${value}' but found '${token.value}'`,
+        token.position
+      );
+    }
+    return token;
+  }
+
+  private parseExpression(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.isPunctuator('?')) return test;
+
+    this.next();
+    const consequent = this.parseExpression();
+    this.expect(':');
+    const alternate = this.parseExpression();
+    return { type: 'conditional', test, consequent, alternate, position: test.position };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.kind === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) return left;
+
+      this.next();
+      const right = this.parseBinary(precedence);
+      left = { type: 'binary', operator: token.value, left, right, position: token.position };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.kind === 'punctuator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      this.next();
+      return { type: 'unary', operator: token.value, argument: this.parseUnary(), position: token.position };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'punctuator') return node;
+
+      if (token.value === '.' || token.value === '?.') {
+        this.next();
+        const optional = token.value === '?.';
+        if (optional && this.isPunctuator('[')) {
+          this.next();
+          const property = this.parseExpression();
+          this.expect(']');
+          node = { type: 'member', object: node, property, computed: true, optional, position: token.position };
+          continue;
+        }
+        const name = this.next();
+        if (name.kind !== 'identifier' && !(name.kind === 'number' && /^\d+$/.test(name.value))) {
+          throw new ExpressionError(`Expected a property name after '${token.value}'`, name.position);
+        }
+        node = {
+          type: 'member',
+          object: node,
+          property: { type: 'literal', value: name.value, position: name.position },
+          computed: false,
+          optional,
+          position: name.position
+        };
+      } else if (token.value === '[') {
+        this.next();
+        const property = this.parseExpression();
+        this.expect(']');
+        node = { type: 'member', object: node, property, computed: true, optional: false, position: token.position };
+      } else if (token.value === '(') {
+        this.next();
+        node = { type: 'call', callee: node, args: this.parseList(')'), position: node.position };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseList(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    while (!this.isPunctuator(close)) {
+      items.push(this.parseExpression());
+      if (!this.isPunctuator(close)) this.expect(',');
+    }
+    this.next();
+    return items;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value), position: token.position };
+
+      case 'string':
+        return { type: 'literal', value: token.value, position: token.position };
+
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value], position: token.position };
+        }
+        if (token.value === 'new') {
+          const callee = this.next();
+          if (callee.kind !== 'identifier') {
+            throw new ExpressionError("Expected a constructor name after 'new'", callee.position);
+          }
+          const args = this.isPunctuator('(') ? (this.next(), this.parseList(')')) : [];
+          return { type: 'new', callee: callee.value, args, position: token.position };
+        }
+        return { type: 'identifier', name: token.value, position: token.position };
+
+      case 'punctuator':
+        if (token.value === '(') {
+          const node = this.parseExpression();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'array', elements: this.parseList(']'), position: token.position };
+        }
+        if (token.value === '{') {
+          return this.parseObject(token.position);
+        }
+        throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+
+      default:
+        throw new ExpressionError('Unexpected end of expression', token.position);
+    }
+  }
+
+  private parseObject(position: number): ExpressionNode {
+    const properties: { key: string; value: ExpressionNode }[] = [];
+
+    while (!this.isPunctuator('}')) {
+      const key = this.next();
+      if (key.kind !== 'identifier' && key.kind !== 'string' && key.kind !== 'number') {
+        throw new ExpressionError('Expected a property name', key.position);
+      }
+      // Shorthand `{ locale }` reads the identifier of the same name
+      const value: ExpressionNode = this.isPunctuator(':')
+        ? (this.next(), this.parseExpression())
+        : { type: 'identifier', name: key.value, position: key.position };
+      properties.push({ key: key.value, value });
+      if (!this.isPunctuator('}')) this.expect(',');
+    }
+    this.next();
+
+    return { type: 'object', properties, position };
+  }
+}
+
+/**
+ * Parse expression source (the text between `${` and `}`) into an AST
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source)).parse();
+}
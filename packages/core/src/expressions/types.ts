@@ -0,0 +1,50 @@
+/**
+ * Value types produced by Aksara expressions. They mirror MetaValue so
+ * document metadata can be used directly as expression scope.
+ */
+export type ExpressionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Date
+  | ExpressionValue[]
+  | { [key: string]: ExpressionValue };
+
+export type ExpressionScope = Record<string, ExpressionValue>;
+
+export interface FunctionContext {
+  locale: string; // BCP 47 locale used by date and number helpers, e.g. id-ID
+  holidays: string[]; // yyyy-mm-dd dates skipped by hariKerja
+  scope: ExpressionScope; // variables of the expression being evaluated
+}
+
+export type ExpressionFunction = (args: ExpressionValue[], context: FunctionContext) => ExpressionValue;
+
+export type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue; position: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'array'; elements: ExpressionNode[]; position: number }
+  | { type: 'object'; properties: { key: string; value: ExpressionNode }[]; position: number }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; computed: boolean; optional: boolean; position: number }
+  | { type: 'call'; callee: ExpressionNode; args: ExpressionNode[]; position: number }
+  | { type: 'new'; callee: string; args: ExpressionNode[]; position: number }
+  | { type: 'unary'; operator: string; argument: ExpressionNode; position: number }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number };
+
+export interface EvaluationResult {
+  value: ExpressionValue;
+  missing: string[]; // member paths that resolved to nothing, e.g. meta.client.name
+}
+
+/**
+ * Parse or evaluation error with the offset inside the expression source
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'ExpressionError';
+  }
+}
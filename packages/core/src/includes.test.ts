@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AksaraConverter } from './index';
+
+const dir = mkdtempSync(join(tmpdir(), 'aksara-includes-'));
+writeFileSync(join(dir, 'bab-1.md'), '## Bab Satu\n\nIsi bab satu.\n');
+writeFileSync(join(dir, 'bab-2.md'), '## Bab Dua\n');
+writeFileSync(join(dir, 'bab-10.md'), '## Bab Sepuluh\n');
+writeFileSync(join(dir, 'loop.md'), '<!-- include: ./loop.md -->\n');
+mkdirSync(join(dir, 'bab'));
+writeFileSync(join(dir, 'bab', 'gambar.md'), '---\nsize: A5\n---\n\n![Diagram](img/diagram.png)\n\n```\n![Kode](img/kode.png)\n```\n');
+
+async function convert(markdown: string) {
+  const result = await new AksaraConverter({ format: 'html', sourceDir: dir, sourceFile: join(dir, 'main.md') }).convert(markdown);
+  return { html: result.data!.toString(), codes: (result.diagnostics ?? []).map(diagnostic => diagnostic.code) };
+}
+
+// `data-source-line` of the element holding `text`
+function sourceLine(html: string, text: string): number | undefined {
+  const match = html.match(new RegExp(`data-source-line="(\\d+)"[^>]*>[^<]*${text}`));
+  return match ? Number(match[1]) : undefined;
+}
+
+describe('includes', () => {
+  test('files are inserted in natural order', async () => {
+    const { html } = await convert('# Laporan\n\n<!-- include: ./bab-*.md -->\n');
+    expect(html.indexOf('Bab Satu')).toBeLessThan(html.indexOf('Bab Dua'));
+    expect(html.indexOf('Bab Dua')).toBeLessThan(html.indexOf('Bab Sepuluh'));
+  });
+
+  test('paths of included files are rebased, except in code, and their directives ignored', async () => {
+    const { html, codes } = await convert('# Laporan\n\n<!-- include: ./bab/gambar.md -->\n');
+    expect(html).toContain('src="bab/img/diagram.png"');
+    expect(html).toContain('![Kode](img/kode.png)');
+    expect(html).not.toContain('size: A5');
+    expect(codes).toEqual(['image-not-found']);
+  });
+
+  test('missing files and cycles are reported', async () => {
+    expect((await convert('<!-- include: ./hilang.md -->\n')).codes).toContain('include-not-found');
+    expect((await convert('<!-- include: ./loop.md -->\n')).codes).toContain('include-cycle');
+  });
+
+  test('lines keep their source line below an {{#each}}', async () => {
+    const markdown = [
+      '---',
+      'aksara: true',
+      'meta:',
+      '  items: [a, b, c, d, e, f, g]',
+      '---',
+      '',
+      '{{#each meta.items}}',
+      '- ${this}',
+      '{{/each}}',
+      '',
+      '## Penutup',
+      ''
+    ].join('\n');
+    const { html } = await convert(markdown);
+    expect(sourceLine(html, 'Penutup')).toBe(11);
+  });
+
+  test('included lines are numbered within their own file', async () => {
+    const { html } = await convert('# Laporan\n\n<!-- include: ./bab-1.md -->\n');
+    expect(html).toContain(`<h2 data-source-line="1" data-source-file="${join(dir, 'bab-1.md')}"`);
+    expect(html).toContain(`<p data-source-line="3" data-source-file="${join(dir, 'bab-1.md')}"`);
+    expect(sourceLine(html, 'Laporan')).toBe(1);
+  });
+});
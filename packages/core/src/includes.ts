@@ -0,0 +1,153 @@
+/**
+ * File includes for multi-file documents
+ * `<!-- include: ./bab-2.md -->` on its own line is replaced by the file's content,
+ * `<!-- include: ./bab-*.md -->` by every match in natural order (bab-2 before bab-10).
+ * Directives of included files are ignored; the root document's apply to everything.
+ */
+
+import { readFileSync, readdirSync, statSync, existsSync } from 'fs';
+import { dirname, resolve, relative, join, sep } from 'path';
+import { parseDirectives } from './directives';
+import type { SourceLocation } from './types';
+import type { BlockExpansion } from './blocks';
+
+export interface IncludeContext {
+  /** Directory of the root document; includes and rebased paths are relative to it */
+  rootDir: string;
+  /** Applied to the markdown of every file before its includes are resolved, with the source line of each resulting line */
+  transform: (text: string) => BlockExpansion;
+  /** `at` is the line of the include directive */
+  warn: (code: string, message: string, snippet: string, at: SourceLocation) => void;
+  /** Whether a file may be read, for sanitized input; refused files are reported as `unsafe-path` */
+  allowed?: (file: string) => boolean;
+}
+
+export interface ResolvedContent {
+  text: string;
+  lines: SourceLocation[]; // origin of every line of `text`
+}
+
+const INCLUDE_REGEX = /^ {0,3}<!--\s*include:\s*(.+?)\s*-->\s*$/;
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+// Image/link destinations, src/href attributes and CSS url() values
+const PATH_REGEX = /(\]\(\s*<?|\b(?:src|href)\s*=\s*["']|url\(\s*["']?)([^\s"'()<>]+)/g;
+const EXTERNAL_REGEX = /^(?:[a-z][a-z0-9+.-]*:|[\\/]|#|\$\{)/i;
+
+/**
+ * Number of lines before `content` in `source`, e.g. removed front matter
+ */
+export function contentLineOffset(source: string, content: string): number {
+  const start = content ? source.indexOf(content) : -1;
+  return start > 0 ? source.slice(0, start).split('\n').length - 1 : 0;
+}
+
+/**
+ * Resolve includes in `text`, the content of `file` starting at line `lineOffset + 1`
+ */
+export function resolveIncludes(text: string, file: string | undefined, lineOffset: number, context: IncludeContext): ResolvedContent {
+  return expand(text, file, context.rootDir, lineOffset, file ? [resolve(file)] : [], context);
+}
+
+function expand(
+  text: string,
+  file: string | undefined,
+  dir: string,
+  lineOffset: number,
+  stack: string[],
+  context: IncludeContext
+): ResolvedContent {
+  const output: string[] = [];
+  const lines: SourceLocation[] = [];
+  let fence: string | null = null;
+
+  const transformed = context.transform(text);
+  transformed.text.split(/\r?\n/).forEach((line, index) => {
+    const fenceMatch = line.match(FENCE_REGEX);
+    const include = !fence && !fenceMatch ? line.match(INCLUDE_REGEX) : null;
+
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+    } else if (fenceMatch) {
+      fence = fenceMatch[1];
+    }
+
+    const location = { file, line: (transformed.lines[index] ?? index) + 1 + lineOffset };
+    if (!include) {
+      output.push(fence || fenceMatch || dir === context.rootDir ? line : rebasePaths(line, dir, context.rootDir));
+      lines.push(location);
+      return;
+    }
+
+    const targets = findIncludes(include[1], dir);
+    if (targets.length === 0) {
+      context.warn('include-not-found', `Included file not found: ${include[1]}`, line.trim(), location);
+    }
+
+    for (const target of targets) {
+      if (stack.includes(target)) {
+        const chain = [...stack, target].map(path => relative(context.rootDir, path) || path).join(' → ');
+        context.warn('include-cycle', `Include cycle: ${chain}`, line.trim(), location);
+        continue;
+      }
+
+      if (context.allowed && !context.allowed(target)) {
+        context.warn('unsafe-path', `Include ${relative(context.rootDir, target) || target} refused, it is outside the document's directories`, line.trim(), location);
+        continue;
+      }
+
+      let source: string;
+      try {
+        source = readFileSync(target, 'utf-8').replace(/^\uFEFF/, '');
+      } catch (error) {
+        context.warn('include-error', `Could not read ${include[1]}: ${error instanceof Error ? error.message : error}`, line.trim(), location);
+        continue;
+      }
+
+      const { content } = parseDirectives(source);
+      const included = expand(content, target, dirname(target), contentLineOffset(source, content), [...stack, target], context);
+      output.push(included.text);
+      lines.push(...included.lines);
+    }
+  });
+
+  return { text: output.join('\n'), lines };
+}
+
+/**
+ * Files matching an include path; `*` and `?` match within one path segment
+ */
+function findIncludes(pattern: string, dir: string): string[] {
+  const path = resolve(dir, pattern);
+  if (!/[*?]/.test(pattern)) {
+    return existsSync(path) && statSync(path).isFile() ? [path] : [];
+  }
+
+  const segments = path.split(/[\\/]/);
+  const first = segments.findIndex(segment => /[*?]/.test(segment));
+  let matches = [segments.slice(0, first).join(sep) || sep];
+
+  for (const segment of segments.slice(first)) {
+    const regex = new RegExp(`^${segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+    matches = matches.flatMap(base => {
+      try {
+        return readdirSync(base)
+          .filter(name => regex.test(name))
+          .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+          .map(name => join(base, name));
+      } catch {
+        return []; // not a directory
+      }
+    });
+  }
+
+  return matches.filter(match => statSync(match).isFile());
+}
+
+/**
+ * Make relative paths of an included file relative to the root document
+ */
+function rebasePaths(line: string, dir: string, rootDir: string): string {
+  return line.replace(PATH_REGEX, (match, prefix: string, path: string) =>
+    EXTERNAL_REGEX.test(path) ? match : prefix + relative(rootDir, resolve(dir, path)).split(sep).join('/')
+  );
+}
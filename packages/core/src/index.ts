@@ -4,20 +4,40 @@
  */
 
 import { readFileSync, existsSync } from 'fs';
-import { join, dirname, resolve, isAbsolute, basename, extname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 
-import { ConvertOptions, DocumentMetadata, AksaraDirectives, DocumentSection, ConvertResult } from './types';
+import { ConvertOptions, DocumentMetadata, AksaraDirectives, DocumentSection, ConvertResult, DocumentMeta, MergeOptions, MergeResult, MergeDocument, SourceLocation } from './types';
 import { HtmlConverter } from './converters/html-converter';
-import { PdfConverter } from './converters/pdf-converter';
+import { PdfConverter, openPdfPage } from './converters/pdf-converter';
 import { PptxConverter } from './converters/pptx-converter';
-import { aksaraDraw } from './aksara-draw';
+import { MarkdownProcessor, splitSections, extractSectionDirectives, findExpressionEnd } from './markdown';
+import { parseDirectives } from './directives';
+import { PluginRegistry, AksaraPlugin, ConvertContext } from './plugins';
+import { DiagnosticCollector, formatDiagnostic } from './diagnostics';
+import { ExpressionEngine, ExpressionError, ExpressionScope, ExpressionValue } from './expressions';
+import { loadDataFile, resolveDataPath } from './data';
+import { expandBlocksWithLines, BlockContext } from './blocks';
+import { resolveIncludes, contentLineOffset } from './includes';
+import { loadBibliography } from './bibliography';
+import { resolveSanitizePolicy, isSafeUrl, isInsideDirectories, SanitizePolicy } from './sanitize';
+import { AssetResolver } from './assets';
+import type { Bibliography, Located } from './markdown';
+import type { Page } from 'puppeteer';
 
 export class AksaraConverter {
   private options: ConvertOptions;
   private metadata: DocumentMetadata;
   private directives: AksaraDirectives;
   private sections: DocumentSection[];
+  private markdown: MarkdownProcessor;
+  private diagnostics: DiagnosticCollector;
+  private assets: AssetResolver;
+  private expressions: ExpressionEngine;
+  private variables: ExpressionScope = {};
+  private data: ExpressionScope = {};
+  private plugins: PluginRegistry;
+  private sanitize: SanitizePolicy | undefined;
 
   constructor(options: ConvertOptions = { format: 'html' }) {
     this.options = {
@@ -29,6 +49,26 @@ export class AksaraConverter {
     this.metadata = {};
     this.directives = { aksara: false };
     this.sections = [];
+    this.diagnostics = new DiagnosticCollector();
+    this.assets = this.createAssetResolver();
+    this.expressions = new ExpressionEngine({ locale: this.options.locale, holidays: this.options.holidays });
+    this.sanitize = resolveSanitizePolicy(this.options.sanitize);
+    this.plugins = new PluginRegistry(() => ({
+      format: this.options.format,
+      locale: this.expressions.locale,
+      directives: this.directives,
+      warn: (code, message) => this.diagnostics.warn(code, message)
+    }));
+    this.markdown = this.createMarkdownProcessor();
+  }
+
+  /**
+   * Register a plugin: fenced block renderers, inline syntax, directive keys and conversion hooks.
+   * A plugin with the same name replaces the earlier one.
+   */
+  use(plugin: AksaraPlugin): this {
+    this.plugins.add(plugin);
+    return this;
   }
 
   /**
@@ -42,335 +82,268 @@ export class AksaraConverter {
    * Convert markdown to specified format
    */
   async convert(markdown: string): Promise<ConvertResult> {
-    try {
-      const { content, directives } = this.parseAksaraDirectives(markdown);
-      this.directives = directives;
-      this.sections = this.parseSections(content);
+    return this.render(markdown, () => this.prepare(markdown));
+  }
 
-      switch (this.options.format) {
-        case 'html':
-          return await this.createHtmlConverter().convert();
-        case 'pdf':
-          return await this.createPdfConverter().convert();
-        case 'pptx':
-          return await this.createPptxConverter().convert();
-        default:
-          throw new Error(`Unsupported format: ${this.options.format}`);
+  /**
+   * Mail merge: render the template once per row, with the row's fields as `meta`.
+   * Filenames come from `options.filename` (`surat-${nomor}.pdf`), evaluated with the row.
+   * With `options.combined` the rows' sections are also put together into a single document.
+   * PDFs of all rows are printed in one browser.
+   */
+  async merge(markdown: string, rows: DocumentMeta[], options: MergeOptions = {}): Promise<MergeResult> {
+    const pattern = options.filename || `document-\${number}.${this.options.format}`;
+    const documents: MergeDocument[] = [];
+    const sections: DocumentSection[] = [];
+    const assets: AssetResolver[] = [];
+    // Without a browser here, each row reports why it could not launch one
+    const page = this.options.format === 'pdf' ? await openPdfPage().catch(() => undefined) : undefined;
+
+    try {
+      for (const [index, row] of rows.entries()) {
+        let name: Pick<MergeDocument, 'filename' | 'filenameError'> | undefined;
+        const result = await this.render(markdown, () => {
+          const rowSections = this.prepare(markdown, row);
+          // Evaluated with the row's data, problems are reported with the row
+          name = this.mergeFilename(pattern, row, index);
+          if (options.combined) sections.push(...this.resolveHeaders(rowSections));
+          return rowSections;
+        }, page);
+        documents.push({ index, ...(name ?? this.mergeFilename(pattern, row, index)), result });
+        assets.push(this.assets);
       }
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+
+      if (!options.combined) return { documents };
+
+      const combined = await this.render(markdown, () => {
+        assets.forEach(rowAssets => this.assets.adopt(rowAssets));
+        return sections.map((section, index) => ({ ...section, index: index + 1 }));
+      }, page);
+      return { documents, combined };
+    } finally {
+      await page?.browser().close();
     }
   }
 
   /**
-   * Parse Aksara directives from HTML comment block
+   * Headers and footers of one row's sections with page numbers and expressions filled in,
+   * before the next row replaces `meta`
    */
-  private parseAksaraDirectives(markdown: string): { content: string; directives: AksaraDirectives } {
-    const directiveRegex = /<!--\s*([\s\S]*?)\s*-->/;
-    const match = markdown.match(directiveRegex);
-    const directives: AksaraDirectives = { aksara: false };
-
-    if (match) {
-      const directiveBlock = match[1];
-      const content = markdown.replace(match[0], '').trim();
-
-      directiveBlock.split('\n').forEach(line => {
-        const trimmed = line.trim();
-        if (!trimmed) return;
-
-        if (trimmed.startsWith('aksara:') && trimmed.replace('aksara:', '').trim() === 'true') {
-          directives.aksara = true;
-        } else if (trimmed.startsWith('type:')) {
-          directives.type = trimmed.replace('type:', '').trim() as 'document' | 'presentation';
-        } else if (trimmed.startsWith('style:')) {
-          directives.style = trimmed.replace('style:', '').trim();
-        } else if (trimmed.startsWith('size:')) {
-          directives.size = trimmed.replace('size:', '').trim();
-        } else if (trimmed.startsWith('header:')) {
-          directives.header = trimmed.replace('header:', '').trim();
-        } else if (trimmed.startsWith('footer:')) {
-          directives.footer = trimmed.replace('footer:', '').trim();
-        } else if (trimmed.startsWith('background:')) {
-          directives.background = trimmed.replace('background:', '').trim();
-        } else if (trimmed.startsWith('meta:')) {
-          directives.meta = {};
-        } else if (directives.meta !== undefined && trimmed.includes(':')) {
-          // Parse any meta field dynamically: "fieldname: value"
-          const colonIndex = trimmed.indexOf(':');
-          const key = trimmed.substring(0, colonIndex).trim();
-          let value = trimmed.substring(colonIndex + 1).trim();
-
-          // Strip surrounding quotes if present
-          if ((value.startsWith('"') && value.endsWith('"')) ||
-              (value.startsWith("'") && value.endsWith("'"))) {
-            value = value.substring(1, value.length - 1);
-          }
-
-          if (key && value) {
-            directives.meta[key] = value;
-
-            // Also update DocumentMetadata for known fields
-            if (key === 'title') {
-              this.metadata.title = value;
-            } else if (key === 'subtitle') {
-              this.metadata.subtitle = value;
-            } else if (key === 'author') {
-              this.metadata.author = value;
-            }
-          }
-        }
-      });
-
-      return { content, directives };
-    }
-
-    return { content: markdown, directives };
+  private resolveHeaders(sections: DocumentSection[]): DocumentSection[] {
+    const { header, footer } = this.directives;
+    const resolve = (text: string | false | undefined, index: number) => text && this.resolveExpressions(
+      text.replace(/\[page\]/g, String(index + 1)).replace(/\[total\]/g, String(sections.length))
+    );
+    return sections.map((section, index) => ({
+      ...section,
+      header: resolve(section.header ?? header, index),
+      footer: resolve(section.footer ?? footer, index)
+    }));
   }
 
   /**
-   * Parse content into sections (split by ---) and extract class comments
+   * Parse directives, load data, resolve includes and render the sections; `meta` fields override the document's
    */
-  private parseSections(content: string): DocumentSection[] {
-    const sections = content.split(/^---$/m).map(section => section.trim()).filter(Boolean);
+  private prepare(markdown: string, meta?: DocumentMeta): DocumentSection[] {
+    const { content, directives, metadata } = parseDirectives(markdown, this.plugins.directives());
+    this.directives = meta ? { ...directives, meta: { ...directives.meta, ...meta } } : directives;
+    this.metadata = { ...this.metadata, ...metadata };
+    this.sanitizeDirectives();
+    this.variables = {};
+    this.data = this.loadData();
+
+    const blocks = this.createBlockContext();
+    const { text, lines } = resolveIncludes(content, this.options.sourceFile, contentLineOffset(markdown, content), {
+      rootDir: this.options.sourceDir || this.options.basePath || process.cwd(),
+      transform: text => expandBlocksWithLines(text, this.getScope(), blocks),
+      warn: (code, message, snippet, at) => this.diagnostics.within({ raw: snippet ?? '', source: at }, () => this.diagnostics.warn(code, message, snippet)),
+      allowed: this.sanitize ? file => isInsideDirectories(file, this.readableDirectories()) : undefined
+    });
+    return this.parseSections(text, lines);
+  }
 
-    return sections.map((sectionContent, index) => {
-      // Extract class comment from section content
-      const classCommentRegex = /<!--\s*class:\s*([^-]*?)\s*-->/;
-      const classMatch = sectionContent.match(classCommentRegex);
+  /**
+   * Untrusted documents can't load a CSS file from the server, nor use background URLs with schemes outside the policy
+   */
+  private sanitizeDirectives(): void {
+    if (!this.sanitize) return;
+    const { style, background } = this.directives;
+    if (style) {
+      this.diagnostics.warn('unsafe-directive', `style: ${style} ignored, CSS files are not loaded for sanitized input`, style);
+    }
+    this.directives = { ...this.directives, style: undefined, background: this.safeBackground(background) };
+  }
 
-      let classes = '';
-      let cleanContent = sectionContent;
+  /**
+   * Where sanitized documents may read files: their own directory and the asset paths
+   */
+  private readableDirectories(): string[] {
+    const { sourceDir, basePath, assetPaths = [] } = this.options;
+    const root = basePath || process.cwd();
+    const dirs = sourceDir || basePath ? [sourceDir, basePath] : [root];
+    return [...dirs, ...assetPaths.map(path => resolve(root, path))].filter((dir): dir is string => !!dir);
+  }
 
-      if (classMatch) {
-        classes = classMatch[1].trim();
-        // Remove the class comment from content
-        cleanContent = sectionContent.replace(classCommentRegex, '').trim();
-      }
+  /**
+   * Whether a data, bibliography or image file may be read; for sanitized input only inside readableDirectories()
+   */
+  private canRead(file: string, path: string): boolean {
+    if (!this.sanitize || isInsideDirectories(file, this.readableDirectories())) return true;
+    this.diagnostics.warn('unsafe-path', `${path} refused, it is outside the document's directories`, path);
+    return false;
+  }
 
-      return {
-        content: cleanContent,
-        index: index + 1,
-        html: this.markdownToHtml(cleanContent),
-        classes: classes || undefined
-      };
-    });
+  private safeBackground<T extends string | false | undefined>(background: T): T | undefined {
+    if (!this.sanitize || typeof background !== 'string' || isSafeUrl(background, this.sanitize, true)) return background;
+    this.diagnostics.warn('unsafe-url', `Background ${background} removed, its scheme is not allowed`, background);
+    return undefined;
   }
 
   /**
-   * Enhanced markdown to HTML converter with Indonesian support
+   * @param page Browser page shared by several PDF conversions, see merge()
    */
-  private markdownToHtml(markdown: string): string {
-    // First, evaluate JavaScript expressions before any other processing
-    let html = this.evaluateJavaScriptExpressions(markdown);
-
-    // Process code blocks FIRST (before inline code and tables) to prevent interference
-    const codeBlocks: string[] = [];
-    html = html.replace(/```([\w-]+)?[ \t]*\n([\s\S]*?)```/g, (match, lang, code) => {
-      let codeHtml;
-      const trimmedLang = lang ? lang.trim() : '';
-      if (trimmedLang === 'mermaid') {
-        // Detect Gantt charts for special styling
-        const isGantt = code.trim().toLowerCase().includes('gantt');
-        const ganttClass = isGantt ? ' gantt-chart' : '';
-        codeHtml = `<pre class="mermaid${ganttClass}">${code.trim()}</pre>`;
-      } else if (trimmedLang === 'aksara-draw' || trimmedLang === 'aksara-org' || trimmedLang === 'aksara-flow') {
-        try {
-          const diagramType = trimmedLang === 'aksara-org' ? 'org' : trimmedLang === 'aksara-flow' ? 'flow' : undefined;
-          const diagram = aksaraDraw.parse(code.trim(), diagramType);
-          const svg = aksaraDraw.render(diagram);
-          codeHtml = `<div class="aksara-diagram">${svg}</div>`;
-        } catch (error) {
-          codeHtml = `<pre class="error">AksaraDraw Error: ${error instanceof Error ? error.message : 'Unknown error'}</pre>`;
-        }
-      } else {
-        codeHtml = `<pre><code class="language-${trimmedLang || 'plaintext'}">${this.escapeHtml(code)}</code></pre>`;
-      }
-      const placeholder = `<!--__CODE_BLOCK_${codeBlocks.length}__-->`;
-      codeBlocks.push(codeHtml);
-      return placeholder;
-    });
+  private async render(markdown: string, prepare: () => DocumentSection[], page?: Page): Promise<ConvertResult> {
+    this.diagnostics = new DiagnosticCollector(markdown, this.options.sourceFile);
+    this.assets = this.createAssetResolver();
+    this.variables = {};
+    this.data = {};
 
-    // Then parse tables
-    html = this.parseTable(html);
-
-    // Process block elements
-    html = html
-      .replace(/^# (.*$)/gm, '<h1>$1</h1>')
-      .replace(/^## (.*$)/gm, '<h2>$1</h2>')
-      .replace(/^### (.*$)/gm, '<h3>$1</h3>')
-      .replace(/^#### (.*$)/gm, '<h4>$1</h4>');
-
-    // Process nested lists
-    html = this.processLists(html);
-
-    // Process inline elements (AFTER code blocks to avoid interference)
-    html = html
-      .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (match, alt, src) => {
-        // Extract image type identifier and positioning
-        const typeMatch = alt.match(/^(bg|fg|lg|wm)\b/);
-        const posMatch = alt.match(/([trblxywh]):\s*([^;\s]+)/g);
-
-        // Determine z-index from type
-        const zIndexMap = { 'wm': 0, 'bg': 1, 'fg': 2, 'lg': 3 };
-        const imageType = typeMatch ? typeMatch[1] : null;
-        const zIndex = imageType ? zIndexMap[imageType as keyof typeof zIndexMap] : 'auto';
-
-        let style = 'max-width: 100%; height: auto;';
-        let hasPositioning = imageType && posMatch && posMatch.some((pos: string) => pos.match(/^[trblxy]:/));
-        let hasSizing = posMatch && posMatch.some((pos: string) => pos.match(/^[wh]:/));
-
-        if (hasPositioning) {
-          const styleMap = {
-            't': 'top', 'r': 'right', 'b': 'bottom', 'l': 'left',
-            'x': 'left', 'y': 'top', // legacy aliases
-            'w': 'width', 'h': 'height'
-          };
-          let positionStyle = `position: absolute; z-index: ${zIndex}; `;
-
-          posMatch!.forEach((pos: string) => {
-            const [key, value] = pos.split(':').map((s: string) => s.trim());
-            if (styleMap[key as keyof typeof styleMap]) {
-              positionStyle += `${styleMap[key as keyof typeof styleMap]}: ${value}; `;
-            }
-          });
-          style = positionStyle;
-        } else if (hasSizing) {
-          // Handle standalone sizing (w: and h:) without positioning
-          let sizeStyle = '';
-          posMatch!.forEach((pos: string) => {
-            const [key, value] = pos.split(':').map((s: string) => s.trim());
-            if (key === 'w') {
-              sizeStyle += `width: ${value}; `;
-            } else if (key === 'h') {
-              sizeStyle += `height: ${value}; `;
-            }
-          });
-          if (sizeStyle) {
-            style = sizeStyle + 'object-fit: contain;';
-          }
-        }
-
-        // Clean alt text
-        const cleanAlt = alt.replace(/^(bg|fg|lg|wm)\s*/, '').replace(/\s*[trblxywh]:[^;\s]+/g, '').trim();
-        const convertedSrc = this.convertImagePath(src);
-
-        if (hasPositioning) {
-          return `<div class="image-${imageType}" style="${style}"><img src="${convertedSrc}" alt="${cleanAlt}" style="width: 100%; height: 100%; object-fit: fill;"></div>`;
-        }
-
-        return `<img src="${convertedSrc}" alt="${cleanAlt}" style="${style}">`;
-      })
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/`(.*?)`/g, '<code>$1</code>');
-
-
-    // Split into lines and wrap paragraphs more carefully
-    const lines = html.split('\n');
-    const processedLines: string[] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      if (line === '') {
-        continue; // Skip empty lines
-      }
+    try {
+      this.sections = prepare();
+
+      const options = this.resolveOptions();
+      const context: ConvertContext = {
+        format: options.format,
+        options,
+        directives: this.directives,
+        metadata: this.metadata,
+        sections: this.sections
+      };
+      await this.plugins.beforeConvert(context);
+      this.sections = context.sections;
 
-      // Check if line contains code block placeholder (as HTML comment)
-      if (line.match(/<!--__CODE_BLOCK_\d+__-->/)) {
-        processedLines.push(line);
-      }
-      // Don't wrap block elements
-      else if (line.match(/^<(h[1-6]|ul|ol|li|table|div|header|footer|pre)/)) {
-        processedLines.push(line);
-      } else if (line.match(/^<\/(h[1-6]|ul|ol|li|table|div|header|footer|pre)/)) {
-        processedLines.push(line);
-      } else if (line.match(/^<(img|br|code|div)/)) {
-        processedLines.push(line);
-      } else if (line.match(/^<\/?(ul|ol)>/)) {
-        processedLines.push(line);
-      } else {
-        // Wrap in paragraph tags only if not empty
-        if (line.trim()) {
-          processedLines.push(`<p style="position: relative; z-index: 2;">${line}</p>`);
-        }
+      let result: ConvertResult;
+      switch (options.format) {
+        case 'html':
+          result = await this.createHtmlConverter(options).convert();
+          break;
+        case 'pdf':
+          result = await this.createPdfConverter(options).convert(page);
+          break;
+        case 'pptx':
+          result = await this.createPptxConverter(options).convert();
+          break;
+        default:
+          throw new Error(`Unsupported format: ${options.format}`);
       }
+
+      return this.withDiagnostics(await this.plugins.afterConvert(result, context));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.diagnostics.error('conversion-failed', message);
+      return this.withDiagnostics({ success: false, error: message });
     }
+  }
 
-    // Restore code blocks from placeholders BEFORE joining lines
-    const restoredLines = processedLines.map(line => {
-      let restoredLine = line;
-      codeBlocks.forEach((codeBlock, index) => {
-        restoredLine = restoredLine.replace(`<!--__CODE_BLOCK_${index}__-->`, codeBlock);
-      });
-      return restoredLine;
-    });
+  /**
+   * Output name for a merged row; characters not allowed in filenames become `-`.
+   * Why the pattern could not be filled in, such as a field the row lacks, is returned as `filenameError`.
+   */
+  private mergeFilename(pattern: string, row: DocumentMeta, index: number): Pick<MergeDocument, 'filename' | 'filenameError'> {
+    const reported = this.diagnostics.list().length;
+    const name = this.resolveExpressions(pattern, { ...row, index, number: index + 1 });
+    const filename = name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '-');
+    const problem = this.diagnostics.list()[reported];
+    return problem ? { filename, filenameError: problem.message } : { filename };
+  }
 
-    return restoredLines.join('\n');
-  }
-
-  private processLists(text: string): string {
-    const lines = text.split('\n');
-    const result: string[] = [];
-    const listStack: { indent: number; type: 'ul' | 'ol' }[] = [];
-
-    for (const line of lines) {
-      const ulMatch = line.match(/^(\s*)[-*] (.*)$/);
-      const olMatch = line.match(/^(\s*)\d+\. (.*)$/);
-      const match = ulMatch || olMatch;
-
-      if (match) {
-        const indent = match[1].length;
-        const content = match[2];
-        const type: 'ul' | 'ol' = ulMatch ? 'ul' : 'ol';
-
-        while (listStack.length > 0 && listStack[listStack.length - 1].indent > indent) {
-          const closed = listStack.pop()!;
-          result.push(`</${closed.type}>`);
-        }
-
-        if (listStack.length === 0 || listStack[listStack.length - 1].indent < indent) {
-          listStack.push({ indent, type });
-          result.push(`<${type}>`);
-        }
-
-        result.push(`<li>${content}</li>`);
-      } else {
-        while (listStack.length > 0) {
-          const closed = listStack.pop()!;
-          result.push(`</${closed.type}>`);
-        }
-        result.push(line);
-      }
+  /**
+   * Replace `${...}` expressions in plain text with their values; failures keep the expression
+   */
+  private resolveExpressions(text: string, local: ExpressionScope = {}): string {
+    let result = '';
+    let cursor = 0;
+    let start = text.indexOf('${');
+
+    while (start !== -1) {
+      const end = findExpressionEnd(text, start);
+      if (end === -1) break;
+      const value = this.evaluateExpression(text.slice(start + 2, end - 1).trim(), local);
+      result += text.slice(cursor, start) + (value ?? text.slice(start, end));
+      cursor = end;
+      start = text.indexOf('${', end);
     }
 
-    while (listStack.length > 0) {
-      const closed = listStack.pop()!;
-      result.push(`</${closed.type}>`);
+    return result + text.slice(cursor);
+  }
+
+  /**
+   * Attach collected diagnostics to a result; in strict mode any warning fails the conversion
+   */
+  private withDiagnostics(result: ConvertResult): ConvertResult {
+    const diagnostics = this.diagnostics.list();
+
+    if (result.success && this.options.strict && this.diagnostics.hasProblems()) {
+      const problems = diagnostics.filter(diagnostic => diagnostic.severity !== 'info');
+      return {
+        success: false,
+        error: `Strict mode: ${problems.length} problem(s) found, first: ${formatDiagnostic(problems[0])}`,
+        diagnostics
+      };
     }
 
-    return result.join('\n');
+    return { ...result, diagnostics };
   }
 
-  private parseTable(markdown: string): string {
-    const tableRegex = /^\|(.+)\|\s*\n\|[-\s|:]+\|\s*\n((?:\|.+\|\s*\n?)*)/gm;
-    return markdown.replace(tableRegex, (match, headerRow, bodyRows) => {
-      const headers = headerRow.split('|').map((h: string) => h.trim()).filter((h: string) => h);
-      const rows = bodyRows.trim().split('\n').map((row: string) =>
-        row.split('|').map((cell: string) => cell.trim()).filter((cell: string) => cell)
-      );
+  /**
+   * Options for the current conversion, falling back to the default theme when the requested one does not exist
+   */
+  private resolveOptions(): ConvertOptions {
+    const theme = this.options.theme || 'default';
+    if (existsSync(join(this.getTemplateDir(), 'styles/themes', `${theme}.css`))) {
+      return this.options;
+    }
+
+    this.diagnostics.warn('unknown-theme', `Theme '${theme}' not found, falling back to default`);
+    return { ...this.options, theme: 'default' };
+  }
 
-      const headerHtml = headers.map((h: string) => `<th>${h}</th>`).join('');
-      const bodyHtml = rows.map((row: string[]) =>
-        `<tr>${row.map((cell: string) => `<td>${cell}</td>`).join('')}</tr>`
-      ).join('');
+  /**
+   * Parse content into a token tree, split it into sections (by ---) and extract section directive comments.
+   * `lines` gives the file and line of every content line, recorded as each section's source.
+   */
+  private parseSections(content: string, lines: SourceLocation[] = []): DocumentSection[] {
+    const tokens = this.markdown.parse(content, lines);
+
+    const sections = splitSections(tokens);
+    const cleaned = sections.map(sectionTokens => extractSectionDirectives(sectionTokens, (code, message, snippet) => this.diagnostics.warn(code, message, snippet)));
+    this.markdown.selectLanguages(cleaned.map(section => section.tokens), this.directives.bilingual || 'single', this.getLanguage());
+    this.markdown.applyAbbreviations(cleaned.map(section => section.tokens));
+    this.markdown.buildOutline(cleaned.map(section => section.tokens), this.directives.numbering);
+    this.markdown.collectNotes(cleaned.map(section => section.tokens), this.loadBibliography());
+
+    return sections.map((sectionTokens, index) => {
+      const { tokens: cleanTokens, directives } = cleaned[index];
+      const { html, backgrounds, footnotes } = this.markdown.renderSection(cleanTokens);
+
+      const located = sectionTokens.filter(token => (token as Located).source) as Located[];
+      const first = located[0]?.source;
+      const last = located[located.length - 1]?.source;
+      const source: SourceLocation | undefined = first
+        ? { ...first, endLine: last && last.file === first.file ? last.endLine : undefined }
+        : lines[0];
 
-      // Add newline after table to ensure proper parsing of subsequent markdown elements
-      return `<table><thead><tr>${headerHtml}</tr></thead><tbody>${bodyHtml}</tbody></table>\n`;
+      return {
+        content: cleanTokens.map(token => token.raw).join('').trim(),
+        index: index + 1,
+        tokens: cleanTokens,
+        html,
+        backgroundHtml: backgrounds || undefined,
+        footnotesHtml: footnotes || undefined,
+        ...directives,
+        background: this.safeBackground(directives.background),
+        source
+      };
     });
   }
 
@@ -387,7 +360,7 @@ export class AksaraConverter {
       const fullPath = join(this.getTemplateDir(), templatePath);
       return readFileSync(fullPath, 'utf-8');
     } catch (error) {
-      console.warn(`Could not load template ${templatePath}, using fallback`);
+      this.diagnostics.warn('template-not-found', `Could not load template ${templatePath}, using fallback`);
       return '';
     }
   }
@@ -395,187 +368,209 @@ export class AksaraConverter {
   private replaceTemplateVars = (template: string, vars: Record<string, string>): string => {
     let result = template;
     for (const [key, value] of Object.entries(vars)) {
-      result = result.replace(new RegExp(`{{${key}}}`, 'g'), value);
+      // A function, so `$&` or `$'` in the content (a formula, a script) is inserted as written
+      result = result.replace(new RegExp(`{{${key}}}`, 'g'), () => value);
     }
     return result;
   }
 
-  private evaluateJavaScriptExpressions(text: string): string {
-    return text.replace(/\$\{([^}]+)\}/g, (match, expression) => {
-      try {
-        // Safely evaluate simple expressions
-        const result = this.safeEval(expression.trim());
-        return result !== undefined ? String(result) : match;
-      } catch (error) {
-        console.warn(`Failed to evaluate expression: ${expression}`, error);
-        return match; // Return original if evaluation fails
+  private evaluateExpression(expression: string, local: ExpressionScope = {}): string | undefined {
+    try {
+      const { value, missing } = this.expressions.evaluate(expression, this.getScope(local));
+
+      // Error handling: field not found
+      if ((value === undefined || value === null) && missing.length > 0) {
+        const path = missing[0];
+        const label = path.startsWith('meta.') ? `Metadata field not found: ${path.substring(5)}` : `Field not found: ${path}`;
+        this.diagnostics.warn('meta-not-found', label, expression);
+        return `[${path} not found]`;
       }
-    });
+
+      return this.expressions.format(value);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const position = error instanceof ExpressionError ? error.position : 0;
+      this.diagnostics.warn('expression-error', `Failed to evaluate expression \${${expression}}: ${message}`, expression, position);
+      return undefined; // Keep original if evaluation fails
+    }
   }
 
-  private safeEval(expression: string): any {
-    // Handle meta variable access: meta.fieldname
-    if (expression.startsWith('meta.')) {
-      const fieldName = expression.substring(5).trim();
-      if (this.directives.meta && fieldName in this.directives.meta) {
-        return this.directives.meta[fieldName];
-      }
-      // Error handling: field not found
-      console.warn(`Metadata field not found: ${fieldName}`);
-      return `[meta.${fieldName} not found]`;
+  /**
+   * Evaluate a table formula or block condition to its raw value; failures are reported and return undefined
+   */
+  private computeValue(expression: string, scope: ExpressionScope, code: string = 'formula-error'): ExpressionValue | undefined {
+    try {
+      return this.expressions.evaluate(expression, this.getScope(scope)).value;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const position = error instanceof ExpressionError ? error.position : 0;
+      this.diagnostics.warn(code, `Failed to evaluate ${code === 'formula-error' ? 'formula =' : ''}${expression}: ${message}`, expression, position);
+      return undefined;
     }
+  }
 
-    // Only allow safe expressions - primarily Date functions
-    if (expression.includes('new Date()')) {
-      // Handle date expressions
-      if (expression.includes('.toLocaleDateString(')) {
-        const match = expression.match(/new Date\(\)\.toLocaleDateString\(['"`]([^'"`]+)['"`]\)/);
-        if (match) {
-          const locale = match[1];
-          return new Date().toLocaleDateString(locale);
-        }
-        // Default locale
-        return new Date().toLocaleDateString();
-      }
-      if (expression.includes('.toDateString()')) {
-        return new Date().toDateString();
+  /**
+   * Variables visible to expressions: data files, table values defined so far, then `meta`
+   */
+  private getScope(local: ExpressionScope = {}): ExpressionScope {
+    return { ...this.data, ...this.variables, ...local, meta: this.directives.meta || {} };
+  }
+
+  /**
+   * Load the `data:` directive. A single file is available as `data` and its
+   * top-level fields directly (`${nomor}`); a map binds each file to its name.
+   */
+  private loadData(): ExpressionScope {
+    const files = this.directives.data;
+    if (!files) return {};
+
+    const load = (path: string): ExpressionValue | undefined => {
+      const filePath = resolveDataPath(path, [this.options.sourceDir, this.options.basePath, process.cwd()]);
+      if (!filePath) {
+        this.diagnostics.warn('data-not-found', `Data file not found: ${path}`, path);
+        return undefined;
       }
-      if (expression.includes('.getFullYear()')) {
-        return new Date().getFullYear();
+      if (!this.canRead(filePath, path)) return undefined;
+      try {
+        return loadDataFile(filePath);
+      } catch (error) {
+        this.diagnostics.warn('data-error', `Could not read data file ${path}: ${error instanceof Error ? error.message : error}`, path);
+        return undefined;
       }
-    }
+    };
 
-    // Handle Date constructor with offset (like due dates)
-    if (expression.includes('new Date(Date.now()')) {
-      const match = expression.match(/new Date\(Date\.now\(\)\s*([+\-])\s*([^)]+)\)\.toLocaleDateString\(['"`]([^'"`]+)['"`]\)/);
-      if (match) {
-        const operator = match[1];
-        const offsetExpr = match[2].trim();
-        const locale = match[3];
-
-        // Safely evaluate simple math expressions for date offset
-        if (/^[\d\s+\-*/().]+$/.test(offsetExpr)) {
-          const offset = Function(`"use strict"; return (${offsetExpr})`)();
-          const dateMs = operator === '+' ? Date.now() + offset : Date.now() - offset;
-          return new Date(dateMs).toLocaleDateString(locale);
-        }
-      }
+    if (typeof files === 'string') {
+      const value = load(files);
+      if (value === undefined) return {};
+      const fields = value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) ? value : {};
+      return { ...fields, data: value };
     }
 
-    // Handle simple math and string operations
-    if (/^[\d\s+\-*/().]+$/.test(expression)) {
-      return Function(`"use strict"; return (${expression})`)();
+    const scope: ExpressionScope = {};
+    for (const [name, path] of Object.entries(files)) {
+      const value = load(path);
+      if (value !== undefined) scope[name] = value;
     }
+    return scope;
+  }
 
-    // Handle simple string concatenation
-    if (expression.includes('+') && (expression.includes('"') || expression.includes("'"))) {
-      return Function(`"use strict"; return (${expression})`)();
+  /**
+   * Load the `bibliography:` directive; `citation:` picks the style
+   */
+  private loadBibliography(): Bibliography | undefined {
+    const path = this.directives.bibliography;
+    if (!path) return undefined;
+
+    const filePath = resolveDataPath(path, [this.options.sourceDir, this.options.basePath, process.cwd()]);
+    if (!filePath) {
+      this.diagnostics.warn('bibliography-not-found', `Bibliography file not found: ${path}`, path);
+      return undefined;
     }
+    if (!this.canRead(filePath, path)) return undefined;
+    try {
+      return { entries: loadBibliography(filePath), style: this.directives.citation || 'apa' };
+    } catch (error) {
+      this.diagnostics.warn('bibliography-error', `Could not read bibliography ${path}: ${error instanceof Error ? error.message : error}`, path);
+      return undefined;
+    }
+  }
+
+  /**
+   * Language of the `:::lang` blocks to show: the `language:` directive, or that of the locale (`en-GB` → en)
+   */
+  private getLanguage(): string {
+    return this.directives.language || (this.options.locale || 'id').split('-')[0].toLowerCase();
+  }
 
-    throw new Error(`Unsafe expression: ${expression}`);
+  private createBlockContext(): BlockContext {
+    let count = 0;
+    return {
+      value: (expression, scope) => this.computeValue(expression, scope, 'expression-error'),
+      evaluate: (expression, scope) => this.evaluateExpression(expression, scope),
+      bind: text => {
+        const name = `__block${++count}`;
+        this.variables[name] = text;
+        return name;
+      },
+      warn: (code, message, snippet) => this.diagnostics.warn(code, message, snippet)
+    };
   }
 
   /**
-   * Create converter instances
+   * Create the markdown processor and converter instances
    */
-  private createHtmlConverter(): HtmlConverter {
+  private createMarkdownProcessor(): MarkdownProcessor {
+    return new MarkdownProcessor({
+      evaluate: expression => this.evaluateExpression(expression),
+      resolveImage: src => this.convertImagePath(src),
+      warn: (code, message, snippet) => this.diagnostics.warn(code, message, snippet),
+      within: (token, process) => this.diagnostics.within({ raw: token.raw, source: (token as Located).source }, process),
+      locale: this.expressions.locale,
+      sourceFile: this.options.sourceFile,
+      compute: (expression, scope) => this.computeValue(expression, scope),
+      format: value => this.expressions.format(value),
+      define: (name, value) => { this.variables[name] = value; },
+      sanitize: this.sanitize
+    }, this.plugins);
+  }
+
+  private createHtmlConverter(options: ConvertOptions): HtmlConverter {
     return new HtmlConverter(
       this.sections,
       this.directives,
       this.metadata,
-      this.options,
+      options,
       this.loadTemplate,
-      this.replaceTemplateVars
+      this.replaceTemplateVars,
+      this.markdown,
+      this.diagnostics,
+      this.assets
     );
   }
 
-  private createPdfConverter(): PdfConverter {
+  private createPdfConverter(options: ConvertOptions): PdfConverter {
     return new PdfConverter(
       this.sections,
       this.directives,
       this.metadata,
-      this.options,
+      options,
       this.loadTemplate,
-      this.replaceTemplateVars
+      this.replaceTemplateVars,
+      this.markdown,
+      this.diagnostics,
+      this.assets
     );
   }
 
-  private createPptxConverter(): PptxConverter {
+  private createPptxConverter(options: ConvertOptions): PptxConverter {
     return new PptxConverter(
       this.sections,
       this.directives,
       this.metadata,
-      this.options,
+      options,
       this.loadTemplate,
-      this.replaceTemplateVars
+      this.replaceTemplateVars,
+      this.markdown,
+      this.diagnostics,
+      this.assets
     );
   }
 
+  /**
+   * Images of markdown content: embedded for PDF and PPTX, kept as relative paths for HTML unless `embedImages` is set
+   */
   private convertImagePath(imagePath: string): string {
-    if (imagePath.startsWith('http') || imagePath.startsWith('data:') || isAbsolute(imagePath)) {
-      return imagePath;
-    }
-
-    // For HTML exports, default to NOT embedding images (keep relative paths)
-    // For PDF/PPTX, default to embedding (self-contained file)
-    const shouldEmbed = this.options.embedImages ?? (this.options.format !== 'html');
-
-    if (!shouldEmbed) {
-      // Keep relative path as-is
-      return imagePath;
-    }
-
-    // Embed as base64
-    try {
-      const baseDir = this.options.basePath || process.cwd();
-      let absolutePath = resolve(baseDir, imagePath);
-
-      if (existsSync(absolutePath)) {
-        const fileData = readFileSync(absolutePath);
-        const mimeType = this.getMimeType(absolutePath);
-        const base64Data = fileData.toString('base64');
-        return `data:${mimeType};base64,${base64Data}`;
-      }
-
-      const altPath = resolve(baseDir, 'assets', basename(imagePath));
-      if (existsSync(altPath)) {
-        const fileData = readFileSync(altPath);
-        const mimeType = this.getMimeType(altPath);
-        const base64Data = fileData.toString('base64');
-        return `data:${mimeType};base64,${base64Data}`;
-      }
-
-      console.warn(`Image not found: ${imagePath}`);
-      return imagePath;
-    } catch (error) {
-      console.warn(`Error resolving image path ${imagePath}:`, error);
-      return imagePath;
-    }
-  }
-
-  private getMimeType(filePath: string): string {
-    const ext = extname(filePath).toLowerCase().slice(1);
-    const mimeTypes: Record<string, string> = {
-      'png': 'image/png',
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'gif': 'image/gif',
-      'svg': 'image/svg+xml',
-      'webp': 'image/webp',
-      'bmp': 'image/bmp'
-    };
-    return mimeTypes[ext || ''] || 'image/png';
+    return this.assets.url(imagePath, this.options.embedImages ?? this.options.format !== 'html');
   }
 
-  private escapeHtml(text: string): string {
-    const htmlEscapes: Record<string, string> = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#39;'
-    };
-    return text.replace(/[&<>"']/g, char => htmlEscapes[char]);
+  /**
+   * One resolver per conversion: the markdown file's directory, basePath (or the working directory), then `assetPaths`
+   */
+  private createAssetResolver(): AssetResolver {
+    const { sourceDir, basePath, assetPaths = [] } = this.options;
+    const root = basePath || process.cwd();
+    const searchPaths = [sourceDir, root, ...assetPaths.map(path => resolve(root, path))].filter((path): path is string => !!path);
+    return new AssetResolver([...new Set(searchPaths.map(path => resolve(path)))], this.diagnostics, (file, src) => this.canRead(file, src));
   }
 }
 
@@ -583,4 +578,24 @@ export class AksaraConverter {
 export const aksara = new AksaraConverter();
 
 // Export types and utilities
-export * from './types';
\ No newline at end of file
+export * from './types';
+export { MarkdownProcessor } from './markdown';
+export { DiagnosticCollector, formatDiagnostic } from './diagnostics';
+export { ExpressionEngine, ExpressionError, parseExpression } from './expressions';
+export type { ExpressionValue, ExpressionFunction, ExpressionScope } from './expressions';
+export { loadDataFile, parseCsv } from './data';
+export { expandBlocks } from './blocks';
+export { loadBibliography, parseBibtex, parseCslJson } from './bibliography';
+export type { BibEntry, CitationStyle } from './bibliography';
+export { getMessages, registerLocale, formatMessage } from './messages';
+export type { Messages, LocaleMessages } from './messages';
+export type { BlockContext } from './blocks';
+export { PluginRegistry } from './plugins';
+export { DEFAULT_SANITIZE_POLICY, sanitizeHtml, isSafeUrl } from './sanitize';
+export type { SanitizePolicy } from './sanitize';
+export { AssetResolver } from './assets';
+export type { Asset } from './assets';
+export type {
+  AksaraPlugin, BlockRenderer, InlineSyntax, DirectiveParser, PluginBlock, PluginContext, SlideContent, ConvertContext, OutputFormat
+} from './plugins';
+export type { Token as MarkdownToken, ImagePlacement, MarkdownContext } from './markdown';
\ No newline at end of file
@@ -0,0 +1,47 @@
+import type { Token, Tokens, MarkdownContext, AbbreviationToken, AbbrToken } from './types';
+
+type Walk = (tokens: Token[], visit: (token: Token) => void) => void;
+
+/**
+ * Mark every whole-word use of an abbreviation defined with `*[BUMN]: Badan Usaha Milik Negara`,
+ * anywhere in the document
+ */
+export function applyAbbreviations(sections: Token[][], walk: Walk, context: MarkdownContext): void {
+  const titles = new Map<string, string>();
+  walk(sections.flat(), token => {
+    if (token.type !== 'abbreviation') return;
+    const { abbr, title, raw } = token as unknown as AbbreviationToken;
+    if (titles.has(abbr)) {
+      context.warn('duplicate-abbreviation', `Abbreviation *[${abbr}] is defined more than once`, raw.trim());
+    } else {
+      titles.set(abbr, title);
+    }
+  });
+  if (titles.size === 0) return;
+
+  // Longest first for abbreviations starting with another (`PT` and `PT Tbk`); a letter or digit next to a match means another word
+  const abbreviations = [...titles.keys()].sort((a, b) => b.length - a.length);
+  const escaped = abbreviations.map(abbr => abbr.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${escaped.join('|')})(?![\\p{L}\\p{N}_])`, 'gu');
+
+  walk(sections.flat(), token => {
+    // Inline text only: block-level text tokens hold their inline tokens, escaped text is already HTML
+    if (token.type !== 'text' || 'tokens' in token && token.tokens || (token as Tokens.Text).escaped) return;
+
+    const text = (token as Tokens.Text).text;
+    const children: Token[] = [];
+    let cursor = 0;
+    for (const match of text.matchAll(pattern)) {
+      const before = text.slice(cursor, match.index);
+      if (before) children.push({ type: 'text', raw: before, text: before, escaped: false } as Token);
+      const abbr: AbbrToken = { type: 'abbr', raw: match[0], text: match[0], title: titles.get(match[0])! };
+      children.push(abbr as unknown as Token);
+      cursor = match.index + match[0].length;
+    }
+    if (children.length === 0) return;
+
+    const rest = text.slice(cursor);
+    if (rest) children.push({ type: 'text', raw: rest, text: rest, escaped: false } as Token);
+    (token as Tokens.Text).tokens = children;
+  });
+}
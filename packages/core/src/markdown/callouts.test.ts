@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { Marked } from 'marked';
+import { toCallout } from './callouts';
+import { aksaraMarkdownExtension, toPlainText } from './parser';
+import type { CalloutToken, Tokens } from './types';
+import { AksaraConverter } from '../index';
+
+const markdown = new Marked(aksaraMarkdownExtension);
+
+function callout(text: string, locale = 'id') {
+  const token = markdown.lexer(text)[0] as Tokens.Blockquote;
+  const converted = toCallout(token, locale);
+  const { kind, title, tokens } = token as unknown as CalloutToken;
+  return converted ? { kind, title: toPlainText(title), body: toPlainText(tokens) } : undefined;
+}
+
+async function convert(text: string) {
+  const result = await new AksaraConverter({ format: 'html' }).convert(text);
+  return result.data!.toString();
+}
+
+describe('toCallout', () => {
+  test('GitHub alerts and their Indonesian aliases', () => {
+    expect(callout('> [!NOTE]\n> Isi.')).toEqual({ kind: 'note', title: 'Catatan', body: 'Isi.' });
+    expect(callout('> [!CATATAN]\n> Isi.')?.kind).toBe('note');
+    expect(callout('> [!PERINGATAN]\n> Isi.')?.kind).toBe('warning');
+    expect(callout('> [!Awas]\n> Isi.')?.kind).toBe('caution');
+  });
+
+  test('text after the marker is the title', () => {
+    expect(callout('> [!WARNING] Hati-hati\n> Lantai licin.')).toEqual({ kind: 'warning', title: 'Hati-hati', body: 'Lantai licin.' });
+  });
+
+  test('the default title follows the locale', () => {
+    expect(callout('> [!TIP]\n> Isi.', 'en')?.title).toBe('Tip');
+    expect(callout('> [!IMPORTANT]\n> Isi.', 'id')?.title).toBe('Penting');
+  });
+
+  test('unknown markers and plain quotes stay blockquotes', () => {
+    expect(callout('> [!UNKNOWN]\n> Isi.')).toBeUndefined();
+    expect(callout('> Kutipan')).toBeUndefined();
+  });
+});
+
+describe('rendering', () => {
+  test('callouts become styled blocks', async () => {
+    const html = await convert('> [!PERINGATAN] Hati-hati\n> Lantai **licin**.\n');
+    expect(html).toContain('class="callout callout-warning">\n<p class="callout-title">Hati-hati</p>');
+    expect(html).toContain('Lantai <strong>licin</strong>.');
+  });
+
+  test('blockquotes nest', async () => {
+    const html = await convert('> Kutipan\n>\n> > bersarang\n');
+    expect(html).toMatch(/<blockquote[^>]*>\s*<p[^>]*>Kutipan<\/p>\s*<blockquote>\s*<p[^>]*>bersarang<\/p>/);
+  });
+});
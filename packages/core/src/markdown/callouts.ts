@@ -0,0 +1,58 @@
+import type { Token, Tokens, CalloutKind, CalloutToken } from './types';
+import { getMessages } from '../messages';
+
+const CALLOUT_REGEX = /^\[!(\w+)\][ \t]*/;
+
+// GitHub alert types and their Indonesian aliases
+const KINDS: Record<string, CalloutKind> = {
+  note: 'note',
+  catatan: 'note',
+  info: 'note',
+  tip: 'tip',
+  tips: 'tip',
+  saran: 'tip',
+  important: 'important',
+  penting: 'important',
+  warning: 'warning',
+  peringatan: 'warning',
+  caution: 'caution',
+  awas: 'caution',
+  bahaya: 'caution'
+};
+
+/**
+ * Turn `> [!NOTE]` / `> [!PERINGATAN] Judul` blockquotes into callouts. Text after
+ * the marker on the same line is the title, otherwise the kind's name in the document locale.
+ */
+export function toCallout(token: Tokens.Blockquote, locale: string): boolean {
+  const first = token.tokens[0];
+  const inline = first?.type === 'paragraph' ? (first as Tokens.Paragraph).tokens : undefined;
+  const marker = inline?.[0]?.type === 'text' ? inline[0].text.match(CALLOUT_REGEX) : null;
+  const kind: CalloutKind | undefined = marker ? KINDS[marker[1].toLowerCase()] : undefined;
+  if (!inline || !marker || !kind) return false;
+
+  const text = inline[0] as Tokens.Text;
+  text.text = text.text.slice(marker[0].length);
+  text.raw = text.raw.replace(CALLOUT_REGEX, '');
+  if (!text.text) inline.shift();
+
+  // The title is the rest of the marker line, the body starts after the line break
+  const lineEnd = inline.findIndex(child => child.type === 'br');
+  const title = lineEnd === -1 ? inline.splice(0) : inline.splice(0, lineEnd);
+  if (inline[0]?.type === 'br') inline.shift();
+  if (inline.length === 0) token.tokens.shift();
+
+  const label = getMessages(locale).callouts[kind];
+  const callout: CalloutToken = {
+    type: 'callout',
+    raw: token.raw,
+    kind,
+    title: title.some(child => child.type !== 'text' || child.text.trim())
+      ? title
+      : [{ type: 'text', raw: label, text: label, escaped: false } as Token],
+    tokens: token.tokens
+  };
+
+  Object.assign(token, callout);
+  return true;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { matchContainer, parseColumns } from './containers';
+import type { Token } from './types';
+import { AksaraConverter } from '../index';
+
+// Each column's markdown as a single text token, to see how the body was split
+const lex = (markdown: string): Token[] => [{ type: 'text', raw: markdown, text: markdown.trim() } as Token];
+const texts = (tokens: Token[]) => tokens.map(token => ('text' in token ? token.text : ''));
+
+async function convert(markdown: string) {
+  const result = await new AksaraConverter({ format: 'html' }).convert(markdown);
+  return result.data!.toString();
+}
+
+describe('matchContainer', () => {
+  test('nested containers close innermost first', () => {
+    const container = matchContainer(':::columns 2 1\n:::col\nKiri\n:::\n:::\nSetelahnya\n', ['columns']);
+    expect(container).toEqual({ raw: ':::columns 2 1\n:::col\nKiri\n:::\n:::\n', name: 'columns', args: '2 1', body: ':::col\nKiri\n:::' });
+  });
+
+  test('colons inside code fences are content', () => {
+    const container = matchContainer(':::col\n```\n:::\n```\n:::\n', ['col']);
+    expect(container?.body).toBe('```\n:::\n```');
+  });
+
+  test('unclosed and unknown containers are not matched', () => {
+    expect(matchContainer(':::columns\nbelum ditutup', ['columns'])).toBeNull();
+    expect(matchContainer(':::lainnya\nx\n:::', ['columns'])).toBeNull();
+  });
+});
+
+describe('parseColumns', () => {
+  test('widths and alignment come from :::columns and :::col', () => {
+    const container = matchContainer(':::columns 2 1\n:::col\nKiri\n:::\n:::col right 30%\nKanan\n:::\n:::\n', ['columns'])!;
+    const { tokens } = parseColumns(container, lex);
+    expect(tokens.map(column => [column.width, column.align])).toEqual([['2fr', undefined], ['30%', 'right']]);
+    expect(tokens.map(column => texts(column.tokens)[0])).toEqual(['Kiri', 'Kanan']);
+  });
+
+  test('content outside :::col is a column of its own', () => {
+    const container = matchContainer(':::columns\nSatu\n:::col\nDua\n:::\n:::\n', ['columns'])!;
+    expect(parseColumns(container, lex).tokens.map(column => texts(column.tokens)[0])).toEqual(['Satu', 'Dua']);
+  });
+});
+
+describe('rendering', () => {
+  test('columns become a CSS grid with any markdown inside', async () => {
+    const html = await convert(':::columns 2 1\n:::col\n## Kiri\n\nTeks **kiri**.\n:::\n:::col right\nKanan\n:::\n:::\n');
+    expect(html).toContain('class="columns" style="grid-template-columns: 2fr 1fr"');
+    expect(html).toMatch(/class="column">\s*<h2[^>]*>Kiri<\/h2>\s*<p[^>]*>Teks <strong>kiri<\/strong>\.<\/p>/);
+    expect(html).toContain('class="column" style="text-align: right"');
+  });
+});
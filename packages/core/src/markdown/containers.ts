@@ -0,0 +1,86 @@
+import type { Token, ColumnsToken, ColumnToken } from './types';
+
+const OPEN_REGEX = /^ {0,3}:{3,}\s*([a-z][\w-]*)[ \t]*(.*)$/i;
+const CLOSE_REGEX = /^ {0,3}:{3,}\s*$/;
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+const ALIGNMENTS = ['left', 'center', 'right'];
+
+export interface Container {
+  raw: string;
+  name: string;
+  args: string;
+  body: string;
+}
+
+/**
+ * Match a `:::name args` ... `:::` container at the start of `src`. Containers nest,
+ * each `:::` closes the innermost one; colons inside code fences are ignored.
+ */
+export function matchContainer(src: string, names: string[]): Container | null {
+  const lines = src.split('\n');
+  const open = lines[0].match(OPEN_REGEX);
+  if (!open || !names.includes(open[1].toLowerCase())) return null;
+
+  let depth = 1;
+  let fence: string | null = null;
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(FENCE_REGEX);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+    } else if (OPEN_REGEX.test(line)) {
+      depth++;
+    } else if (CLOSE_REGEX.test(line) && --depth === 0) {
+      const raw = lines.slice(0, i + 1).join('\n') + (i + 1 < lines.length ? '\n' : '');
+      return { raw, name: open[1].toLowerCase(), args: open[2].trim(), body: lines.slice(1, i).join('\n') };
+    }
+  }
+
+  return null; // unclosed, left as text
+}
+
+/**
+ * Column width as a grid track: plain numbers are fractions (`2` → `2fr`)
+ */
+function toTrack(value: string): string {
+  return /^\d+(\.\d+)?$/.test(value) ? `${value}fr` : value;
+}
+
+/**
+ * Split a `:::columns` body into its `:::col` children; `lex` turns markdown into block tokens
+ */
+export function parseColumns(container: Container, lex: (markdown: string) => Token[]): ColumnsToken {
+  const widths = container.args.split(/\s+/).filter(Boolean).map(toTrack);
+  const columns: ColumnToken[] = [];
+  let rest = container.body;
+
+  while (rest.trim()) {
+    const offset = rest.length - rest.replace(/^\s*\n/, '').length;
+    const child = matchContainer(rest.slice(offset), ['col', 'column']);
+    if (!child) {
+      // Content outside `:::col` becomes a column of its own
+      const next = rest.search(/^ {0,3}:{3,}\s*col(?:umn)?\b/im);
+      const text = next > 0 ? rest.slice(0, next) : rest;
+      columns.push({ type: 'column', raw: text, tokens: lex(text) });
+      rest = next > 0 ? rest.slice(next) : '';
+      continue;
+    }
+
+    const args = child.args.split(/\s+/).filter(Boolean);
+    const align = args.find(arg => ALIGNMENTS.includes(arg.toLowerCase()))?.toLowerCase() as ColumnToken['align'];
+    const width = args.find(arg => !ALIGNMENTS.includes(arg.toLowerCase()));
+    columns.push({ type: 'column', raw: child.raw, width: width && toTrack(width), align, tokens: lex(child.body) });
+    rest = rest.slice(offset + child.raw.length);
+  }
+
+  columns.forEach((column, index) => {
+    column.width ??= widths[index];
+  });
+
+  return { type: 'columns', raw: container.raw, tokens: columns };
+}
@@ -0,0 +1,135 @@
+import { Marked } from 'marked';
+import type {
+  Token, MarkdownContext, RenderedSection, DocumentOutline, NumberingStyle, ReferenceToken, FigureToken,
+  Bibliography, DocumentNotes, CalloutToken, BilingualMode
+} from './types';
+import { aksaraMarkdownExtension, createTransform, createPluginInline, splitSections, extractSectionDirectives, toPlainText } from './parser';
+import { AksaraHtmlRenderer } from './renderer';
+import { buildOutline, resolveReference } from './outline';
+import { collectNotes, renderFootnotes } from './notes';
+import { applyTableWidths } from './tables';
+import { selectLanguages } from './languages';
+import { applyAbbreviations } from './abbreviations';
+import { locateTokens } from './source';
+import { PluginRegistry } from '../plugins';
+import type { SourceLocation } from '../types';
+
+/**
+ * CommonMark + GFM parser producing the token tree shared by every converter
+ */
+export class MarkdownProcessor {
+  private marked: Marked;
+  private htmlRenderer: AksaraHtmlRenderer;
+  private transform: (token: Token) => void;
+  readonly plugins: PluginRegistry; // fenced blocks and inline syntax of plugins, also rendered by the PPTX converter
+
+  constructor(private context: MarkdownContext, plugins?: PluginRegistry) {
+    this.plugins = plugins ?? new PluginRegistry(() => ({ format: 'html', locale: context.locale, directives: { aksara: false }, warn: context.warn }));
+    this.htmlRenderer = new AksaraHtmlRenderer(context, this.plugins);
+    this.transform = createTransform(context, this.plugins);
+    this.marked = new Marked(aksaraMarkdownExtension, {
+      extensions: [...this.htmlRenderer.extensions, createPluginInline(this.plugins)],
+      renderer: this.htmlRenderer.renderer
+    });
+  }
+
+  /**
+   * @param lines Origin of every line of `markdown`, to locate blocks and the warnings raised in them
+   */
+  parse(markdown: string, lines?: SourceLocation[]): Token[] {
+    const tokens = this.marked.lexer(markdown);
+    if (lines) locateTokens(tokens, markdown, lines);
+    for (const token of tokens) this.context.within(token, () => this.marked.walkTokens([token], this.transform));
+    applyTableWidths(tokens, this.context);
+    return tokens;
+  }
+
+  render(tokens: Token[]): string {
+    return this.marked.parser(tokens).trim();
+  }
+
+  /**
+   * Show, hide or pair up the `:::lang` blocks of all sections, before they are numbered
+   */
+  selectLanguages(sections: Token[][], mode: BilingualMode, language: string): void {
+    sections.forEach(tokens => selectLanguages(tokens, mode, language, this.context));
+  }
+
+  /**
+   * Mark abbreviations defined anywhere in the document with `*[...]:` in all sections
+   */
+  applyAbbreviations(sections: Token[][]): void {
+    applyAbbreviations(sections, (tokens, visit) => this.walk(tokens, visit), this.context);
+  }
+
+  /**
+   * Number headings, attach captions and resolve `@fig:` references across all sections.
+   * The outline is used by `[toc]`, `[lof]` and `[lot]` in the sections rendered next.
+   */
+  buildOutline(sections: Token[][], numbering?: NumberingStyle): DocumentOutline {
+    const outline = buildOutline(sections, numbering, this.context);
+    this.walk(sections.flat(), token => {
+      if (token.type === 'xref') resolveReference(token as unknown as ReferenceToken, outline, this.context);
+    });
+    this.htmlRenderer.outline = outline;
+    return outline;
+  }
+
+  get outline(): DocumentOutline {
+    return this.htmlRenderer.outline;
+  }
+
+  /**
+   * Number footnotes and resolve `[@key]` citations across all sections, for `[bibliography]`
+   * and the footnotes of the sections rendered next
+   */
+  collectNotes(sections: Token[][], bibliography?: Bibliography): DocumentNotes {
+    this.htmlRenderer.notes = collectNotes(sections, (tokens, visit) => this.walk(tokens, visit), bibliography, this.context);
+    return this.htmlRenderer.notes;
+  }
+
+  get notes(): DocumentNotes {
+    return this.htmlRenderer.notes;
+  }
+
+  renderSection(tokens: Token[]): RenderedSection {
+    const { result, backgrounds } = this.htmlRenderer.collectSection(footnotes => {
+      const html = this.htmlRenderer.renderBlocks(tokens, blocks => this.marked.parser(blocks)).trim();
+      // Rendering a note adds the notes it references itself
+      const notes = [];
+      for (let i = 0; i < footnotes.length; i++) {
+        notes.push({ number: footnotes[i].number, html: this.render(footnotes[i].tokens) });
+      }
+      return { html, footnotes: renderFootnotes(notes) };
+    });
+    return { ...result, backgrounds };
+  }
+
+  /**
+   * Visit every token, including figure captions and callout titles
+   */
+  private walk(tokens: Token[], visit: (token: Token) => void): void {
+    for (const block of tokens) {
+      this.context.within(block, () => this.marked.walkTokens([block], token => {
+        visit(token);
+        if (token.type === 'figure') this.walk((token as unknown as FigureToken).caption, visit);
+        if (token.type === 'callout') this.walk((token as unknown as CalloutToken).title, visit);
+      }));
+    }
+  }
+
+  toHtml(markdown: string): string {
+    return this.render(this.parse(markdown));
+  }
+
+  toText(markdown: string): string {
+    return toPlainText(this.parse(markdown));
+  }
+}
+
+export * from './types';
+export { locateTokens } from './source';
+export { splitSections, extractSectionDirectives, toPlainText, splitParts, parseImagePlacement, replaceExpressions, findExpressionEnd } from './parser';
+export { escapeHtml, renderImage, cssUrl } from './renderer';
+export { slugify } from './toc';
+export { toRoman } from './outline';
@@ -0,0 +1,70 @@
+import type { Token, MarkdownContext, BilingualMode, LangToken, ColumnsToken, ColumnToken } from './types';
+
+/**
+ * Whether a `:::lang` block is in `language`; `en-GB` counts as `en`
+ */
+function inLanguage(block: LangToken, language: string): boolean {
+  return block.lang === language || block.lang.split('-')[0] === language;
+}
+
+function hide(block: LangToken): void {
+  block.hidden = true;
+  block.tokens = [];
+}
+
+/**
+ * Choose the `:::lang` blocks to show. Consecutive blocks are translations of the same text:
+ * `single` keeps the one in `language` (or the first, with a warning), `side-by-side` puts them
+ * in columns and `sequential` keeps them all. A block without a translation next to it is only
+ * hidden in `single` mode when it is in another language.
+ */
+export function selectLanguages(tokens: Token[], mode: BilingualMode, language: string, context: MarkdownContext): void {
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== 'lang') continue;
+
+    // Blank lines between translations don't end the group, a language seen twice starts the next one
+    const run: LangToken[] = [];
+    let end = i;
+    for (let j = i; j < tokens.length && (tokens[j].type === 'lang' || tokens[j].type === 'space'); j++) {
+      const block = tokens[j] as unknown as LangToken;
+      if (block.type !== 'lang') continue;
+      if (run.some(other => other.lang === block.lang)) break;
+      run.push(block);
+      end = j;
+    }
+
+    let primary = run.find(block => inLanguage(block, language));
+    if (!primary && run.length > 1) {
+      primary = run[0];
+      if (mode === 'single') {
+        context.warn('missing-language', `No :::lang ${language} block among the translations, showing ${primary.lang}`, primary.raw.split('\n')[0]);
+      }
+    }
+    if (primary) primary.primary = true;
+
+    if (mode === 'single') {
+      run.filter(block => block !== primary).forEach(hide);
+    } else if (mode === 'side-by-side' && run.length > 1) {
+      // The first block becomes the columns, keeping its place in the section
+      const columns: ColumnToken[] = run.map(block => ({ type: 'column', raw: block.raw, tokens: [{ ...block } as unknown as Token] }));
+      run.slice(1).forEach(hide);
+      const group: ColumnsToken = { type: 'columns', raw: run[0].raw, tokens: columns };
+      Object.assign(run[0], group);
+    }
+
+    i = end;
+  }
+
+  for (const token of tokens) {
+    if ('tokens' in token && token.tokens) selectLanguages(token.tokens, mode, language, context);
+  }
+}
+
+/**
+ * Blocks whose headings and captions go into the outline, directly in `tokens` or in their columns
+ */
+export function primaryBlocks(tokens: Token[]): LangToken[] {
+  return tokens
+    .flatMap(token => token.type === 'columns' ? (token as unknown as ColumnsToken).tokens.flatMap(column => column.tokens) : [token])
+    .filter((token): token is Token & LangToken => token.type === 'lang' && !!(token as unknown as LangToken).primary);
+}
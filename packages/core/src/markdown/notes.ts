@@ -0,0 +1,133 @@
+import type {
+  Token, MarkdownContext, Bibliography, DocumentNotes, NoteEntry,
+  FootnoteToken, FootnoteRefToken, CitationToken
+} from './types';
+import type { BibEntry, CitationStyle } from '../bibliography';
+import { citationAuthors, sortReferences, disambiguateYears, formatReference } from '../bibliography';
+import { escapeHtml } from './renderer';
+
+/**
+ * `[bibliography]` or `<!-- bibliography -->` on its own line renders the reference list
+ */
+export const BIBLIOGRAPHY_REGEX = /^(?:\[bibliography\]|<!--\s*bibliography\s*-->)\s*$/i;
+
+type Walk = (tokens: Token[], visit: (token: Token) => void) => void;
+
+/**
+ * Number footnotes in order of first reference and resolve citations against the
+ * bibliography. Without a bibliography citations are left as written.
+ */
+export function collectNotes(sections: Token[][], walk: Walk, bibliography: Bibliography | undefined, context: MarkdownContext): DocumentNotes {
+  const style = bibliography?.style ?? 'apa';
+  const definitions = new Map<string, FootnoteToken>();
+  const footnotes: NoteEntry[] = [];
+  const references = new Map<string, number>(); // footnote label → references so far
+  const citations: CitationToken[] = [];
+  const cited: BibEntry[] = [];
+  const entries = new Map(bibliography?.entries.map(entry => [entry.id, entry]));
+
+  walk(sections.flat(), token => {
+    if (token.type !== 'footnote') return;
+    const footnote = token as unknown as FootnoteToken;
+    if (definitions.has(footnote.label)) {
+      context.warn('duplicate-footnote', `Footnote [^${footnote.label}] is defined more than once`, footnote.raw.trim());
+    } else {
+      definitions.set(footnote.label, footnote);
+    }
+  });
+
+  sections.forEach((tokens, index) => walk(tokens, token => {
+    if (token.type === 'footnoteRef') {
+      const reference = token as unknown as FootnoteRefToken;
+      const definition = definitions.get(reference.label);
+      if (!definition) {
+        context.warn('unknown-footnote', `Footnote [^${reference.label}] has no definition`, reference.raw);
+        return;
+      }
+
+      const count = (references.get(reference.label) ?? 0) + 1;
+      references.set(reference.label, count);
+      if (count === 1) {
+        footnotes.push({ number: footnotes.length + 1, label: reference.label, tokens: definition.tokens, section: index + 1 });
+      }
+
+      reference.number = footnotes.find(note => note.label === reference.label)!.number;
+      reference.id = count === 1 ? `fnref-${reference.number}` : `fnref-${reference.number}-${count}`;
+      reference.first = count === 1;
+    } else if (token.type === 'citation' && bibliography) {
+      const citation = token as unknown as CitationToken;
+      citations.push(citation);
+
+      for (const item of citation.items) {
+        const entry = entries.get(item.key);
+        if (!entry) {
+          context.warn('unknown-citation', `Citation @${item.key} is not in the bibliography`, citation.raw);
+        } else if (!cited.includes(entry)) {
+          cited.push(entry);
+        }
+      }
+    }
+  }));
+
+  const sorted = sortReferences(cited, style, context.locale);
+  const years = disambiguateYears(sorted, context.locale);
+
+  for (const citation of citations) {
+    citation.style = style;
+    for (const item of citation.items) {
+      const entry = entries.get(item.key);
+      const locator = item.locator ? `, ${item.locator}` : '';
+      if (!entry) {
+        item.text = `${item.key}?`;
+      } else {
+        item.text = style === 'ieee'
+          ? `${sorted.indexOf(entry) + 1}${locator}`
+          : `${citationAuthors(entry, context.locale)}, ${years.get(entry.id)}${locator}`;
+        item.target = `ref-${entry.id}`;
+      }
+    }
+    citation.text = wrapCitation(citation.items.map(item => item.text!), style);
+  }
+
+  return { footnotes, references: sorted, style, years };
+}
+
+/**
+ * APA: (Widodo, 2020; Lestari, 2019), IEEE: [1], [2]
+ */
+export function wrapCitation(items: string[], style: CitationStyle): string {
+  return style === 'ieee' ? items.map(item => `[${item}]`).join(', ') : `(${items.join('; ')})`;
+}
+
+/**
+ * Footnotes listed at the end of a section, or the bottom of the page in PDF.
+ * The back link goes inside the note's last paragraph.
+ */
+export function renderFootnotes(notes: { number: number; html: string }[]): string {
+  if (notes.length === 0) return '';
+
+  const items = notes.map(({ number, html }) => {
+    const back = ` <a class="footnote-back" href="#fnref-${number}">↩</a>`;
+    const content = /<\/p>\s*$/.test(html) ? html.replace(/<\/p>\s*$/, `${back}</p>`) : html + back;
+    return `<li id="fn-${number}" value="${number}">${content}</li>`;
+  });
+
+  return `<div class="footnotes">\n<ol>\n${items.join('\n')}\n</ol>\n</div>`;
+}
+
+/**
+ * Reference list of the cited entries: numbered for IEEE, hanging paragraphs for APA
+ */
+export function renderBibliography(notes: DocumentNotes, locale: string): string {
+  const items = notes.references.map((entry, index) => {
+    const html = formatReference(entry, notes.style, locale, notes.years.get(entry.id))
+      .map(part => part.italic ? `<em>${escapeHtml(part.text)}</em>` : escapeHtml(part.text))
+      .join('');
+
+    return notes.style === 'ieee'
+      ? `<li id="ref-${escapeHtml(entry.id)}"><span class="reference-number">[${index + 1}]</span> ${html}</li>`
+      : `<li id="ref-${escapeHtml(entry.id)}">${html}</li>`;
+  });
+
+  return `<ol class="bibliography bibliography-${notes.style}">\n${items.join('\n')}\n</ol>\n`;
+}
@@ -0,0 +1,197 @@
+import type {
+  Token, Tokens, TocEntry, DocumentOutline, NumberingStyle, CaptionKind,
+  FigureToken, ReferenceToken, MarkdownContext, Located
+} from './types';
+import { toPlainText } from './parser';
+import { primaryBlocks } from './languages';
+import { slugify } from './toc';
+import { getMessages, captionLabels } from '../messages';
+
+const LABEL_REGEX = /\s*\{#((?:fig|tbl):[\w-]+)\}\s*$/;
+const UNNUMBERED_REGEX = /\s*\{(?:-|\.unnumbered)\}\s*$/;
+const NUMBERED_DEPTH = 3;
+
+const ROMAN: [number, string][] = [
+  [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+  [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+];
+
+export function toRoman(value: number): string {
+  let rest = value;
+  return ROMAN.map(([amount, numeral]) => {
+    const count = Math.floor(rest / amount);
+    rest -= count * amount;
+    return numeral.repeat(count);
+  }).join('');
+}
+
+/**
+ * Remove a match from the text at the start or end of inline tokens
+ */
+function trimInline(tokens: Token[], regex: RegExp, atEnd: boolean): RegExpMatchArray | null {
+  const index = atEnd ? tokens.length - 1 : 0;
+  const token = tokens[index];
+  if (!token || token.type !== 'text') return null;
+
+  const match = token.text.match(regex);
+  if (!match) return null;
+
+  token.text = atEnd ? token.text.slice(0, match.index) : token.text.slice(match[0].length);
+  if (!token.text) tokens.splice(index, 1);
+  return match;
+}
+
+function isImageParagraph(token: Token): boolean {
+  return token.type === 'paragraph' &&
+    (token as Tokens.Paragraph).tokens.some(child => child.type === 'image') &&
+    (token as Tokens.Paragraph).tokens.every(child =>
+      child.type === 'image' || child.type === 'br' || (child.type === 'text' && !child.text.trim()));
+}
+
+function isCaptionTarget(token: Token | undefined, kind: CaptionKind): token is Token {
+  if (!token) return false;
+  return kind === 'table'
+    ? token.type === 'table'
+    : token.type === 'mermaid' || token.type === 'diagram' || isImageParagraph(token);
+}
+
+function createFigure(kind: CaptionKind, target: Token, caption: Token[], label: string | undefined, raw: string, first: Token): FigureToken {
+  const { source } = first as Located;
+  return { type: 'figure', raw, kind, id: '', label, number: '', caption, tokens: [target], source };
+}
+
+/**
+ * Turn `Gambar: ... {#fig:label}` / `Tabel: ... {#tbl:label}` paragraphs next to an
+ * image, diagram or table, and `![alt](src){#fig:label}`, into figure tokens
+ */
+function attachCaptions(tokens: Token[], context: MarkdownContext): void {
+  // Caption labels of every locale: `Gambar:`, `Figure:`, `Rajah:` ...
+  const labels = captionLabels();
+  const escape = (label: string) => label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const captionRegex = new RegExp(`^(${[...labels.figure, ...labels.table].map(escape).join('|')}):\\s*`, 'i');
+
+  const neighbour = (from: number, step: number) => {
+    let index = from + step;
+    while (tokens[index]?.type === 'space') index += step;
+    return index;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'paragraph') continue;
+    const inline = (token as Tokens.Paragraph).tokens;
+
+    // ![Grafik penjualan](grafik.png){#fig:penjualan}
+    const last = inline[inline.length - 1];
+    if (last?.type === 'text' && /^\s*\{#fig:[\w-]+\}\s*$/.test(last.text) && inline.slice(0, -1).some(child => child.type === 'image')) {
+      const label = trimInline(inline, LABEL_REGEX, true)![1];
+      const image = inline.find(child => child.type === 'image') as Tokens.Image;
+      tokens[i] = createFigure('figure', token, [{ type: 'text', raw: image.text, text: image.text, escaped: false } as Tokens.Text], label, token.raw, token) as unknown as Token;
+      continue;
+    }
+
+    const prefix = token.raw.trim().match(captionRegex);
+    if (!prefix || inline[0]?.type !== 'text') continue;
+
+    // Tables are usually captioned above, figures below
+    const kind: CaptionKind = labels.table.some(label => label.toLowerCase() === prefix[1].toLowerCase()) ? 'table' : 'figure';
+    const candidates = kind === 'table' ? [neighbour(i, 1), neighbour(i, -1)] : [neighbour(i, -1), neighbour(i, 1)];
+    const target = candidates.find(index => isCaptionTarget(tokens[index], kind));
+    if (target === undefined) {
+      context.warn('caption-without-target', `Caption "${toPlainText(inline)}" is not next to ${kind === 'table' ? 'a table' : 'an image or diagram'}`, token.raw.trim());
+      continue;
+    }
+
+    trimInline(inline, captionRegex, false);
+    const label = trimInline(inline, LABEL_REGEX, true)?.[1];
+    const figure = createFigure(kind, tokens[target], inline, label, target < i ? tokens[target].raw + token.raw : token.raw + tokens[target].raw, tokens[Math.min(i, target)]);
+
+    tokens[target] = figure as unknown as Token;
+    tokens.splice(i, 1);
+    i = Math.min(i, target) - 1;
+  }
+}
+
+/**
+ * Document-wide structure: heading ids and numbers, captioned figures and tables.
+ * Figures are numbered per chapter (`Gambar 2.1`) when headings are numbered.
+ */
+export function buildOutline(sections: Token[][], numbering: NumberingStyle | undefined, context: MarkdownContext): DocumentOutline {
+  const labels = getMessages(context.locale);
+  const outline: DocumentOutline = { headings: [], figures: [], tables: [], labels: {} };
+  const used = new Map<string, number>();
+  const counters = [0, 0, 0];
+  const captions: Record<CaptionKind, number> = { figure: 0, table: 0 };
+
+  const uniqueId = (base: string) => {
+    const count = used.get(base) || 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count + 1}`;
+  };
+
+  // Headings and captions inside `:::lang` blocks count in the document language only
+  const attach = (tokens: Token[]) => {
+    attachCaptions(tokens, context);
+    primaryBlocks(tokens).forEach(block => attach(block.tokens));
+  };
+  const content = (tokens: Token[]): Token[] => tokens.flatMap(token =>
+    token.type === 'lang' || token.type === 'columns' ? primaryBlocks([token]).flatMap(block => content(block.tokens)) : [token]
+  );
+
+  sections.forEach((tokens, index) => {
+    attach(tokens);
+
+    for (const token of content(tokens)) {
+      if (token.type === 'heading') {
+        const heading = token as Tokens.Heading & { id?: string; number?: string };
+        const unnumbered = !!trimInline(heading.tokens, UNNUMBERED_REGEX, true);
+        const text = toPlainText(heading.tokens);
+
+        if (numbering && !unnumbered && heading.depth <= NUMBERED_DEPTH) {
+          counters[heading.depth - 1]++;
+          counters.fill(0, heading.depth);
+          if (heading.depth === 1) captions.figure = captions.table = 0;
+
+          heading.number = numbering === 'bab' && heading.depth === 1
+            ? `${labels.chapter} ${toRoman(counters[0])}`
+            : counters.slice(0, heading.depth).join('.');
+        }
+
+        heading.id = uniqueId(slugify(text));
+        outline.headings.push({ level: heading.depth, text, id: heading.id, section: index + 1, number: heading.number });
+      } else if (token.type === 'figure') {
+        const figure = token as unknown as FigureToken;
+        const count = ++captions[figure.kind];
+        figure.number = `${labels[figure.kind]} ${numbering ? `${counters[0]}.` : ''}${count}`;
+        figure.id = uniqueId(figure.label ? figure.label.replace(':', '-') : `${figure.kind}-${slugify(figure.number)}`);
+
+        const entry: TocEntry = { level: 1, text: toPlainText(figure.caption), id: figure.id, section: index + 1, number: figure.number };
+        (figure.kind === 'figure' ? outline.figures : outline.tables).push(entry);
+
+        if (figure.label) {
+          if (outline.labels[figure.label]) {
+            context.warn('duplicate-label', `Label {#${figure.label}} is used more than once`, `{#${figure.label}}`);
+          } else {
+            outline.labels[figure.label] = entry;
+          }
+        }
+      }
+    }
+  });
+
+  return outline;
+}
+
+/**
+ * Point an `@fig:label` reference at its figure; unknown labels keep their text
+ */
+export function resolveReference(token: ReferenceToken, outline: DocumentOutline, context: MarkdownContext): void {
+  const entry = outline.labels[token.label];
+  if (!entry) {
+    context.warn('unknown-reference', `Reference @${token.label} has no matching {#${token.label}}`, token.raw);
+    token.text = token.raw;
+    return;
+  }
+  token.text = entry.number!;
+  token.target = entry.id;
+}
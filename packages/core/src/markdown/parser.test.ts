@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test';
+import { marked } from 'marked';
+import { extractSectionDirectives, splitParts, toPlainText } from './parser';
+
+describe('toPlainText', () => {
+  test('escaped characters keep the text around them', () => {
+    expect(toPlainText(marked.lexer('Escaped \\| pipe'))).toBe('Escaped | pipe');
+    expect(toPlainText(marked.lexer('**Tebal** \\* bintang'))).toBe('Tebal * bintang');
+    expect(toPlainText(marked.lexer('# Bab \\#1'))).toBe('Bab #1');
+  });
+});
+
+describe('splitParts', () => {
+  test('headers split at pipes, not at escaped ones', () => {
+    expect(splitParts('Kiri | Kanan')).toEqual(['Kiri ', ' Kanan']);
+    expect(splitParts('Escaped \\| pipe')).toEqual(['Escaped \\| pipe']);
+    expect(splitParts('|Tengah|')).toEqual(['Tengah']);
+  });
+});
+
+describe('extractSectionDirectives', () => {
+  const extract = (markdown: string) => {
+    const warnings: string[] = [];
+    const { tokens, directives } = extractSectionDirectives(marked.lexer(markdown), (_code, message) => warnings.push(message));
+    return { types: tokens.filter(token => token.type !== 'space').map(token => token.type), directives, warnings };
+  };
+
+  test('background, header, footer, page and layout of one section', () => {
+    const { types, directives, warnings } = extract([
+      '<!-- class: sampul -->',
+      '<!-- background: sampul.jpg -->',
+      '<!-- header: none -->',
+      '<!-- footer: Lampiran -->',
+      '<!-- page: A3 landscape -->',
+      '<!-- layout: two-column -->',
+      '',
+      '# Judul'
+    ].join('\n'));
+    expect(directives).toEqual({
+      classes: 'sampul',
+      background: 'sampul.jpg',
+      header: false,
+      footer: 'Lampiran',
+      page: { size: 'A3', orientation: 'landscape' },
+      layout: 'two-column'
+    });
+    expect(types).toEqual(['heading']);
+    expect(warnings).toEqual([]);
+  });
+
+  test('unknown values are reported', () => {
+    const { warnings } = extract('<!-- page: B5 -->\n<!-- layout: miring -->\n');
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain("Unknown page setting 'B5'");
+    expect(warnings[1]).toContain("Unknown layout 'miring'");
+  });
+});
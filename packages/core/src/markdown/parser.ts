@@ -0,0 +1,643 @@
+import type { MarkedExtension, TokenizerExtension } from 'marked';
+import type {
+  Token, Tokens, AksaraImageToken, ImagePlacement, ImageType, MarkdownContext, FootnoteRefToken, CitationToken, CalloutToken,
+  AksaraTableToken, SectionDirectives, SlideLayout, MathToken, InlineFormatToken, DefinitionListToken
+} from './types';
+import { aksaraDraw } from '../aksara-draw';
+import { applyTableFormulas, applyTableSpans } from './tables';
+import { TOC_REGEX, parseTocPlaceholder } from './toc';
+import { BIBLIOGRAPHY_REGEX } from './notes';
+import { toCallout } from './callouts';
+import { matchContainer, parseColumns } from './containers';
+import { renderMath, mathRuns, MathRun } from '../math';
+import { sanitizeHtml, sanitizeSvg, isSafeUrl } from '../sanitize';
+import type { PluginRegistry } from '../plugins';
+
+const DIAGRAM_LANGS = ['aksara-draw', 'aksara-org', 'aksara-flow'];
+const SECTION_COMMENT_REGEX = /^<!--([\s\S]*?)-->\s*$/;
+const SECTION_DIRECTIVE_REGEX = /^\s*(class|header|footer|background|page|layout)\s*:\s*(.*?)\s*$/;
+const PAGE_SIZE_REGEX = /^(?:A[345]|Letter|Legal|\d+(?:\.\d+)?(?:mm|cm|in)x\d+(?:\.\d+)?(?:mm|cm|in))$/i;
+const LAYOUTS: SlideLayout[] = ['title', 'two-column', 'image-left'];
+
+/**
+ * Find the end of a `${...}` expression starting at `start`, honouring nested
+ * braces and quoted strings. Returns -1 when the expression is unterminated.
+ */
+export function findExpressionEnd(src: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start + 1; i < src.length; i++) {
+    const char = src[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Replace every `${...}` in raw text (HTML blocks, link targets) with its value
+ */
+export function replaceExpressions(text: string, evaluate: (expression: string) => string | undefined): string {
+  let result = '';
+  let cursor = 0;
+  let start = text.indexOf('${');
+
+  while (start !== -1) {
+    const end = findExpressionEnd(text, start);
+    if (end === -1) break;
+
+    const value = evaluate(text.slice(start + 2, end - 1).trim());
+    result += text.slice(cursor, start) + (value ?? text.slice(start, end));
+    cursor = end;
+    start = text.indexOf('${', cursor);
+  }
+
+  return result + text.slice(cursor);
+}
+
+const expressionExtension: TokenizerExtension = {
+  name: 'expression',
+  level: 'inline',
+  start(src) {
+    const index = src.indexOf('${');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    if (!src.startsWith('${')) return undefined;
+
+    const end = findExpressionEnd(src, 0);
+    if (end === -1) return undefined;
+
+    return {
+      type: 'expression',
+      raw: src.slice(0, end),
+      expression: src.slice(2, end - 1).trim()
+    };
+  }
+};
+
+// `$$...$$` on lines of their own
+const mathBlockExtension: TokenizerExtension = {
+  name: 'math',
+  level: 'block',
+  start(src) {
+    const index = src.search(/^ {0,3}\$\$/m);
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = src.match(/^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/);
+    if (!match || !match[1].trim()) return undefined;
+    return { type: 'math', raw: match[0], tex: match[1].trim(), text: match[1].trim(), display: true };
+  }
+};
+
+// `$x^2$` and `$$...$$` within text. Like Pandoc, `$` must not be followed by a space and the closing
+// `$` not preceded by one or followed by a digit, so `$5 dan $10` stays text; `${` is an expression.
+const mathInlineExtension: TokenizerExtension = {
+  name: 'math',
+  level: 'inline',
+  start(src) {
+    const index = src.search(/(?<!\\)\$(?!\{)/);
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = src.match(/^\$\$((?:\\[\s\S]|[^\\$])+?)\$\$/) ?? src.match(/^\$(?![\s{$])((?:\\[\s\S]|[^\\$\n])+?)(?<!\s)\$(?!\d)/);
+    if (!match) return undefined;
+    return { type: 'math', raw: match[0], tex: match[1].trim(), text: match[1].trim(), display: match[0].startsWith('$$') };
+  }
+};
+
+// `@fig:label` / `@tbl:label`, resolved once the whole document is numbered
+const referenceExtension: TokenizerExtension = {
+  name: 'xref',
+  level: 'inline',
+  start(src) {
+    const index = src.search(/@(?:fig|tbl):\w/);
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = src.match(/^@((?:fig|tbl):[\w-]*\w)/);
+    if (!match) return undefined;
+    return { type: 'xref', raw: match[0], label: match[1], text: match[0] };
+  }
+};
+
+// `:::columns` with `:::col` children, rendered side by side
+const columnsExtension: TokenizerExtension = {
+  name: 'columns',
+  level: 'block',
+  start(src) {
+    const index = src.search(/^ {0,3}:{3,}\s*columns\b/im);
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const container = matchContainer(src, ['columns']);
+    if (!container) return undefined;
+    return parseColumns(container, markdown => this.lexer.blockTokens(markdown, [])) as unknown as Tokens.Generic;
+  }
+};
+
+// `:::lang id` / `:::lang en` blocks of a bilingual document
+const langExtension: TokenizerExtension = {
+  name: 'lang',
+  level: 'block',
+  start(src) {
+    const index = src.search(/^ {0,3}:{3,}\s*lang\b/im);
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const container = matchContainer(src, ['lang']);
+    const lang = container?.args.split(/\s+/)[0].toLowerCase();
+    if (!container || !lang) return undefined;
+    return { type: 'lang', raw: container.raw, lang, tokens: this.lexer.blockTokens(container.body, []) };
+  }
+};
+
+// `[^1]: Catatan`, continued by lines indented with four spaces
+const footnoteExtension: TokenizerExtension = {
+  name: 'footnote',
+  level: 'block',
+  tokenizer(src) {
+    const match = src.match(/^ {0,3}\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n(?:[ \t]*\n)*(?: {4}|\t)[^\n]*)*)(?:\n|$)/);
+    if (!match) return undefined;
+
+    const content = match[2].replace(/\n(?: {4}|\t)/g, '\n');
+    return { type: 'footnote', raw: match[0], label: match[1], tokens: this.lexer.blockTokens(content, []) };
+  }
+};
+
+const footnoteRefExtension: TokenizerExtension = {
+  name: 'footnoteRef',
+  level: 'inline',
+  start(src) {
+    const index = src.indexOf('[^');
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = src.match(/^\[\^([^\]\s]+)\]/);
+    if (!match) return undefined;
+    return { type: 'footnoteRef', raw: match[0], label: match[1] };
+  }
+};
+
+// `[@widodo2020]`, `[@widodo2020, hlm. 12]` or `[@widodo2020; @lestari2019]`
+const citationExtension: TokenizerExtension = {
+  name: 'citation',
+  level: 'inline',
+  start(src) {
+    const index = src.search(/\[\s*@/);
+    return index === -1 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = src.match(/^\[([^[\]]*)\]/);
+    if (!match || src[match[0].length] === '(') return undefined; // link text
+
+    const items = match[1].split(';').map(item => item.match(/^\s*@([\w:./-]*\w)\s*(?:,\s*(.*?))?\s*$/));
+    if (items.some(item => !item || /^(?:fig|tbl):/.test(item[1]))) return undefined;
+
+    return {
+      type: 'citation',
+      raw: match[0],
+      items: items.map(item => ({ key: item![1], locator: item![2] || undefined }))
+    };
+  }
+};
+
+// `Istilah` followed by `: definisi` lines; continuation lines are indented
+const DEFINITION_REGEX = /^ {0,3}([^\s:#>|][^\n]*)\n(?:[ \t]*\n)?((?: {0,3}:[ \t][^\n]*(?:\n(?: {2,}|\t)[^\n]*)*(?:\n|$))+)/;
+
+const definitionListExtension: TokenizerExtension = {
+  name: 'definitionList',
+  level: 'block',
+  tokenizer(src) {
+    const tokens: Token[] = [];
+    let raw = '';
+    for (;;) {
+      // Blank lines between entries don't end the list
+      const blank = raw ? src.slice(raw.length).match(/^(?:[ \t]*\n)*/)![0] : '';
+      const match = src.slice(raw.length + blank.length).match(DEFINITION_REGEX);
+      if (!match) break;
+
+      raw += blank + match[0];
+      tokens.push({ type: 'definitionTerm', raw: match[1], tokens: this.lexer.inline(match[1].trim()) } as Tokens.Generic);
+      for (const definition of match[2].split(/\n(?= {0,3}:[ \t])/)) {
+        const text = definition.replace(/^ {0,3}:[ \t]+/, '').replace(/\n(?: {2,4}|\t)/g, '\n');
+        tokens.push({ type: 'definition', raw: definition, tokens: this.lexer.blockTokens(text, []) } as Tokens.Generic);
+      }
+    }
+    return tokens.length > 0 ? { type: 'definitionList', raw, tokens } : undefined;
+  }
+};
+
+// `*[BUMN]: Badan Usaha Milik Negara`, applied to the whole document by `applyAbbreviations()`
+const abbreviationExtension: TokenizerExtension = {
+  name: 'abbreviation',
+  level: 'block',
+  tokenizer(src) {
+    const match = src.match(/^ {0,3}\*\[([^\]\n]+)\]:[ \t]*([^\n]*)(?:\n|$)/);
+    if (!match) return undefined;
+    return { type: 'abbreviation', raw: match[0], abbr: match[1].trim(), title: match[2].trim() };
+  }
+};
+
+/**
+ * `==highlight==`, `H~2~O` and `m^2^`. Subscript and superscript hold no spaces (escape them as `\ `),
+ * like Pandoc; `~~strike~~` stays strikethrough.
+ */
+function inlineFormat(name: 'mark' | 'sub' | 'sup', marker: string, pattern: RegExp): TokenizerExtension {
+  return {
+    name,
+    level: 'inline',
+    start(src) {
+      const index = src.indexOf(marker);
+      return index === -1 ? undefined : index;
+    },
+    tokenizer(src) {
+      const match = src.match(pattern);
+      if (!match) return undefined;
+      const text = match[1].replace(/\\ /g, ' ');
+      return { type: name, raw: match[0], text, tokens: this.lexer.inlineTokens(text) };
+    }
+  };
+}
+
+const markExtension = inlineFormat('mark', '==', /^==(?![\s=])((?:\\[\s\S]|[^\\\n])+?)(?<!\s)==(?!=)/);
+const subExtension = inlineFormat('sub', '~', /^~(?!~)((?:\\[\s\S]|[^\s~\\])+)~(?!~)/);
+const supExtension = inlineFormat('sup', '^', /^\^((?:\\[\s\S]|[^\s^\\])+)\^/);
+
+/**
+ * Inline syntax added by plugins; the earliest match wins, then the first registered
+ */
+export function createPluginInline(plugins: PluginRegistry): TokenizerExtension {
+  const unanchored = (pattern: RegExp) => new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+  return {
+    name: 'pluginInline',
+    level: 'inline',
+    start(src) {
+      const indexes = plugins.inline().map(({ syntax }) => src.search(unanchored(syntax.pattern))).filter(index => index !== -1);
+      return indexes.length > 0 ? Math.min(...indexes) : undefined;
+    },
+    tokenizer(src) {
+      for (const { plugin, index, syntax } of plugins.inline()) {
+        const match = src.match(unanchored(syntax.pattern));
+        if (match?.index !== 0 || !match[0]) continue;
+        const text = syntax.text ? plugins.render(plugin, () => syntax.text!(match)) : undefined;
+        return { type: 'pluginInline', raw: match[0], plugin, index, match, text: text ?? match[0] };
+      }
+      return undefined;
+    }
+  };
+}
+
+/**
+ * Lexer configuration shared by every Aksara document.
+ * `---` is reserved as the section separator, so it never turns the
+ * preceding paragraph into a setext heading.
+ */
+export const aksaraMarkdownExtension: MarkedExtension = {
+  gfm: true,
+  breaks: true,
+  extensions: [
+    expressionExtension, referenceExtension, mathBlockExtension, mathInlineExtension, columnsExtension, langExtension,
+    footnoteExtension, footnoteRefExtension, citationExtension, definitionListExtension, abbreviationExtension,
+    markExtension, subExtension, supExtension
+  ],
+  tokenizer: {
+    lheading(src) {
+      const match = this.rules.block.lheading.exec(src);
+      if (match && match[2].charAt(0) === '-') {
+        return undefined;
+      }
+      return false;
+    }
+  }
+};
+
+/**
+ * Parse positioning hints from image alt text:
+ * `![bg t:0 l:0 w:100%](...)`, `![lg w:120px](...)` and the legacy `![image x:10% y:5%](...)`
+ */
+export function parseImagePlacement(alt: string): ImagePlacement {
+  if (alt.toLowerCase().startsWith('image')) {
+    const attrs = alt.replace(/^image\s*/i, '');
+    const placement: ImagePlacement = { alt: 'image', position: {}, size: {}, legacy: true };
+
+    if (attrs.includes('bg') || attrs.includes('background')) {
+      placement.pageBackground = true;
+      return placement;
+    }
+
+    const legacyMap: Record<string, string> = { x: 'left', y: 'top' };
+    for (const [, key, value] of attrs.matchAll(/(?:^|\s)([xywh]):\s*([^;\s]+)/g)) {
+      if (key === 'w' || key === 'h') {
+        placement.size[key === 'w' ? 'width' : 'height'] = value;
+      } else {
+        placement.position[legacyMap[key]] = value;
+      }
+    }
+    return placement;
+  }
+
+  const styleMap: Record<string, string> = {
+    t: 'top', r: 'right', b: 'bottom', l: 'left',
+    x: 'left', y: 'top' // legacy aliases
+  };
+  const typeMatch = alt.match(/^(bg|fg|lg|wm)\b/);
+  const placement: ImagePlacement = {
+    type: typeMatch ? typeMatch[1] as ImageType : undefined,
+    alt: alt.replace(/^(bg|fg|lg|wm)\s*/, '').replace(/(?:^|\s+)[trblxywh]:\s*[^;\s]+/g, '').trim(),
+    position: {},
+    size: {}
+  };
+
+  for (const [, key, value] of alt.matchAll(/(?:^|\s)([trblxywh]):\s*([^;\s]+)/g)) {
+    if (key === 'w' || key === 'h') {
+      placement.size[key === 'w' ? 'width' : 'height'] = value;
+    } else {
+      placement.position[styleMap[key]] = value;
+    }
+  }
+
+  return placement;
+}
+
+/**
+ * Whether an image is taken out of the flow and drawn behind the section content
+ */
+export function isBackgroundPlacement(placement: ImagePlacement): boolean {
+  if (placement.pageBackground) return true;
+  return (placement.type === 'bg' || placement.type === 'wm') && Object.keys(placement.position).length > 0;
+}
+
+/**
+ * Apply Aksara extensions to a freshly lexed token tree: evaluate `${...}`,
+ * attach image placement and turn diagram and plugin fences into their tokens.
+ */
+export function createTransform(context: MarkdownContext, plugins: PluginRegistry): (token: Token) => void {
+  const transform = (token: Token) => {
+    switch (token.type) {
+      case 'expression':
+        // Table cells may already have been evaluated for their formulas
+        if (!('value' in token)) token.value = context.evaluate(token.expression);
+        break;
+
+      case 'math': {
+        const math = token as unknown as MathToken;
+        try {
+          math.svg = renderMath(math.tex, math.display, !!context.sanitize);
+          if (context.sanitize) {
+            const removed: string[] = [];
+            math.svg = sanitizeSvg(math.svg, context.sanitize, item => removed.push(item));
+            if (removed.length > 0) context.warn('unsafe-url', `Removed from formula: ${[...new Set(removed)].join(', ')}`, math.raw);
+          }
+          math.runs = mathRuns(math.svg);
+          math.text = math.runs.map(scriptText).join('');
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          context.warn('math-error', `Formula could not be rendered: ${message}`, math.raw);
+        }
+        break;
+      }
+
+      case 'table':
+        applyTableFormulas(token as Tokens.Table, context);
+        applyTableSpans(token as AksaraTableToken);
+        break;
+
+      case 'paragraph':
+      case 'html': {
+        const toc = token.raw.trim().match(TOC_REGEX);
+        if (toc) {
+          Object.assign(token, { type: 'toc', ...parseTocPlaceholder(toc), tokens: [] });
+        } else if (BIBLIOGRAPHY_REGEX.test(token.raw.trim())) {
+          Object.assign(token, { type: 'bibliography', tokens: [] });
+        } else if (token.type === 'html') {
+          token.text = replaceExpressions(token.text, context.evaluate);
+          if (context.sanitize) {
+            const removed: string[] = [];
+            token.text = sanitizeHtml(token.text, context.sanitize, item => removed.push(item));
+            if (removed.length > 0) context.warn('unsafe-html', `Removed from raw HTML: ${[...new Set(removed)].join(', ')}`, token.raw.trim());
+          }
+        }
+        break;
+      }
+
+      case 'blockquote':
+        // The title is taken out of the content before the walk reaches it
+        if (toCallout(token as Tokens.Blockquote, context.locale)) {
+          const visit = (tokens: Token[]) => tokens.forEach(child => {
+            transform(child);
+            if ('tokens' in child && child.tokens) visit(child.tokens);
+          });
+          visit((token as unknown as CalloutToken).title);
+        }
+        break;
+
+      case 'link':
+        token.href = replaceExpressions(token.href, context.evaluate);
+        if (context.sanitize && !isSafeUrl(token.href, context.sanitize)) {
+          context.warn('unsafe-url', `Link to ${token.href} removed, its scheme is not allowed`, token.raw);
+          Object.assign(token, { type: 'text', text: token.text }); // the link text stays
+        }
+        break;
+
+      case 'image':
+        token.href = replaceExpressions(token.href, context.evaluate);
+        if (context.sanitize && !isSafeUrl(token.href, context.sanitize, true)) {
+          context.warn('unsafe-url', `Image ${token.href} removed, its scheme is not allowed`, token.raw);
+          Object.assign(token, { type: 'text', text: token.text, tokens: undefined });
+          break;
+        }
+        (token as AksaraImageToken).placement = parseImagePlacement(token.text);
+        break;
+
+      case 'code': {
+        const lang = (token.lang || '').trim();
+        const [name, ...args] = lang.split(/\s+/);
+        const block = plugins.block(name);
+        if (block) {
+          Object.assign(token, { type: 'pluginBlock', plugin: block.plugin, lang: name, args: args.join(' '), text: token.text });
+        } else if (lang === 'mermaid') {
+          Object.assign(token, {
+            type: 'mermaid',
+            text: token.text.trim(),
+            gantt: token.text.trim().toLowerCase().includes('gantt')
+          });
+        } else if (DIAGRAM_LANGS.includes(lang)) {
+          const diagramType = lang === 'aksara-org' ? 'org' : lang === 'aksara-flow' ? 'flow' : undefined;
+          try {
+            const diagram = aksaraDraw.parse(token.text.trim(), diagramType);
+            Object.assign(token, { type: 'diagram', lang, svg: aksaraDraw.render(diagram) });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            context.warn('diagram-error', `AksaraDraw ${lang} diagram could not be parsed: ${message}`, token.raw);
+            Object.assign(token, { type: 'diagram', lang, error: message });
+          }
+        }
+        break;
+      }
+    }
+  };
+  return transform;
+}
+
+/**
+ * Split top-level tokens into sections at `---` separators
+ */
+export function splitSections(tokens: Token[]): Token[][] {
+  const sections: Token[][] = [[]];
+
+  for (const token of tokens) {
+    if (token.type === 'hr' && token.raw.trim() === '---') {
+      sections.push([]);
+    } else {
+      sections[sections.length - 1].push(token);
+    }
+  }
+
+  return sections.filter(section => section.some(token => token.type !== 'space'));
+}
+
+/**
+ * Remove section directive comments (`<!-- class: cover -->`, `<!-- header: none -->`, ...) from a
+ * section and return their values. One comment may hold several `key: value` lines.
+ */
+export function extractSectionDirectives(tokens: Token[], warn: MarkdownContext['warn']): { tokens: Token[]; directives: SectionDirectives } {
+  const classes: string[] = [];
+  const directives: SectionDirectives = {};
+
+  const remaining = tokens.filter(token => {
+    const comment = token.type === 'html' ? token.raw.trim().match(SECTION_COMMENT_REGEX) : null;
+    const lines = comment?.[1].split('\n').filter(line => line.trim()) ?? [];
+    const entries = lines.map(line => line.match(SECTION_DIRECTIVE_REGEX));
+    if (lines.length === 0 || entries.some(entry => !entry)) return true;
+
+    for (const [, key, value] of entries as RegExpMatchArray[]) {
+      const none = value.toLowerCase() === 'none';
+      switch (key) {
+        case 'class':
+          classes.push(value);
+          break;
+        case 'header':
+        case 'footer':
+        case 'background':
+          directives[key] = none ? false : value;
+          break;
+        case 'page': {
+          // `page: landscape`, `page: A3`, `page: A4 landscape`
+          const page: SectionDirectives['page'] = {};
+          for (const word of value.split(/\s+/).filter(Boolean)) {
+            if (/^(portrait|landscape)$/i.test(word)) {
+              page.orientation = word.toLowerCase() as 'portrait' | 'landscape';
+            } else if (PAGE_SIZE_REGEX.test(word)) {
+              page.size = word;
+            } else {
+              warn('section-directive', `Unknown page setting '${word}', expected a size (A4, Letter, 210mmx297mm) or portrait/landscape`, token.raw.trim());
+            }
+          }
+          if (page.size || page.orientation) directives.page = page;
+          break;
+        }
+        case 'layout':
+          if (LAYOUTS.includes(value as SlideLayout)) {
+            directives.layout = value as SlideLayout;
+          } else {
+            warn('section-directive', `Unknown layout '${value}', expected ${LAYOUTS.join(', ')}`, token.raw.trim());
+          }
+          break;
+      }
+    }
+    return false;
+  });
+
+  const joined = classes.filter(Boolean).join(' ');
+  if (joined) directives.classes = joined;
+  return { tokens: remaining, directives };
+}
+
+const SCRIPTS = {
+  sub: ['0123456789+-=()aehijklmnoprstuvx', '₀₁₂₃₄₅₆₇₈₉₊₋₌₍₎ₐₑₕᵢⱼₖₗₘₙₒₚᵣₛₜᵤᵥₓ'],
+  sup: ['0123456789+-=()in', '⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻⁼⁽⁾ⁱⁿ']
+};
+
+/**
+ * `m²` and `H₂O` in plain text, when every character has a Unicode subscript or superscript form
+ */
+function toScript(text: string, type: 'sub' | 'sup'): string {
+  const [plain, script] = SCRIPTS[type].map(characters => [...characters]);
+  const converted = [...text].map(character => script[plain.indexOf(character)]);
+  return converted.every(Boolean) ? converted.join('') : text;
+}
+
+/**
+ * A formula run in plain text: `x²`, or `x^(2k)` when a character has no superscript form
+ */
+function scriptText({ text, script }: MathRun): string {
+  if (!script) return text;
+  const converted = toScript(text, script);
+  if (converted !== text) return converted;
+  return `${script === 'sup' ? '^' : '_'}${[...text].length > 1 ? `(${text})` : text}`;
+}
+
+/**
+ * Parts of a header or footer, written `Kiri | Kanan`; `\|` is a pipe inside a part
+ */
+export function splitParts(text: string): string[] {
+  return text.split(/(?<!\\)\|/).filter(part => part !== '');
+}
+
+/**
+ * Flatten inline tokens to plain text (used by PPTX and other non-HTML outputs)
+ */
+export function toPlainText(tokens: Token[]): string {
+  return tokens.map(token => {
+    switch (token.type) {
+      case 'expression':
+        return token.value ?? token.raw;
+      case 'escape':
+        return token.text; // the character, without its backslash
+      case 'image':
+        return (token as Partial<AksaraImageToken>).placement?.alt || token.text;
+      case 'br':
+        return ' ';
+      case 'footnoteRef': {
+        const { number, raw } = token as unknown as FootnoteRefToken;
+        return number ? `[${number}]` : raw;
+      }
+      case 'citation':
+        return (token as unknown as CitationToken).text ?? token.raw;
+      case 'sub':
+      case 'sup':
+        return toScript(toPlainText((token as unknown as InlineFormatToken).tokens), token.type);
+      case 'definitionList':
+        return (token as unknown as DefinitionListToken).tokens.map(child => toPlainText(child.tokens)).join(' ');
+      case 'footnote':
+      case 'abbreviation':
+        return '';
+      case 'html':
+        return '';
+      default: {
+        const generic = token as Tokens.Generic;
+        return generic.tokens ? toPlainText(generic.tokens) : generic.text ?? '';
+      }
+    }
+  }).join('').replace(/\s+/g, ' ').trim();
+}
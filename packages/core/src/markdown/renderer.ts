@@ -0,0 +1,335 @@
+import type { RendererObject, RendererExtension, Tokens } from 'marked';
+import type {
+  AksaraImageToken, ImagePlacement, MarkdownContext, Token, DocumentOutline, DocumentNotes, NoteEntry,
+  AksaraTableToken, AksaraTableCell, ColumnToken, Located, PluginBlockToken, PluginInlineToken, DefinitionListToken
+} from './types';
+import type { PluginRegistry } from '../plugins';
+import { isBackgroundPlacement } from './parser';
+import { renderToc } from './toc';
+import { renderBibliography, wrapCitation } from './notes';
+
+const Z_INDEX: Record<string, number> = { wm: 0, bg: 1, fg: 2, lg: 3 };
+
+export function escapeHtml(text: string): string {
+  const htmlEscapes: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+  };
+  return text.replace(/[&<>"']/g, char => htmlEscapes[char]);
+}
+
+function isPositionedImage(token: Token): boolean {
+  const placement = (token as Partial<AksaraImageToken>).placement;
+  return token.type === 'image' && !!placement && (placement.pageBackground || Object.keys(placement.position).length > 0);
+}
+
+function toStyle(properties: Record<string, string>): string {
+  return Object.entries(properties).map(([key, value]) => `${key}: ${value}; `).join('');
+}
+
+/**
+ * Render an image according to its Aksara placement
+ */
+export function renderImage(src: string, placement: ImagePlacement): string {
+  const alt = escapeHtml(placement.alt);
+  const source = escapeHtml(src);
+
+  if (placement.pageBackground) {
+    return `<div class="page-background" style="background-image: url(${escapeHtml(cssUrl(src))}); background-size: 100% 100%; background-position: center; position: absolute; top: 0; left: 0; width: 100%; height: 100%; z-index: -1;"></div>`;
+  }
+
+  const hasPosition = Object.keys(placement.position).length > 0;
+  const hasSize = Object.keys(placement.size).length > 0;
+
+  if (placement.legacy) {
+    let style = 'max-width: 100%; height: auto;';
+    if (hasPosition || hasSize) {
+      style = (hasPosition ? 'position: absolute; ' : '') + toStyle({ ...placement.position, ...placement.size });
+      if (!hasPosition) style += 'object-fit: contain;';
+    }
+    return `<img src="${source}" alt="${alt}" style="${escapeHtml(style)}">`;
+  }
+
+  if (placement.type && hasPosition) {
+    const style = `position: absolute; z-index: ${Z_INDEX[placement.type]}; ` + toStyle({ ...placement.position, ...placement.size });
+    return `<div class="image-${placement.type}" style="${escapeHtml(style)}"><img src="${source}" alt="${alt}" style="width: 100%; height: 100%; object-fit: fill;"></div>`;
+  }
+
+  if (hasSize) {
+    return `<img src="${source}" alt="${alt}" style="${escapeHtml(toStyle(placement.size))}object-fit: contain;">`;
+  }
+
+  return `<img src="${source}" alt="${alt}" style="max-width: 100%; height: auto;">`;
+}
+
+/**
+ * A URL for CSS `url(...)`: quotes, parentheses, backslashes and spaces are percent-encoded so they can't end it
+ */
+export function cssUrl(url: string): string {
+  return url.replace(/["'()\\\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+/**
+ * HTML renderer for the Aksara token tree.
+ * Background images (`bg`/`wm` with position) are collected separately while
+ * rendering a section so converters can place them behind the content.
+ */
+export class AksaraHtmlRenderer {
+  backgrounds: string[] | null = null;
+  outline: DocumentOutline = { headings: [], figures: [], tables: [], labels: {} }; // listed by `[toc]`, `[lof]`, `[lot]`
+  notes: DocumentNotes = { footnotes: [], references: [], style: 'apa', years: new Map() };
+  footnotes: NoteEntry[] | null = null; // notes first referenced in the section being rendered
+
+  constructor(private context: MarkdownContext, private plugins: PluginRegistry) {}
+
+  get extensions(): RendererExtension[] {
+    const self = this;
+
+    return [
+      {
+        name: 'expression',
+        renderer: token => escapeHtml(token.value ?? token.raw)
+      },
+      {
+        name: 'math',
+        renderer: token => token.svg
+          ? `<span class="math ${token.display ? 'math-display' : 'math-inline'}" aria-label="${escapeHtml(token.tex)}">${token.svg}</span>${token.display ? '\n' : ''}`
+          : `<code class="math-error">${escapeHtml(token.raw)}</code>`
+      },
+      {
+        name: 'mermaid',
+        // Mermaid reads the text back from the element; escaped for untrusted input so it can't close the <pre>
+        renderer: token => `<pre class="mermaid${token.gantt ? ' gantt-chart' : ''}">${this.context.sanitize ? escapeHtml(token.text) : token.text}</pre>\n`
+      },
+      {
+        name: 'toc',
+        renderer: token => {
+          const entries = token.list === 'lof' ? this.outline.figures : token.list === 'lot' ? this.outline.tables : this.outline.headings;
+          return renderToc(entries, token.depth, token.list);
+        }
+      },
+      {
+        name: 'figure',
+        renderer(token) {
+          const caption = `<figcaption><span class="caption-number">${escapeHtml(token.number)}</span> ${this.parser.parseInline(token.caption)}</figcaption>`;
+          const content = this.parser.parse(token.tokens ?? []).trim();
+          // Table captions go above the table, figure captions below
+          return `<figure class="aksara-${token.kind}" id="${token.id}">\n` +
+            (token.kind === 'table' ? `${caption}\n${content}` : `${content}\n${caption}`) + '\n</figure>\n';
+        }
+      },
+      {
+        name: 'callout',
+        renderer(token) {
+          return `<div class="callout callout-${token.kind}">\n<p class="callout-title">${this.parser.parseInline(token.title)}</p>\n` +
+            `${this.parser.parse(token.tokens ?? [])}</div>\n`;
+        }
+      },
+      {
+        name: 'columns',
+        renderer(token) {
+          const parse = (tokens: Token[]) => this.parser.parse(tokens);
+          const columns = (token.tokens ?? []) as unknown as ColumnToken[];
+          const tracks = columns.map(column => column.width || '1fr').join(' ');
+          const content = self.renderBlocks(token.tokens ?? [], ([column]) => {
+            const { align, tokens } = column as unknown as ColumnToken;
+            return `<div class="column"${align ? ` style="text-align: ${align}"` : ''}>\n${self.renderBlocks(tokens, parse)}</div>\n`;
+          });
+          return `<div class="columns" style="grid-template-columns: ${escapeHtml(tracks)}">\n${content}</div>\n`;
+        }
+      },
+      {
+        name: 'lang',
+        renderer(token) {
+          if (token.hidden) return '';
+          return `<div class="lang-block" lang="${escapeHtml(token.lang)}">\n${self.renderBlocks(token.tokens ?? [], tokens => this.parser.parse(tokens))}</div>\n`;
+        }
+      },
+      {
+        name: 'definitionList',
+        renderer(token) {
+          // A definition of one paragraph is rendered without <p>, like a tight list item
+          const items = (token as DefinitionListToken).tokens.map(item => {
+            if (item.type === 'definitionTerm') return `<dt>${this.parser.parseInline(item.tokens)}</dt>\n`;
+            const blocks = item.tokens.filter(child => child.type !== 'space');
+            const content = blocks.length === 1 && blocks[0].type === 'paragraph'
+              ? this.parser.parseInline((blocks[0] as Tokens.Paragraph).tokens)
+              : `\n${this.parser.parse(blocks)}`;
+            return `<dd>${content}</dd>\n`;
+          });
+          return `<dl>\n${items.join('')}</dl>\n`;
+        }
+      },
+      {
+        name: 'abbreviation',
+        renderer: () => '' // applied where the abbreviation is used
+      },
+      {
+        name: 'abbr',
+        renderer: token => `<abbr title="${escapeHtml(token.title)}">${escapeHtml(token.text)}</abbr>`
+      },
+      ...(['mark', 'sub', 'sup'] as const).map((name): RendererExtension => ({
+        name,
+        renderer(token) {
+          return `<${name}>${this.parser.parseInline(token.tokens ?? [])}</${name}>`;
+        }
+      })),
+      {
+        name: 'xref',
+        renderer: token => token.target
+          ? `<a class="xref" href="#${token.target}">${escapeHtml(token.text)}</a>`
+          : escapeHtml(token.text)
+      },
+      {
+        name: 'footnote',
+        renderer: () => '' // listed where it is first referenced
+      },
+      {
+        name: 'footnoteRef',
+        renderer: token => {
+          if (!token.number) return escapeHtml(token.raw);
+          if (token.first) this.footnotes?.push(this.notes.footnotes[token.number - 1]);
+          return `<sup class="footnote-ref"><a href="#fn-${token.number}" id="${token.id}">${token.number}</a></sup>`;
+        }
+      },
+      {
+        name: 'citation',
+        renderer: token => token.style
+          ? wrapCitation(token.items.map((item: { text: string; target?: string }) => item.target
+            ? `<a class="citation" href="#${escapeHtml(item.target)}">${escapeHtml(item.text)}</a>`
+            : escapeHtml(item.text)), token.style)
+          : escapeHtml(token.raw)
+      },
+      {
+        name: 'bibliography',
+        renderer: () => renderBibliography(this.notes, this.context.locale)
+      },
+      {
+        name: 'pluginBlock',
+        renderer: token => {
+          const { plugin, lang, args, text } = token as PluginBlockToken;
+          const block = this.plugins.block(lang);
+          const html = block && this.plugins.render(plugin, context => block.renderer.html({ lang, args, text }, context));
+          return html === undefined ? `<pre><code class="language-${escapeHtml(lang)}">${escapeHtml(text)}\n</code></pre>\n` : `${html}\n`;
+        }
+      },
+      {
+        name: 'pluginInline',
+        renderer: token => {
+          const { plugin, index, match, text } = token as PluginInlineToken;
+          const entry = this.plugins.inline().find(item => item.plugin === plugin && item.index === index);
+          const html = entry && this.plugins.render(plugin, context => entry.syntax.html(match, context));
+          return html ?? escapeHtml(text);
+        }
+      },
+      {
+        name: 'diagram',
+        renderer: token => token.error
+          ? `<pre class="error">AksaraDraw Error: ${escapeHtml(token.error)}</pre>\n`
+          : `<div class="aksara-diagram">${token.svg}</div>\n`
+      }
+    ];
+  }
+
+  get renderer(): RendererObject {
+    const self = this;
+
+    return {
+      paragraph({ tokens }: Tokens.Paragraph) {
+        // Line breaks left behind by extracted background images are dropped
+        const content = this.parser.parseInline(tokens).trim().replace(/^(<br>\s*)+|(\s*<br>)+$/g, '');
+        if (!content) return '';
+
+        // Paragraphs holding only positioned images stay unwrapped
+        const unwrapped = tokens.every(token =>
+          isPositionedImage(token) || token.type === 'br' || (token.type === 'text' && !token.text.trim())
+        );
+
+        return unwrapped ? `${content}\n` : `<p style="position: relative; z-index: 2;">${content}</p>\n`;
+      },
+
+      heading({ tokens, depth, id, number }: Tokens.Heading & { id?: string; number?: string }) {
+        const attributes = id ? ` id="${escapeHtml(id)}"` : '';
+        const prefix = number ? `<span class="heading-number">${escapeHtml(number)}</span> ` : '';
+        return `<h${depth}${attributes}>${prefix}${this.parser.parseInline(tokens)}</h${depth}>\n`;
+      },
+
+      image(token: Tokens.Image) {
+        const placement = (token as Partial<AksaraImageToken>).placement;
+        const src = self.context.resolveImage(token.href);
+        const html = renderImage(src, placement ?? { alt: token.text, position: {}, size: {} });
+
+        if (placement && self.backgrounds && isBackgroundPlacement(placement)) {
+          self.backgrounds.push(html);
+          return '';
+        }
+        return html;
+      },
+
+      // Alignment as inline style so theme `th { text-align }` rules don't override it
+      table(token: Tokens.Table) {
+        const { header, rows, widths } = token as AksaraTableToken;
+        const cell = (cell: AksaraTableCell, tag: 'th' | 'td') => {
+          if (cell.merged) return '';
+          const attributes = (cell.colspan && cell.colspan > 1 ? ` colspan="${cell.colspan}"` : '') +
+            (cell.rowspan && cell.rowspan > 1 ? ` rowspan="${cell.rowspan}"` : '') +
+            (cell.align ? ` style="text-align: ${cell.align}"` : '');
+          return `<${tag}${attributes}>${this.parser.parseInline(cell.tokens)}</${tag}>\n`;
+        };
+        const row = (cells: AksaraTableCell[], tag: 'th' | 'td') => `<tr>\n${cells.map(item => cell(item, tag)).join('')}</tr>\n`;
+
+        const colgroup = widths ? `<colgroup>\n${widths.map(width => `<col style="width: ${escapeHtml(width)}">`).join('\n')}\n</colgroup>\n` : '';
+        const body = rows.length > 0 ? `<tbody>\n${rows.map(cells => row(cells, 'td')).join('')}</tbody>\n` : '';
+        return `<table${widths ? ' class="fixed-widths"' : ''}>\n${colgroup}<thead>\n${row(header, 'th')}</thead>\n${body}</table>\n`;
+      },
+
+      // GFM task list items: a checkbox before the text, inside the first paragraph of loose items
+      listitem(item: Tokens.ListItem) {
+        if (!item.task) return false;
+        const checkbox = `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+        const content = this.parser.parse(item.tokens, !!item.loose);
+        const body = item.loose ? content.replace(/^(\s*<p[^>]*>)/, `$1${checkbox}`) : checkbox + content;
+        return `<li class="task-list-item">${body}</li>\n`;
+      },
+
+      code({ text, lang }: Tokens.Code) {
+        const language = (lang || '').trim() || 'plaintext';
+        return `<pre><code class="language-${escapeHtml(language)}">${escapeHtml(text)}\n</code></pre>\n`;
+      }
+    };
+  }
+
+  /**
+   * Render block tokens one by one, marking each with the line it starts at: `data-source-line`,
+   * and `data-source-file` for blocks from included files
+   */
+  renderBlocks(tokens: Token[], render: (tokens: Token[]) => string): string {
+    return tokens.map(token => {
+      const html = this.context.within(token, () => render([token]));
+      const source = (token as Located).source;
+      if (!source) return html;
+
+      const attributes = ` data-source-line="${source.line}"` +
+        (source.file && source.file !== this.context.sourceFile ? ` data-source-file="${escapeHtml(source.file)}"` : '');
+      return html.replace(/^(\s*<[a-z][\w-]*)/i, `$1${attributes}`);
+    }).join('');
+  }
+
+  /**
+   * Render a section, collecting its background images and the footnotes it references
+   */
+  collectSection<T>(render: (footnotes: NoteEntry[]) => T): { result: T; backgrounds: string } {
+    this.backgrounds = [];
+    this.footnotes = [];
+    try {
+      const result = render(this.footnotes);
+      return { result, backgrounds: this.backgrounds.join('\n') };
+    } finally {
+      this.backgrounds = null;
+      this.footnotes = null;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import type { Token, Located } from './types';
+import type { SourceLocation } from '../types';
+
+// Blocks whose children are lexed from their own raw text, so the children can be found in it
+const CONTAINERS = ['columns', 'column', 'lang'];
+
+/**
+ * Record where block tokens start and end. `lines` is the origin of every line of `content`,
+ * the text the tokens were lexed from; blocks inside `:::columns` and `:::lang` are located too.
+ */
+export function locateTokens(tokens: Token[], content: string, lines: SourceLocation[]): void {
+  const lineStarts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+
+  const lineAt = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return lines[low];
+  };
+
+  const visit = (children: Token[], raw: string, base: number) => {
+    let cursor = 0;
+    for (const token of children) {
+      const index = raw.indexOf(token.raw, cursor);
+      if (index === -1 || !token.raw.trim()) continue;
+      cursor = index + token.raw.length;
+
+      const start = base + index + token.raw.length - token.raw.trimStart().length;
+      const first = lineAt(start);
+      const last = lineAt(base + index + token.raw.trimEnd().length - 1);
+      if (!first) continue;
+
+      (token as Located).source = { ...first, endLine: last?.file === first.file ? last.line : undefined };
+      if (CONTAINERS.includes(token.type) && 'tokens' in token && token.tokens) {
+        visit(token.tokens, token.raw, base + index);
+      }
+    }
+  };
+
+  visit(tokens, content, 0);
+}
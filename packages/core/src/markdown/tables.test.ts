@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test';
+import { AksaraConverter } from '../index';
+import { parseNumber, toIdentifier } from './tables';
+
+async function convert(markdown: string) {
+  const result = await new AksaraConverter({ format: 'html' }).convert(markdown);
+  const html = result.data!.toString();
+  return {
+    html,
+    cells: [...html.matchAll(/<td[^>]*>([\s\S]*?)<\/td>/g)].map(match => match[1].replace(/<[^>]+>/g, '')),
+    diagnostics: result.diagnostics ?? []
+  };
+}
+
+const invoice = [
+  '| Barang | Qty | Harga | Jumlah |',
+  '|---|---|---|---|',
+  '| Kertas | 2 | Rp 50.000 | =qty * harga |',
+  '| Tinta | 3 | Rp 25.000 | =Qty * Harga |',
+  '| **Subtotal** | | | =sum(Jumlah) |',
+  '| PPN | | | =ppn(11%) |',
+  '| **Total** | | | **=above + Subtotal** |',
+  ''
+].join('\n');
+
+describe('toIdentifier', () => {
+  test('labels become variable names', () => {
+    expect(toIdentifier('Harga Satuan')).toBe('harga_satuan');
+    expect(toIdentifier('Harga Satuan', true)).toBe('Harga_Satuan');
+    expect(toIdentifier('Keterangan (Rp)')).toBe('keterangan_rp');
+    expect(toIdentifier('2024')).toBe('_2024');
+  });
+});
+
+describe('parseNumber', () => {
+  test('reads numbers the way the locale writes them', () => {
+    expect(parseNumber('Rp 1.500.000,50', 'id')).toBe(1500000.5);
+    expect(parseNumber('1,500.5', 'en')).toBe(1500.5);
+    expect(parseNumber('11%', 'id')).toBe(0.11);
+    expect(parseNumber('Kertas', 'id')).toBeNull();
+  });
+});
+
+describe('table formulas', () => {
+  test('row formulas use the columns of their row, in any case', async () => {
+    const { cells } = await convert(invoice);
+    expect(cells[3]).toBe('Rp 100.000');
+    expect(cells[7]).toBe('Rp 75.000');
+  });
+
+  test('totals rows sum the columns and name themselves after their label', async () => {
+    const { cells, diagnostics } = await convert(invoice);
+    expect(cells[11]).toBe('Rp 175.000');
+    expect(cells[15]).toBe('Rp 19.250');
+    expect(cells[19]).toBe('Rp 194.250');
+    expect(diagnostics).toEqual([]);
+  });
+
+  test('columns and totals are document variables', async () => {
+    const { html } = await convert(`${invoice}\nTotal bayar \${total}, ${'${count(jumlah)}'} barang.\n`);
+    expect(html).toContain('Total bayar 194250, 2 barang.');
+  });
+
+  test('an unknown column is reported and the cell kept', async () => {
+    const { cells, diagnostics } = await convert('| A | B |\n|---|---|\n| 1 | =sum(Harga) |\n');
+    expect(cells[1]).toBe('=sum(Harga)');
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toContain('formula-error');
+    expect(diagnostics[0].message).toContain("Unknown identifier 'Harga'");
+  });
+
+  test('==highlight== is not a formula', async () => {
+    const { html } = await convert('| A |\n|---|\n| ==penting== |\n');
+    expect(html).toContain('<mark>penting</mark>');
+  });
+});
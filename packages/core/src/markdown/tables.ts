@@ -0,0 +1,228 @@
+import type { Tokens, Token, MarkdownContext, AksaraTableCell, AksaraTableToken } from './types';
+import type { ExpressionScope, ExpressionValue } from '../expressions';
+
+const AGGREGATE_REGEX = /\b(sum|avg|min|max|count|ppn)\s*\(/;
+// `=total * 2`, also wrapped in emphasis; `==text==` is a highlight, not a formula
+const FORMULA_REGEX = /^(\*\*|__|\*|_)?=(?!=)(.+?)\1?$/;
+const WIDTHS_REGEX = /^<!--\s*widths:\s*(.*?)\s*-->\s*$/i;
+const COLSPAN_MARKER = '<<';
+const ROWSPAN_MARKER = '^^';
+
+interface Formula {
+  expression: string;
+  marker: string; // emphasis wrapped around the formula, re-applied to the result
+}
+
+/**
+ * Column or row label as a variable name: "Harga Satuan" → harga_satuan, or Harga_Satuan keeping its case
+ */
+export function toIdentifier(label: string, keepCase = false): string {
+  return (keepCase ? label : label.toLowerCase())
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .replace(/^(\d)/, '_$1');
+}
+
+/**
+ * Names a label is bound to: lowercase and as written, so `=sum(Jumlah)` and `=sum(jumlah)` both work
+ */
+function identifiers(label: string): string[] {
+  return [...new Set([toIdentifier(label), toIdentifier(label, true)])].filter(Boolean);
+}
+
+function cellText(cell: Tokens.TableCell, context: MarkdownContext): string {
+  const flatten = (tokens: Token[]): string => tokens.map(token => {
+    if (token.type === 'expression') {
+      // Evaluated here so numbers in cells are known; the transform skips it later
+      if (!('value' in token)) token.value = context.evaluate(token.expression);
+      return token.value ?? token.raw;
+    }
+    const generic = token as Tokens.Generic;
+    return generic.tokens ? flatten(generic.tokens) : generic.text ?? '';
+  }).join('');
+
+  return flatten(cell.tokens).trim();
+}
+
+function parseFormula(cell: Tokens.TableCell): Formula | null {
+  const match = cell.text.trim().match(FORMULA_REGEX);
+  return match ? { expression: match[2].trim(), marker: match[1] || '' } : null;
+}
+
+/**
+ * Read a cell as a number using the document locale: "Rp 1.500.000,50" → 1500000.5, "11%" → 0.11
+ */
+export function parseNumber(text: string, locale: string): number | null {
+  const decimal = (1.5).toLocaleString(locale).charAt(1);
+  let value = text.replace(/Rp\.?/i, '').replace(/\s/g, '').replace('−', '-');
+  const percent = value.endsWith('%');
+  if (percent) value = value.slice(0, -1);
+
+  value = decimal === ','
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value.replace(/,/g, '');
+
+  if (!/^-?\d+(\.\d+)?$/.test(value)) return null;
+  return percent ? Number(value) / 100 : Number(value);
+}
+
+function formatNumber(value: number, locale: string, currency: boolean): string {
+  const text = Math.abs(value).toLocaleString(locale, { maximumFractionDigits: 2 });
+  return `${value < 0 ? '-' : ''}${currency ? 'Rp ' : ''}${text}`;
+}
+
+function setCellText(cell: Tokens.TableCell, text: string, marker: string): void {
+  const textToken: Tokens.Text = { type: 'text', raw: text, text, escaped: false };
+  const wrapper = marker === '**' || marker === '__' ? 'strong' : marker ? 'em' : '';
+
+  cell.text = `${marker}${text}${marker}`;
+  cell.tokens = wrapper
+    ? [{ type: wrapper, raw: cell.text, text, tokens: [textToken] } as Tokens.Strong | Tokens.Em]
+    : [textToken];
+}
+
+/**
+ * Evaluate `=formula` cells of a GFM table.
+ *
+ * Rows before the first formula using sum/avg/min/max/count/ppn are data rows:
+ * column names (`=qty*harga`, in lowercase or as written) refer to the values of the same row. From that
+ * row on the table is a summary: column names refer to the whole column of the
+ * data rows (`=sum(jumlah)`), `above` is the value above in the same column and
+ * each row is named after its label (`Subtotal` → `subtotal`). Columns and row
+ * names are published as document variables for later `${...}` expressions.
+ */
+export function applyTableFormulas(table: Tokens.Table, context: MarkdownContext): void {
+  const formulas = table.rows.map(row => row.map(parseFormula));
+  if (!formulas.some(row => row.some(Boolean))) return;
+
+  const names = table.header.map(cell => identifiers(cellText(cell, context)));
+  // Rupiah columns keep their prefix, also in formulas built from them
+  const currency = names.map((_, column) =>
+    table.rows.some((row, index) => !formulas[index][column] && /^[-−]?\s*Rp/i.test(cellText(row[column], context)))
+  );
+  const usesCurrency = (expression: string) =>
+    names.filter((_, column) => currency[column]).flat().some(name => new RegExp(`\\b${name}\\b`).test(expression));
+
+  const columns: Record<string, ExpressionValue[]> = {};
+  const named: ExpressionScope = {};
+  const above: ExpressionValue[] = [];
+  let summary = false;
+
+  table.rows.forEach((row, rowIndex) => {
+    const rowFormulas = formulas[rowIndex];
+    summary = summary || rowFormulas.some(formula => formula !== null && AGGREGATE_REGEX.test(formula.expression));
+
+    // Literal cells first so formulas can use any column of the row
+    const values: ExpressionScope = {};
+    row.forEach((cell, column) => {
+      if (rowFormulas[column]) return;
+      const text = cellText(cell, context);
+      values[column] = text === '' ? null : parseNumber(text, context.locale) ?? text;
+    });
+
+    row.forEach((cell, column) => {
+      const formula = rowFormulas[column];
+      if (!formula) return;
+
+      const scope: ExpressionScope = summary
+        ? { ...columns, ...named, above: above[column] ?? null }
+        : Object.fromEntries(names.flatMap((ids, index) => ids.map(id => [id, values[index]])));
+
+      const value = context.compute(formula.expression, scope);
+      if (value === undefined) return;
+
+      const rupiah = currency[column] || usesCurrency(formula.expression);
+      // A column of amounts computed from prices is in rupiah too, also when summed
+      if (rupiah && !summary) currency[column] = true;
+      const text = typeof value === 'number' ? formatNumber(value, context.locale, rupiah) : context.format(value);
+      setCellText(cell, text, formula.marker);
+      values[column] = typeof value === 'string' ? parseNumber(value, context.locale) ?? value : value;
+    });
+
+    if (summary) {
+      // The row label is its first text cell, the row value its last number
+      const label = row.map((cell, column) => rowFormulas[column] ? '' : cellText(cell, context))
+        .find(text => text !== '' && parseNumber(text, context.locale) === null);
+      const numbers = Object.values(values).filter((value): value is number => typeof value === 'number');
+      row.forEach((_, column) => {
+        if (typeof values[column] === 'number') above[column] = values[column];
+      });
+
+      for (const name of numbers.length > 0 && label ? identifiers(label) : []) {
+        named[name] = numbers[numbers.length - 1];
+        context.define(name, named[name]);
+      }
+    } else {
+      names.forEach((ids, column) => {
+        for (const id of ids) (columns[id] ||= []).push(values[column] ?? null);
+      });
+    }
+  });
+
+  for (const [name, values] of Object.entries(columns)) {
+    context.define(name, values);
+  }
+}
+
+/**
+ * Merge cells: `<<` joins a cell to the one on its left, `^^` to the one above.
+ * Markers continue a span, so `| Total | << | << |` spans three columns.
+ */
+export function applyTableSpans(table: AksaraTableToken): void {
+  const grid = [table.header, ...table.rows];
+  const origins: [number, number][][] = grid.map((row, r) => row.map((_, c) => [r, c]));
+
+  grid.forEach((row, r) => row.forEach((cell, c) => {
+    const marker = cell.text.trim();
+    // Header cells can only span columns
+    const source = marker === COLSPAN_MARKER && c > 0 ? origins[r][c - 1]
+      : marker === ROWSPAN_MARKER && r > 1 ? origins[r - 1][c]
+      : null;
+    if (!source) return;
+
+    const [originRow, originColumn] = source;
+    const origin: AksaraTableCell = grid[originRow][originColumn];
+    origin.colspan = Math.max(origin.colspan ?? 1, c - originColumn + 1);
+    origin.rowspan = Math.max(origin.rowspan ?? 1, r - originRow + 1);
+    cell.merged = true;
+    origins[r][c] = source;
+  }));
+}
+
+/**
+ * Give tables their column widths from a `<!-- widths: 20% 50% 30% -->` comment
+ * right before them. Plain numbers are proportions: `1 3 2` → 16.67% 50% 33.33%.
+ */
+export function applyTableWidths(tokens: Token[], context: MarkdownContext): void {
+  tokens.forEach((token, index) => {
+    const generic = token as Tokens.Generic;
+    if (generic.tokens && token.type !== 'table') applyTableWidths(generic.tokens, context);
+    if (token.type === 'list') (token as Tokens.List).items.forEach(item => applyTableWidths(item.tokens, context));
+
+    const match = token.type === 'html' ? token.raw.trim().match(WIDTHS_REGEX) : null;
+    if (!match) return;
+
+    const table = tokens[index + 1];
+    if (table?.type !== 'table') {
+      context.warn('table-widths', 'Column widths must be directly followed by a table', token.raw.trim());
+      return;
+    }
+
+    const values = match[1].split(/[\s,]+/).filter(Boolean);
+    const columns = (table as AksaraTableToken).header.length;
+    if (values.length !== columns) {
+      context.warn('table-widths', `Column widths list ${values.length} values for ${columns} columns`, token.raw.trim());
+    }
+
+    const total = values.every(value => /^\d+(\.\d+)?$/.test(value))
+      ? values.reduce((sum, value) => sum + Number(value), 0)
+      : 0;
+    (table as AksaraTableToken).widths = values.map(value =>
+      total > 0 ? `${Math.round(Number(value) / total * 10000) / 100}%` : value);
+
+    // Kept as a token so source offsets still add up
+    Object.assign(token, { type: 'space' });
+  });
+}
@@ -0,0 +1,45 @@
+import type { TocEntry, TocToken } from './types';
+import { escapeHtml } from './renderer';
+
+const DEFAULT_DEPTH = 3;
+
+/**
+ * `[toc]`, `[toc:2]`, `<!-- toc -->` or `<!-- toc: 2 -->` on its own line; the number is the deepest heading level listed.
+ * `lof` (Daftar Gambar) and `lot` (Daftar Tabel) list captioned figures and tables the same way.
+ */
+export const TOC_REGEX = /^(?:\[(toc|lof|lot)(?::\s*([1-6]))?\]|<!--\s*(toc|lof|lot)(?::\s*([1-6]))?\s*-->)\s*$/i;
+
+export function parseTocPlaceholder(match: RegExpMatchArray): Pick<TocToken, 'list' | 'depth'> {
+  return {
+    list: (match[1] || match[3]).toLowerCase() as TocToken['list'],
+    depth: Number(match[2] || match[4]) || DEFAULT_DEPTH
+  };
+}
+
+/**
+ * Heading anchor: "Bab 2: Analisis Pasar" → bab-2-analisis-pasar
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'bagian';
+}
+
+/**
+ * Linked list of headings, figures or tables. Page numbers start as the section
+ * number; the PDF converter replaces them with the real page after layout.
+ */
+export function renderToc(entries: TocEntry[], depth: number, list: TocToken['list'] = 'toc'): string {
+  const items = entries
+    .filter(entry => entry.level <= depth)
+    .map(entry => `<li class="toc-item toc-level-${entry.level}"><a href="#${entry.id}">` +
+      (entry.number ? `<span class="toc-number">${escapeHtml(entry.number)}</span> ` : '') +
+      `<span class="toc-text">${escapeHtml(entry.text)}</span><span class="toc-leader"></span>` +
+      `<span class="toc-page" data-target="${entry.id}">${entry.section}</span></a></li>`)
+    .join('\n');
+
+  return `<nav class="toc${list === 'toc' ? '' : ` toc-${list}`}">\n<ul class="toc-list">\n${items}\n</ul>\n</nav>\n`;
+}
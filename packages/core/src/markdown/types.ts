@@ -0,0 +1,304 @@
+import type { Token, Tokens } from 'marked';
+import type { ExpressionScope, ExpressionValue } from '../expressions';
+import type { BibEntry, CitationStyle } from '../bibliography';
+import type { SourceLocation } from '../types';
+import type { SanitizePolicy } from '../sanitize';
+import type { MathRun } from '../math';
+
+export type { Token, Tokens };
+
+/**
+ * Block tokens record where they come from, for `data-source-line` in HTML
+ */
+export interface Located {
+  source?: SourceLocation;
+}
+
+export type ImageType = 'bg' | 'fg' | 'lg' | 'wm';
+
+export interface ImagePlacement {
+  type?: ImageType;
+  alt: string;
+  position: Record<string, string>;
+  size: Record<string, string>;
+  legacy?: boolean;
+  pageBackground?: boolean;
+}
+
+export interface AksaraImageToken extends Tokens.Image {
+  placement: ImagePlacement;
+}
+
+export interface AksaraTableCell extends Tokens.TableCell {
+  colspan?: number;
+  rowspan?: number;
+  merged?: boolean; // covered by a span, not rendered
+}
+
+export interface AksaraTableToken extends Tokens.Table {
+  header: AksaraTableCell[];
+  rows: AksaraTableCell[][];
+  widths?: string[]; // CSS widths from `<!-- widths: ... -->`
+}
+
+export interface ExpressionToken {
+  type: 'expression';
+  raw: string;
+  expression: string;
+  value?: string;
+}
+
+export interface MermaidToken {
+  type: 'mermaid';
+  raw: string;
+  text: string;
+  gantt: boolean;
+}
+
+export interface DiagramToken {
+  type: 'diagram';
+  raw: string;
+  lang: string;
+  svg?: string;
+  error?: string;
+}
+
+export interface MathToken {
+  type: 'math';
+  raw: string;
+  tex: string;
+  text: string; // for plain text: the formula read from the SVG, the TeX when it did not render
+  display: boolean; // `$$...$$`
+  svg?: string; // unset when the TeX has errors
+  runs?: MathRun[]; // the rendered formula as text with raised and lowered parts, for slides
+}
+
+export interface InlineFormatToken {
+  type: 'mark' | 'sub' | 'sup'; // `==highlight==`, `H~2~O`, `m^2^`
+  raw: string;
+  text: string;
+  tokens: Token[];
+}
+
+export interface AbbreviationToken {
+  type: 'abbreviation'; // `*[BUMN]: Badan Usaha Milik Negara`, applies to the whole document
+  raw: string;
+  abbr: string;
+  title: string;
+}
+
+export interface AbbrToken {
+  type: 'abbr';
+  raw: string;
+  text: string; // the abbreviation as written
+  title: string;
+}
+
+export interface TocToken {
+  type: 'toc';
+  raw: string;
+  list: 'toc' | 'lof' | 'lot'; // headings, figures (Daftar Gambar) or tables (Daftar Tabel)
+  depth: number; // deepest heading level listed
+}
+
+export type NumberingStyle = 'decimal' | 'bab'; // 1 / 1.1 / 1.1.1, or BAB I / 1.1 / 1.1.1
+
+export type BilingualMode = 'single' | 'side-by-side' | 'sequential'; // one language, translations in columns, or one after another
+
+export type CaptionKind = 'figure' | 'table';
+
+export interface FigureToken extends Located {
+  type: 'figure';
+  raw: string;
+  kind: CaptionKind;
+  id: string;
+  label?: string; // `fig:penjualan` from `{#fig:penjualan}`
+  number: string; // "Gambar 2.1"
+  caption: Token[]; // inline tokens
+  tokens: Token[]; // the captioned image, diagram or table
+}
+
+export interface ReferenceToken {
+  type: 'xref';
+  raw: string;
+  label: string; // fig:penjualan
+  text: string; // resolved number, or the raw text when unknown
+  target?: string; // anchor id when resolved
+}
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string; // heading anchor
+  section: number; // 1-based section index
+  number?: string; // "BAB I", "1.2", "Gambar 2.1"
+}
+
+export interface DocumentOutline {
+  headings: TocEntry[];
+  figures: TocEntry[];
+  tables: TocEntry[];
+  labels: Record<string, TocEntry>; // `fig:penjualan` → its figure, for @references
+}
+
+export type CalloutKind = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+export interface CalloutToken {
+  type: 'callout';
+  raw: string;
+  kind: CalloutKind;
+  title: Token[]; // inline tokens
+  tokens: Token[]; // block content
+}
+
+export interface ColumnToken {
+  type: 'column';
+  raw: string;
+  width?: string; // grid track: `2fr`, `40%`
+  align?: 'left' | 'center' | 'right';
+  tokens: Token[];
+}
+
+export interface LangToken {
+  type: 'lang';
+  raw: string;
+  lang: string; // `id`, `en`, lowercase
+  tokens: Token[]; // emptied when the block is not shown
+  hidden?: boolean;
+  primary?: boolean; // numbered in the outline: the document language, or the shown translation
+}
+
+export interface DefinitionTermToken {
+  type: 'definitionTerm';
+  raw: string;
+  tokens: Token[]; // inline tokens
+}
+
+export interface DefinitionToken {
+  type: 'definition';
+  raw: string;
+  tokens: Token[]; // block content of `: ...`
+}
+
+export interface DefinitionListToken {
+  type: 'definitionList';
+  raw: string;
+  tokens: (DefinitionTermToken | DefinitionToken)[]; // each term followed by its definitions
+}
+
+export interface ColumnsToken {
+  type: 'columns';
+  raw: string;
+  tokens: ColumnToken[];
+}
+
+export interface PluginBlockToken {
+  type: 'pluginBlock';
+  raw: string;
+  plugin: string;
+  lang: string; // fence language the plugin registered
+  args: string; // rest of the info string
+  text: string;
+}
+
+export interface PluginInlineToken {
+  type: 'pluginInline';
+  raw: string;
+  plugin: string;
+  index: number; // position in the plugin's `inline` list
+  match: RegExpMatchArray;
+  text: string; // plain text for PPTX, outlines and headers
+}
+
+export interface FootnoteToken {
+  type: 'footnote';
+  raw: string;
+  label: string;
+  tokens: Token[]; // block content of `[^label]: ...`
+}
+
+export interface FootnoteRefToken {
+  type: 'footnoteRef';
+  raw: string;
+  label: string;
+  number?: number; // set once the document is numbered; unset for unknown labels
+  id?: string; // anchor of this reference, fnref-1 / fnref-1-2
+  first?: boolean; // the note is listed after the first reference only
+}
+
+export interface CitationItem {
+  key: string;
+  locator?: string; // "hlm. 12"
+  text?: string; // "Widodo dkk., 2020, hlm. 12" (APA) or "1, hlm. 12" (IEEE)
+  target?: string; // anchor of the reference list entry
+}
+
+export interface CitationToken {
+  type: 'citation';
+  raw: string;
+  items: CitationItem[];
+  style?: CitationStyle; // set when resolved against a bibliography
+  text?: string; // plain text of the whole citation
+}
+
+export interface BibliographyToken {
+  type: 'bibliography';
+  raw: string;
+}
+
+export interface Bibliography {
+  entries: BibEntry[];
+  style: CitationStyle;
+}
+
+export interface NoteEntry {
+  number: number;
+  label: string;
+  tokens: Token[];
+  section: number; // 1-based section of the first reference
+}
+
+export interface DocumentNotes {
+  footnotes: NoteEntry[]; // in reference order
+  references: BibEntry[]; // cited entries in reference list order
+  style: CitationStyle;
+  years: Map<string, string>; // APA years with 2020a/2020b suffixes, by entry id
+}
+
+export interface MarkdownContext {
+  evaluate: (expression: string) => string | undefined;
+  resolveImage: (src: string) => string;
+  warn: (code: string, message: string, snippet?: string) => void;
+  within: <T>(block: Token, process: () => T) => T; // warnings of `process` are located inside the block
+  locale: string; // BCP 47 locale for numbers in table formulas
+  sourceFile?: string; // root document; blocks from other files are marked with `data-source-file`
+  compute: (expression: string, scope: ExpressionScope) => ExpressionValue | undefined; // raw value, errors are reported
+  format: (value: ExpressionValue) => string;
+  define: (name: string, value: ExpressionValue) => void; // document variable for later expressions
+  sanitize?: SanitizePolicy; // set for untrusted input: raw HTML and URLs are filtered
+}
+
+export type SlideLayout = 'title' | 'two-column' | 'image-left';
+
+export interface PageSetup {
+  size?: string; // A3, A4, A5, Letter, Legal or 210mmx297mm
+  orientation?: 'portrait' | 'landscape';
+}
+
+/**
+ * `<!-- key: value -->` comments that apply to one section only
+ */
+export interface SectionDirectives {
+  classes?: string;
+  header?: string | false; // false for `header: none`
+  footer?: string | false;
+  background?: string | false;
+  page?: PageSetup;
+  layout?: SlideLayout;
+}
+
+export interface RenderedSection {
+  html: string;
+  backgrounds: string;
+  footnotes: string; // notes first referenced in the section
+}
@@ -0,0 +1,26 @@
+import { describe, expect, test } from 'bun:test';
+import { renderMath, mathRuns } from './math';
+import { AksaraConverter } from './index';
+
+const runs = (tex: string) => mathRuns(renderMath(tex, false));
+
+describe('mathRuns', () => {
+  test('formulas read as text, with letters in plain italic', () => {
+    expect(runs('\\frac{a}{b}')).toEqual([{ text: 'a/b' }]);
+    expect(runs('\\frac{a+1}{2}')).toEqual([{ text: '(a + 1)/2' }]);
+    expect(runs('\\sqrt{y} \\le \\alpha')).toEqual([{ text: '√y ≤ α' }]);
+  });
+
+  test('scripts are raised and lowered runs', () => {
+    expect(runs('E = mc^2')).toEqual([{ text: 'E = mc' }, { text: '2', script: 'sup' }]);
+    expect(runs('x_i^2')).toEqual([{ text: 'x' }, { text: '2', script: 'sup' }, { text: 'i', script: 'sub' }]);
+  });
+});
+
+describe('inline formulas as plain text', () => {
+  test('are read from the rendering instead of showing TeX', async () => {
+    const result = await new AksaraConverter({ format: 'html' }).convert('# Luas $\\pi r^2$\n\n[toc]\n');
+    // The table of contents lists headings as plain text
+    expect(result.data!.toString()).toContain('Luas πr²');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * LaTeX math to SVG with MathJax, at conversion time and without a network script.
+ * The same SVG is inlined in HTML and PDF and embedded as an image in PPTX.
+ */
+
+import { mathjax } from 'mathjax-full/js/mathjax.js';
+import { TeX } from 'mathjax-full/js/input/tex.js';
+import { SVG } from 'mathjax-full/js/output/svg.js';
+import { liteAdaptor, LiteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js';
+import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html.js';
+import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages.js';
+
+type Engine = { adaptor: LiteAdaptor; document: ReturnType<typeof mathjax.document> };
+
+const engines = new Map<boolean, Engine>();
+
+// \href, \class, \style, \cssId and \data write attributes into the SVG, they are left out for untrusted markdown.
+// Without noundefined, using them is a TeX error instead of red text.
+const UNSAFE_PACKAGES = ['html', 'noundefined'];
+
+// MathJax is set up on the first formula, documents without math don't pay for it
+function getEngine(safe: boolean): Engine {
+  let engine = engines.get(safe);
+  if (!engine) {
+    const adaptor = liteAdaptor();
+    RegisterHTMLHandler(adaptor);
+    const document = mathjax.document('', {
+      InputJax: new TeX({
+        packages: safe ? AllPackages.filter(name => !UNSAFE_PACKAGES.includes(name)) : AllPackages,
+        formatError: (_jax: unknown, error: { message: string }) => { throw new Error(error.message); }
+      }),
+      OutputJax: new SVG({ fontCache: 'none' }) // every SVG stands alone
+    });
+    engine = { adaptor, document };
+    engines.set(safe, engine);
+  }
+  return engine;
+}
+
+/**
+ * Render TeX to an SVG element; throws on TeX errors such as a missing brace.
+ * `safe` leaves out the commands that write HTML attributes, for untrusted markdown.
+ */
+export function renderMath(tex: string, display: boolean, safe = false): string {
+  const { adaptor, document } = getEngine(safe);
+  return adaptor.innerHTML(document.convert(tex, { display }));
+}
+
+/**
+ * Width and height of a rendered formula in ex, half the font size
+ */
+export function mathSize(svg: string): { width: number; height: number } {
+  const size = (name: string) => parseFloat(svg.match(new RegExp(`${name}="([\\d.]+)ex"`))?.[1] || '0');
+  return { width: size('width'), height: size('height') };
+}
+
+/**
+ * Part of a formula as text, raised or lowered for `^` and `_`
+ */
+export interface MathRun {
+  text: string;
+  script?: 'sub' | 'sup';
+}
+
+interface MathNode {
+  kind?: string; // MathML element of a group, e.g. mfrac; unset for glyphs and plain groups
+  raised: number; // vertical offset from the parent, up is positive
+  text: string; // the character of a glyph
+  children: MathNode[];
+}
+
+// MathJax draws variables in Mathematical Italic (U+1D434…), letters the slide font has in its own italic
+const ITALIC_RANGES: [number, number, number][] = [
+  [0x1d434, 0x1d44d, 0x41], // A-Z
+  [0x1d44e, 0x1d467, 0x61], // a-z
+  [0x1d6e2, 0x1d6fa, 0x391], // Α-Ω
+  [0x1d6fc, 0x1d714, 0x3b1] // α-ω
+];
+
+const SCRIPTED = ['msub', 'msup', 'msubsup', 'munder', 'mover', 'munderover'];
+const SPACED_OPERATORS = '+−=<>≤≥≠≈±×÷→';
+
+/**
+ * A rendered formula as text runs, read from the glyphs of its SVG: `\frac{a}{b}` is `a/b`, `x^2` an `x` and a raised `2`.
+ * For slides, where a formula inside a line of text can't be an image.
+ */
+export function mathRuns(svg: string): MathRun[] {
+  const root: MathNode = { raised: 0, text: '', children: [] };
+  const stack = [root];
+
+  for (const [, closing, name, attributes] of svg.matchAll(/<(\/?)([a-z]+)([^>]*)>/gi)) {
+    const parent = stack[stack.length - 1];
+    if (name === 'g' && closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (name === 'g') {
+      const node: MathNode = {
+        kind: attributes.match(/data-mml-node="([^"]+)"/)?.[1],
+        raised: parseFloat(attributes.match(/translate\([^,)]+,\s*([-\d.]+)/)?.[1] ?? '0'),
+        text: '',
+        children: []
+      };
+      parent.children.push(node);
+      stack.push(node);
+    } else if (!closing) {
+      const code = attributes.match(/data-c="([\dA-F]+)"/i)?.[1];
+      if (code) parent.children.push({ raised: 0, text: glyph(parseInt(code, 16)), children: [] });
+    }
+  }
+
+  return merge(readNode(root));
+}
+
+function readNode(node: MathNode, script?: MathRun['script']): MathRun[] {
+  const [first, ...rest] = node.children;
+  switch (node.kind) {
+    case 'mfrac':
+      return [...grouped(readNode(first, script)), { text: '/', script }, ...grouped(readNode(rest[0], script))];
+    case 'msqrt':
+      // The radical sign is drawn after the content
+      return [{ text: '√', script }, ...grouped(readNode(first, script))];
+    case 'mroot':
+      return [...readNode(rest[0], script ?? 'sup'), { text: '√', script }, ...grouped(readNode(first, script))];
+  }
+
+  if (node.kind && SCRIPTED.includes(node.kind)) {
+    // Nested scripts stay at the first level
+    return [...readNode(first, script), ...rest.flatMap(child => readNode(child, script ?? (child.raised > 0 ? 'sup' : 'sub')))];
+  }
+
+  const runs = node.children.flatMap(child => child.children.length === 0 && !child.kind
+    ? [{ text: child.text, script }]
+    : readNode(child, script));
+  const operator = node.kind === 'mo' && !script ? runs.map(run => run.text).join('') : '';
+  if (operator.length === 1 && SPACED_OPERATORS.includes(operator)) {
+    return [{ text: ' ' }, ...runs, { text: ' ' }];
+  }
+  return runs;
+}
+
+// Parentheses keep a numerator or a radicand of more than one character together
+function grouped(runs: MathRun[]): MathRun[] {
+  const length = runs.reduce((total, run) => total + [...run.text.trim()].length, 0);
+  return length > 1 ? [{ text: '(', script: runs[0].script }, ...runs, { text: ')', script: runs[0].script }] : runs;
+}
+
+function merge(runs: MathRun[]): MathRun[] {
+  const merged: MathRun[] = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && last.script === run.script) last.text += run.text;
+    else merged.push({ ...run });
+  }
+  return merged;
+}
+
+function glyph(code: number): string {
+  if (code === 0x210e) return 'h'; // the italic h predates the Mathematical Italic block
+  if (code === 0xa0) return ' ';
+  const range = ITALIC_RANGES.find(([start, end]) => code >= start && code <= end);
+  return String.fromCodePoint(range ? range[2] + code - range[0] : code);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { getMessages, registerLocale, captionLabels, localeTag, formatMessage } from './messages';
+import { AksaraConverter } from './index';
+
+async function convert(markdown: string, locale: string) {
+  const result = await new AksaraConverter({ format: 'html', locale }).convert(markdown);
+  return result.data!.toString();
+}
+
+describe('getMessages', () => {
+  test('locale codes and tags, falling back to Indonesian', () => {
+    expect(getMessages('en').pageOf).toBe('Page {page} of {total}');
+    expect(getMessages('en-GB').figure).toBe('Figure');
+    expect(getMessages('fr').pageOf).toBe('Halaman {page} dari {total}');
+    expect(getMessages().references.etAl).toBe('dkk.');
+  });
+
+  test('localeTag and formatMessage', () => {
+    expect(localeTag('id')).toBe('id-ID');
+    expect(localeTag('en-GB')).toBe('en-GB');
+    expect(formatMessage('Halaman {page} dari {total}', { page: 2, total: 5 })).toBe('Halaman 2 dari 5');
+    expect(formatMessage('{unknown}', {})).toBe('{unknown}');
+  });
+});
+
+describe('registerLocale', () => {
+  test('missing entries come from the base locale', () => {
+    registerLocale('jv', { pageOf: 'Kaca {page} saka {total}', callouts: { note: 'Cathetan' } });
+    const messages = getMessages('jv');
+    expect(messages.pageOf).toBe('Kaca {page} saka {total}');
+    expect(messages.callouts.note).toBe('Cathetan');
+    expect(messages.callouts.warning).toBe('Peringatan');
+    expect(messages.controls.next).toBe('Berikutnya');
+  });
+
+  test('caption labels of every locale are recognised', () => {
+    const { figure, table } = captionLabels();
+    expect(figure).toEqual(expect.arrayContaining(['Gambar', 'Figure', 'Rajah']));
+    expect(table).toEqual(expect.arrayContaining(['Tabel', 'Table', 'Jadual']));
+  });
+});
+
+describe('document chrome', () => {
+  test('the default footer follows the locale', async () => {
+    expect(await convert('# Report\n', 'en')).toContain('Page <span class="page-current">1</span> of <span class="page-total">1</span>');
+    expect(await convert('# Laporan\n', 'id')).toContain('Halaman <span class="page-current">1</span> dari <span class="page-total">1</span>');
+  });
+
+  test('viewer controls follow the locale', async () => {
+    const html = await convert('# Report\n', 'en');
+    expect(html).toContain('title="Zoom in"');
+    expect(html).not.toContain('Perbesar');
+  });
+
+  test('callout titles follow the locale', async () => {
+    expect(await convert('> [!WARNING]\n> Careful.\n', 'en')).toContain('<p class="callout-title">Warning</p>');
+    expect(await convert('> [!WARNING]\n> Hati-hati.\n', 'ms')).toContain('<p class="callout-title">Amaran</p>');
+  });
+});
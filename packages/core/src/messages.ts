@@ -0,0 +1,148 @@
+/**
+ * Message catalog for labels and document chrome: footers, captions, callout titles,
+ * reference list terms and viewer controls. Indonesian is the default and the fallback;
+ * more locales can be added with `registerLocale()`.
+ */
+
+import type { CalloutKind } from './markdown/types';
+
+export interface Messages {
+  tag: string; // BCP 47 tag for dates and numbers
+  pageOf: string; // default footer and page indicator, with {page} and {total}
+  figure: string;
+  table: string;
+  chapter: string;
+  callouts: Record<CalloutKind, string>;
+  references: {
+    and: string;
+    etAl: string;
+    noDate: string;
+    edition: string;
+    editors: string;
+    in: string;
+    online: string;
+    available: string;
+  };
+  controls: {
+    previous: string;
+    next: string;
+    zoomIn: string;
+    zoomOut: string;
+    fitWidth: string;
+    fullscreen: string;
+    exitFullscreen: string;
+  };
+}
+
+/**
+ * Messages for a new locale; missing entries fall back to the locale it extends
+ */
+export type LocaleMessages = Partial<Omit<Messages, 'callouts' | 'references' | 'controls'>> & {
+  callouts?: Partial<Messages['callouts']>;
+  references?: Partial<Messages['references']>;
+  controls?: Partial<Messages['controls']>;
+};
+
+const CATALOG: Record<string, Messages> = {
+  id: {
+    tag: 'id-ID',
+    pageOf: 'Halaman {page} dari {total}',
+    figure: 'Gambar',
+    table: 'Tabel',
+    chapter: 'BAB',
+    callouts: { note: 'Catatan', tip: 'Tips', important: 'Penting', warning: 'Peringatan', caution: 'Bahaya' },
+    references: { and: 'dan', etAl: 'dkk.', noDate: 't.t.', edition: 'ed.', editors: 'Ed.', in: 'Dalam', online: 'Daring', available: 'Tersedia' },
+    controls: {
+      previous: 'Sebelumnya',
+      next: 'Berikutnya',
+      zoomIn: 'Perbesar',
+      zoomOut: 'Perkecil',
+      fitWidth: 'Sesuaikan lebar',
+      fullscreen: 'Layar penuh',
+      exitFullscreen: 'Keluar dari layar penuh'
+    }
+  },
+  en: {
+    tag: 'en-US',
+    pageOf: 'Page {page} of {total}',
+    figure: 'Figure',
+    table: 'Table',
+    chapter: 'Chapter',
+    callouts: { note: 'Note', tip: 'Tip', important: 'Important', warning: 'Warning', caution: 'Caution' },
+    references: { and: 'and', etAl: 'et al.', noDate: 'n.d.', edition: 'ed.', editors: 'Eds.', in: 'In', online: 'Online', available: 'Available' },
+    controls: {
+      previous: 'Previous',
+      next: 'Next',
+      zoomIn: 'Zoom in',
+      zoomOut: 'Zoom out',
+      fitWidth: 'Fit width',
+      fullscreen: 'Fullscreen',
+      exitFullscreen: 'Exit fullscreen'
+    }
+  },
+  ms: {
+    tag: 'ms-MY',
+    pageOf: 'Halaman {page} daripada {total}',
+    figure: 'Rajah',
+    table: 'Jadual',
+    chapter: 'BAB',
+    callouts: { note: 'Nota', tip: 'Petua', important: 'Penting', warning: 'Amaran', caution: 'Awas' },
+    references: { and: 'dan', etAl: 'et al.', noDate: 't.t.', edition: 'ed.', editors: 'Ed.', in: 'Dalam', online: 'Dalam talian', available: 'Boleh didapati' },
+    controls: {
+      previous: 'Sebelumnya',
+      next: 'Seterusnya',
+      zoomIn: 'Zum masuk',
+      zoomOut: 'Zum keluar',
+      fitWidth: 'Muat lebar',
+      fullscreen: 'Skrin penuh',
+      exitFullscreen: 'Keluar skrin penuh'
+    }
+  }
+};
+
+/**
+ * Messages for a locale code or BCP 47 tag (`en`, `en-GB`), falling back to Indonesian
+ */
+export function getMessages(locale: string = 'id'): Messages {
+  return CATALOG[locale] ?? CATALOG[locale.split('-')[0]] ?? CATALOG.id;
+}
+
+/**
+ * Add a locale, or replace messages of an existing one. Missing entries come from `base`,
+ * by default the existing messages or Indonesian.
+ */
+export function registerLocale(code: string, messages: LocaleMessages, base?: string): void {
+  const fallback = getMessages(base ?? (CATALOG[code] ? code : 'id'));
+  CATALOG[code] = {
+    ...fallback,
+    ...messages,
+    callouts: { ...fallback.callouts, ...messages.callouts },
+    references: { ...fallback.references, ...messages.references },
+    controls: { ...fallback.controls, ...messages.controls }
+  } as Messages;
+}
+
+/**
+ * Figure and table caption labels of every locale, `Gambar:` and `Figure:` both caption a figure
+ */
+export function captionLabels(): { figure: string[]; table: string[] } {
+  const locales = Object.values(CATALOG);
+  return {
+    figure: [...new Set(locales.map(messages => messages.figure))],
+    table: [...new Set(locales.map(messages => messages.table))]
+  };
+}
+
+/**
+ * BCP 47 tag for dates and numbers: `id` → id-ID, tags such as en-GB are kept
+ */
+export function localeTag(locale: string): string {
+  return CATALOG[locale]?.tag ?? locale;
+}
+
+/**
+ * Replace `{name}` placeholders in a message
+ */
+export function formatMessage(message: string, values: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => name in values ? String(values[name]) : match);
+}
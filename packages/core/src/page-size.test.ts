@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test';
+import { documentPageSize, resolvePageSize } from './page-size';
+import { AksaraConverter } from './index';
+
+const A4 = { pageWidth: '21cm', pageHeight: '29.7cm' };
+
+describe('documentPageSize', () => {
+  test('A4 by default, landscape for presentations', () => {
+    expect(documentPageSize(undefined)).toEqual(A4);
+    expect(documentPageSize(undefined, true)).toEqual({ pageWidth: '29.7cm', pageHeight: '21cm' });
+  });
+
+  test('millimetre sizes and ratios', () => {
+    expect(documentPageSize('210mmx330mm')).toEqual({ pageWidth: '210mm', pageHeight: '330mm' });
+    expect(documentPageSize('16:9').pageWidth).toBe('29.7cm');
+    expect(parseFloat(documentPageSize('16:9').pageHeight)).toBeCloseTo(16.706, 2);
+  });
+});
+
+describe('resolvePageSize', () => {
+  test('paper names in either orientation', () => {
+    expect(resolvePageSize({ size: 'A3' }, A4)).toEqual({ pageWidth: '29.7cm', pageHeight: '42cm' });
+    expect(resolvePageSize({ size: 'letter', orientation: 'landscape' }, A4)).toEqual({ pageWidth: '11in', pageHeight: '8.5in' });
+    expect(resolvePageSize({ size: '210mmx297mm', orientation: 'portrait' }, A4)).toEqual({ pageWidth: '210mm', pageHeight: '297mm' });
+  });
+
+  test('an orientation alone turns the document page', () => {
+    expect(resolvePageSize({ orientation: 'landscape' }, A4)).toEqual({ pageWidth: '29.7cm', pageHeight: '21cm' });
+    expect(resolvePageSize({ orientation: 'portrait' }, A4)).toEqual(A4);
+  });
+});
+
+describe('section pages', () => {
+  test('a landscape section keeps the other sections on the document page', async () => {
+    const result = await new AksaraConverter({ format: 'html' }).convert('# Isi\n\n---\n\n<!-- page: A4 landscape -->\n\n| Tabel lebar |\n|---|\n| x |\n');
+    const sections = result.data!.toString().match(/<section [^>]*>/g) ?? [];
+    expect(sections[0]).not.toContain('style=');
+    expect(sections[1]).toContain('width: 29.7cm !important; min-height: 21cm !important;');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Page sizes of documents and of sections that override the document's page (`<!-- page: A4 landscape -->`)
+ */
+
+import type { PageSetup } from './markdown/types';
+
+export interface PageDimensions {
+  pageWidth: string;
+  pageHeight: string;
+}
+
+// Portrait width and height
+const PAPER_SIZES: Record<string, [string, string]> = {
+  a3: ['29.7cm', '42cm'],
+  a4: ['21cm', '29.7cm'],
+  a5: ['14.8cm', '21cm'],
+  letter: ['8.5in', '11in'],
+  legal: ['8.5in', '14in']
+};
+
+const CM_PER_UNIT: Record<string, number> = { cm: 1, mm: 0.1, in: 2.54 };
+
+function toCm(length: string): number {
+  const match = length.match(/^([\d.]+)(cm|mm|in)$/);
+  return match ? parseFloat(match[1]) * CM_PER_UNIT[match[2]] : 0;
+}
+
+/**
+ * Dimensions of the document's page from its `size` directive: `210mmx330mm`, or a ratio such as `16:9` fitted to A4
+ */
+export function documentPageSize(size: string | undefined, presentation = false): PageDimensions {
+  // Handle mm dimensions (e.g., 210mmx297mm)
+  if (size?.includes('mm')) {
+    const dimensions = size.split('x');
+    if (dimensions.length === 2) {
+      return {
+        pageWidth: dimensions[0],
+        pageHeight: dimensions[1]
+      };
+    }
+  }
+
+  // Handle aspect ratios (e.g., 16:9, 4:3)
+  if (size?.includes(':')) {
+    const [w, h] = size.split(':').map(Number);
+    const aspectRatio = w / h;
+
+    if (aspectRatio > 1) { // Landscape
+      return {
+        pageWidth: '29.7cm',
+        pageHeight: `${29.7 / aspectRatio}cm`
+      };
+    } else { // Portrait or square
+      return {
+        pageWidth: `${21 * aspectRatio}cm`,
+        pageHeight: '29.7cm'
+      };
+    }
+  }
+
+  // Default dimensions
+  return presentation
+    ? { pageWidth: '29.7cm', pageHeight: '21cm' }
+    : { pageWidth: '21cm', pageHeight: '29.7cm' };
+}
+
+/**
+ * Dimensions of a section's page: its own size, or the document's, turned to the requested orientation
+ */
+export function resolvePageSize(page: PageSetup, base: PageDimensions): PageDimensions {
+  let [width, height] = [base.pageWidth, base.pageHeight];
+
+  if (page.size) {
+    const paper = PAPER_SIZES[page.size.toLowerCase()];
+    [width, height] = paper || page.size.toLowerCase().split('x');
+  }
+
+  const landscape = toCm(width) > toCm(height);
+  if (page.orientation && landscape !== (page.orientation === 'landscape')) {
+    [width, height] = [height, width];
+  }
+
+  return { pageWidth: width, pageHeight: height };
+}
@@ -0,0 +1,122 @@
+/**
+ * Plugins add fenced blocks (```qrcode), inline syntax, directive keys and conversion hooks
+ * without changing the core. They are registered with `AksaraConverter.use()`.
+ */
+
+import type { AksaraDirectives, ConvertOptions, ConvertResult, DocumentMetadata, DocumentSection, MetaValue } from './types';
+
+export type OutputFormat = ConvertOptions['format'];
+
+export interface PluginContext {
+  format: OutputFormat;
+  locale: string; // BCP 47 tag
+  directives: AksaraDirectives; // values of plugin directive keys are in `directives.plugins`
+  warn: (code: string, message: string) => void;
+}
+
+/**
+ * A fenced code block handled by a plugin: ```` ```ttd kanan ```` gives lang `ttd`, args `kanan`
+ */
+export interface PluginBlock {
+  lang: string;
+  args: string;
+  text: string;
+}
+
+/**
+ * Slide content a plugin can produce; image sizes are in inches
+ */
+export type SlideContent =
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; rows: string[][] }
+  | { type: 'image'; src: string; width?: number; height?: number };
+
+export interface BlockRenderer {
+  html: (block: PluginBlock, context: PluginContext) => string; // HTML and PDF
+  pptx?: (block: PluginBlock, context: PluginContext) => SlideContent[]; // the fence text as a paragraph when missing
+}
+
+export interface InlineSyntax {
+  pattern: RegExp; // e.g. /\{\{ttd:([^}]+)\}\}/, matched anywhere in inline text
+  html: (match: RegExpMatchArray, context: PluginContext) => string;
+  text?: (match: RegExpMatchArray) => string; // PPTX and plain text, the matched text when missing
+}
+
+/**
+ * Parse a directive value; undefined ignores the value
+ */
+export type DirectiveParser = (value: MetaValue) => unknown;
+
+export interface ConvertContext {
+  format: OutputFormat;
+  options: ConvertOptions;
+  directives: AksaraDirectives;
+  metadata: DocumentMetadata;
+  sections: DocumentSection[]; // rendered sections, may be changed before the converter runs
+}
+
+export interface AksaraPlugin {
+  name: string;
+  blocks?: Record<string, BlockRenderer>; // fence language → renderer
+  inline?: InlineSyntax[];
+  directives?: Record<string, DirectiveParser>; // directive key → parser
+  beforeConvert?: (context: ConvertContext) => void | Promise<void>;
+  afterConvert?: (result: ConvertResult, context: ConvertContext) => ConvertResult | void | Promise<ConvertResult | void>;
+}
+
+/**
+ * Plugins of one converter. Later plugins win when two handle the same fence language or directive.
+ */
+export class PluginRegistry {
+  private plugins: AksaraPlugin[] = [];
+
+  constructor(private context: () => PluginContext) {}
+
+  add(plugin: AksaraPlugin): void {
+    this.plugins = [...this.plugins.filter(other => other.name !== plugin.name), plugin];
+  }
+
+  block(lang: string): { plugin: string; renderer: BlockRenderer } | undefined {
+    for (const plugin of [...this.plugins].reverse()) {
+      const renderer = plugin.blocks?.[lang];
+      if (renderer) return { plugin: plugin.name, renderer };
+    }
+    return undefined;
+  }
+
+  inline(): { plugin: string; index: number; syntax: InlineSyntax }[] {
+    return this.plugins.flatMap(plugin => (plugin.inline ?? []).map((syntax, index) => ({ plugin: plugin.name, index, syntax })));
+  }
+
+  directives(): Record<string, DirectiveParser> {
+    return Object.assign({}, ...this.plugins.map(plugin => plugin.directives ?? {}));
+  }
+
+  /**
+   * Call a plugin's renderer; what it throws is reported as a `plugin-error` and gives undefined
+   */
+  render<T>(plugin: string, render: (context: PluginContext) => T): T | undefined {
+    const context = this.context();
+    try {
+      return render(context);
+    } catch (error) {
+      context.warn('plugin-error', `Plugin ${plugin} failed: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+
+  async beforeConvert(context: ConvertContext): Promise<void> {
+    for (const plugin of this.plugins) {
+      await plugin.beforeConvert?.(context);
+    }
+  }
+
+  async afterConvert(result: ConvertResult, context: ConvertContext): Promise<ConvertResult> {
+    let current = result;
+    for (const plugin of this.plugins) {
+      current = (await plugin.afterConvert?.(current, context)) ?? current;
+    }
+    return current;
+  }
+}
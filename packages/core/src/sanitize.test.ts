@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdtempSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { sanitizeHtml, sanitizeSvg, isSafeUrl, DEFAULT_SANITIZE_POLICY } from './sanitize';
+import { AksaraConverter } from './index';
+
+const clean = (html: string) => sanitizeHtml(html, DEFAULT_SANITIZE_POLICY);
+
+async function convert(markdown: string, sourceDir?: string) {
+  const result = await new AksaraConverter({ format: 'html', sanitize: true, sourceDir, embedImages: true }).convert(markdown);
+  return { html: result.data!.toString(), codes: (result.diagnostics ?? []).map(diagnostic => diagnostic.code) };
+}
+
+describe('sanitizeHtml', () => {
+  test('removes scripts, event handlers and unsafe URLs', () => {
+    expect(clean('<p onclick="alert(1)">a<script>alert(1)</script></p>')).toBe('<p>a</p>');
+    expect(clean('<a href="jav&#x61;script:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(clean('<img src="data:text/html,x">')).toBe('<img>');
+    expect(clean('<img src="data:image/png;base64,AA">')).toBe('<img src="data:image/png;base64,AA">');
+  });
+
+  test('style attributes may not load URLs, also through CSS escapes and comments', () => {
+    expect(clean('<p style="background:url(https://evil.example/x)">a</p>')).toBe('<p>a</p>');
+    expect(clean('<p style="background:u\\72l(https://evil.example/track)">a</p>')).toBe('<p>a</p>');
+    expect(clean('<p style="background:u\\rl(x)">a</p>')).toBe('<p>a</p>');
+    expect(clean('<p style="background:url/**/(x)">a</p>')).toBe('<p>a</p>');
+    expect(clean('<p style="background:image-set(&quot;x&quot; 1x)">a</p>')).toBe('<p>a</p>');
+    expect(clean('<p style="color: red">a</p>')).toBe('<p style="color: red">a</p>');
+  });
+
+  test('isSafeUrl ignores control characters in the scheme', () => {
+    expect(isSafeUrl('java\tscript:alert(1)', DEFAULT_SANITIZE_POLICY)).toBe(false);
+    expect(isSafeUrl('./logo.png', DEFAULT_SANITIZE_POLICY)).toBe(true);
+  });
+});
+
+describe('formulas', () => {
+  test('sanitizeSvg keeps elements but removes unsafe links and styles', () => {
+    const svg = '<svg><a href="javascript:alert(1)"><g style="background: url(https://e.x/a)"></g></a></svg>';
+    expect(sanitizeSvg(svg, DEFAULT_SANITIZE_POLICY)).toBe('<svg><a><g></g></a></svg>');
+  });
+
+  test('\\href and \\style are not available in sanitize mode', async () => {
+    const { html, codes } = await convert('$\\href{javascript:alert(1)}{x}$ $\\style{background:url(https://evil.example/x)}{y}$');
+    // The formula is shown as written, but nothing links or loads
+    expect(html).not.toMatch(/href="javascript:/);
+    expect(html).not.toMatch(/style="[^"]*evil\.example/);
+    expect(codes).toContain('math-error');
+  });
+
+  test('\\bbox styles that load URLs are removed', async () => {
+    const { html, codes } = await convert('$\\bbox[background-image:url(https://evil.example/b)]{z}$');
+    expect(html).toContain('<svg');
+    expect(html).not.toMatch(/style="[^"]*evil\.example/);
+    expect(codes).toContain('unsafe-url');
+  });
+});
+
+describe('file access', () => {
+  const root = mkdtempSync(join(tmpdir(), 'aksara-sanitize-'));
+  const documentDir = join(root, 'doc');
+  mkdirSync(documentDir);
+  writeFileSync(join(root, 'secret.json'), '{ "password": "SECRET-DATA" }');
+  writeFileSync(join(root, 'secret.md'), 'SECRET-INCLUDE');
+  writeFileSync(join(root, 'secret.png'), 'SECRET-IMAGE');
+
+  test('data, include and images outside the document directory are refused', async () => {
+    const markdown = '---\ndata: ../secret.json\n---\n\n${password}\n\n<!-- include: ../secret.md -->\n\n![x](../secret.png)\n';
+    const { html, codes } = await convert(markdown, documentDir);
+    expect(html).not.toContain('SECRET-DATA');
+    expect(html).not.toContain('SECRET-INCLUDE');
+    expect(html).not.toContain(Buffer.from('SECRET-IMAGE').toString('base64'));
+    expect(codes.filter(code => code === 'unsafe-path' || code === 'image-error').length).toBeGreaterThanOrEqual(3);
+  });
+});
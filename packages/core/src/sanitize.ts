@@ -0,0 +1,197 @@
+/**
+ * Sanitization of untrusted markdown: raw HTML is reduced to an allowlist of tags and attributes,
+ * event handlers are always removed, URLs must use an allowed scheme and files are only read from the
+ * document's directories. Enabled with `ConvertOptions.sanitize`; without it raw HTML is passed through as written.
+ */
+
+import { realpathSync } from 'fs';
+import { isAbsolute, relative, resolve, sep } from 'path';
+
+export interface SanitizePolicy {
+  tags: string[]; // elements kept; others are removed, keeping their text except for DROPPED_CONTENT
+  attributes: Record<string, string[]>; // tag → attributes kept, `*` for every tag
+  schemes: string[]; // URL schemes of links and images; relative URLs and `#anchors` are always allowed
+}
+
+export const DEFAULT_SANITIZE_POLICY: SanitizePolicy = {
+  tags: [
+    'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'details', 'div',
+    'dl', 'dt', 'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li',
+    'mark', 'ol', 'p', 'pre', 'q', 's', 'small', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td',
+    'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+  ],
+  attributes: {
+    '*': ['class', 'id', 'title', 'lang', 'dir', 'style'],
+    a: ['href', 'name', 'target', 'rel'],
+    img: ['src', 'alt', 'width', 'height'],
+    td: ['colspan', 'rowspan', 'align'],
+    th: ['colspan', 'rowspan', 'align', 'scope'],
+    ol: ['start', 'type'],
+    col: ['span', 'width'],
+    details: ['open']
+  },
+  schemes: ['http', 'https', 'mailto', 'tel']
+};
+
+// Removed together with their content, which is code or an embedded document rather than text
+const DROPPED_CONTENT = ['script', 'style', 'template', 'noscript', 'iframe', 'object', 'embed', 'textarea', 'title'];
+
+const URL_ATTRIBUTES = ['href', 'src', 'cite', 'action', 'formaction', 'poster', 'background', 'xlink:href'];
+
+// Image formats allowed as `data:` URIs in `<img src>` and `![](...)`; they can't run scripts there
+const DATA_IMAGE_REGEX = /^data:image\/(?:png|jpe?g|gif|webp|svg\+xml)[;,]/i;
+
+// CSS that loads resources or runs code in old browsers
+const UNSAFE_STYLE_REGEX = /url\s*\(|image-set\s*\(|expression\s*\(|javascript:|@import|behavior\s*:|-moz-binding/i;
+
+const TAG_REGEX = /<!--[\s\S]*?(?:-->|$)|<![^>]*>?|<\?[^>]*>?|<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Policy for `ConvertOptions.sanitize`: `true` is the default policy, an object replaces its parts
+ */
+export function resolveSanitizePolicy(option: boolean | Partial<SanitizePolicy> | undefined): SanitizePolicy | undefined {
+  if (!option) return undefined;
+  return option === true ? DEFAULT_SANITIZE_POLICY : { ...DEFAULT_SANITIZE_POLICY, ...option };
+}
+
+/**
+ * Decode character references, so `jav&#x61;script:` is seen as `javascript:`
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', tab: '\t', newline: '\n' };
+  return text.replace(/&(?:#(\d+)|#x([\da-f]+)|(\w+));?/gi, (match, decimal: string, hex: string, name: string) => {
+    if (name) return named[name.toLowerCase()] ?? match;
+    const code = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+  });
+}
+
+/**
+ * Whether CSS loads resources or runs code, also when written with escapes (`u\72l(`) or comments
+ */
+function isUnsafeStyle(css: string): boolean {
+  const decoded = css
+    .replace(/\/\*[\s\S]*?(?:\*\/|$)/g, '')
+    .replace(/\\(?:([\da-f]{1,6})\s?|([^\n\da-f]))/gi, (_match, hex: string, char: string) => {
+      if (char) return char;
+      const code = parseInt(hex, 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+    });
+  return UNSAFE_STYLE_REGEX.test(decoded);
+}
+
+/**
+ * Whether a URL may be used: relative, or with a scheme of the policy; `data:` images when `image` is set
+ */
+export function isSafeUrl(url: string, policy: SanitizePolicy, image = false): boolean {
+  // Browsers ignore control characters and whitespace inside the scheme
+  const normalized = decodeEntities(url).replace(/[\x00-\x20\x7f]/g, '');
+  const scheme = normalized.match(/^([a-z][a-z\d+.-]*):/i)?.[1].toLowerCase();
+  if (!scheme) return true;
+  if (image && scheme === 'data') return DATA_IMAGE_REGEX.test(normalized);
+  return policy.schemes.includes(scheme);
+}
+
+/**
+ * Whether a file is inside one of `dirs`, after following symbolic links
+ */
+export function isInsideDirectories(file: string, dirs: string[]): boolean {
+  const real = (path: string) => {
+    try {
+      return realpathSync(path);
+    } catch {
+      return resolve(path); // not created yet
+    }
+  };
+  const target = real(file);
+  return dirs.some(dir => {
+    const path = relative(real(dir), target);
+    return path !== '' && path.split(sep)[0] !== '..' && !isAbsolute(path);
+  });
+}
+
+/**
+ * Reduce an HTML fragment to the policy. Tags that are not allowed are removed and reported
+ * through `removed` (`<script>`, `onclick`, `href="javascript:..."`); text is kept.
+ */
+export function sanitizeHtml(html: string, policy: SanitizePolicy, removed: (item: string) => void = () => {}): string {
+  let result = '';
+  let cursor = 0;
+  let dropping: string | undefined; // tag whose content is being dropped
+
+  for (const match of html.matchAll(TAG_REGEX)) {
+    const [tag, closing, rawName, attributes, selfClosing] = match;
+    const name = rawName?.toLowerCase();
+    if (!dropping) result += escapeStray(html.slice(cursor, match.index));
+    cursor = match.index + tag.length;
+
+    if (dropping) {
+      if (closing && name === dropping) dropping = undefined;
+      continue;
+    }
+    if (!name) continue; // comments, doctypes and processing instructions
+
+    if (!policy.tags.includes(name)) {
+      if (!closing) removed(`<${name}>`);
+      if (!closing && !selfClosing && DROPPED_CONTENT.includes(name)) dropping = name;
+      continue;
+    }
+
+    result += closing ? `</${name}>` : `<${name}${sanitizeAttributes(name, attributes, policy, removed)}${selfClosing ? ' /' : ''}>`;
+  }
+
+  return dropping ? result : result + escapeStray(html.slice(cursor));
+}
+
+function sanitizeAttributes(tag: string, attributes: string, policy: SanitizePolicy, removed: (item: string) => void): string {
+  const allowed = [...(policy.attributes['*'] ?? []), ...(policy.attributes[tag] ?? [])];
+  let result = '';
+
+  for (const [, rawName, double, single, bare] of attributes.matchAll(ATTRIBUTE_REGEX)) {
+    const name = rawName.toLowerCase();
+    const value = double ?? single ?? bare ?? '';
+    const unsafe = name.startsWith('on') || !allowed.includes(name) ? name : unsafeValue(tag, name, value, policy);
+
+    if (unsafe) {
+      removed(unsafe);
+    } else {
+      // Character references stay as written, only the quote needs escaping
+      result += ` ${name}="${value.replace(/"/g, '&quot;')}"`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check generated SVG such as MathJax output, where `\href` and `\bbox[...]` write links and styles from the
+ * formula. Elements are kept, event handlers and unsafe `href` and `style` values are removed.
+ */
+export function sanitizeSvg(svg: string, policy: SanitizePolicy, removed: (item: string) => void = () => {}): string {
+  return svg.replace(TAG_REGEX, (tag, closing: string, name: string | undefined, attributes: string, selfClosing: string) => {
+    if (!name || closing) return tag;
+
+    let result = '';
+    for (const [attribute, rawName, double, single, bare] of attributes.matchAll(ATTRIBUTE_REGEX)) {
+      const attributeName = rawName.toLowerCase();
+      const unsafe = attributeName.startsWith('on') ? attributeName : unsafeValue(name.toLowerCase(), attributeName, double ?? single ?? bare ?? '', policy);
+      if (unsafe) removed(unsafe);
+      else result += ` ${attribute}`;
+    }
+    return `<${name}${result}${selfClosing ? ' /' : ''}>`;
+  });
+}
+
+// What to report for an attribute whose value loads or runs something not allowed; undefined when it is safe
+function unsafeValue(tag: string, name: string, value: string, policy: SanitizePolicy): string | undefined {
+  const decoded = decodeEntities(value);
+  if (URL_ATTRIBUTES.includes(name) && !isSafeUrl(value, policy, tag === 'img' && name === 'src')) return `${name}="${decoded}"`;
+  if (name === 'style' && isUnsafeStyle(decoded)) return `style="${decoded}"`;
+  return undefined;
+}
+
+// A `<` that starts no tag, such as in `a < b` inside an HTML block, is text
+function escapeStray(text: string): string {
+  return text.replace(/</g, '&lt;');
+}
@@ -1,13 +1,22 @@
+import type { Token, NumberingStyle, BilingualMode, PageSetup, SlideLayout } from './markdown/types';
+import type { CitationStyle } from './bibliography';
+import type { SanitizePolicy } from './sanitize';
+
 export interface ConvertOptions {
   format: 'html' | 'pdf' | 'pptx';
   theme?: string;
   template?: string;
-  locale?: 'id' | 'en';
+  locale?: string; // id (default), en, ms or a locale added with registerLocale()
   pageSize?: 'A4' | 'Letter' | 'Legal';
   orientation?: 'portrait' | 'landscape';
   sourceDir?: string;
+  sourceFile?: string; // path of the markdown file, reported in section sources and include cycles
   basePath?: string;
+  assetPaths?: string[]; // more directories searched for images, after sourceDir and basePath
   embedImages?: boolean; // default: false for HTML, true for PDF/PPTX
+  strict?: boolean; // fail the conversion on any warning
+  holidays?: string[]; // yyyy-mm-dd public holidays skipped by hariKerja()
+  sanitize?: boolean | Partial<SanitizePolicy>; // untrusted markdown: allowlisted HTML and URL schemes, no `style:` file
 }
 
 export interface DocumentMetadata {
@@ -20,22 +29,61 @@ export interface DocumentMetadata {
   modified?: Date;
 }
 
+export type MetaValue = string | number | boolean | Date | null | MetaValue[] | { [key: string]: MetaValue };
+
+export type DocumentMeta = Record<string, MetaValue>;
+
 export interface AksaraDirectives {
   aksara: boolean;
   type?: 'document' | 'presentation';
   style?: string;
   size?: string;
-  meta?: Record<string, string>; // Allow any key-value pairs
+  meta?: DocumentMeta; // Any key-value pairs, including nested objects and lists
   header?: string;
   footer?: string;
   background?: string;
+  data?: string | Record<string, string>; // data file(s), a path or name → path
+  numbering?: NumberingStyle; // heading numbers, also used for figure and table numbers
+  bibliography?: string; // .bib or CSL-JSON file for `[@key]` citations
+  citation?: CitationStyle; // citation and reference list style, apa by default
+  pagination?: 'fixed' | 'flow'; // flow: overflowing document sections continue on new pages
+  bilingual?: BilingualMode; // how `:::lang` blocks are shown, single by default
+  language?: string; // language of `:::lang` blocks shown in single mode, by default that of the locale
+  plugins?: Record<string, unknown>; // values of directive keys added by plugins, as their parsers returned them
 }
 
 export interface DocumentSection {
   content: string;
   index: number;
+  tokens: Token[]; // parsed CommonMark/GFM token tree shared by all converters
   html: string;
+  backgroundHtml?: string; // positioned bg/wm images rendered behind the content
+  footnotesHtml?: string; // notes referenced in the section, at its end (HTML) or the page bottom (PDF)
   classes?: string;
+  header?: string | false; // overrides the header/footer directive for this section, false hides it
+  footer?: string | false;
+  background?: string | false; // overrides the background directive, false removes it
+  page?: PageSetup; // page size or orientation of this section in HTML and PDF
+  layout?: SlideLayout;
+  source?: SourceLocation; // where the section starts and ends, also inside included files
+}
+
+export interface SourceLocation {
+  file?: string; // undefined for the root document without `sourceFile`
+  line: number; // 1-based
+  endLine?: number; // last line of a section or block, when it ends in the same file
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: string; // e.g. image-not-found, meta-not-found, unknown-theme
+  message: string;
+  file?: string; // included file the position is in, unset for the original markdown
+  line?: number; // 1-based position in the original markdown, or in `file`
+  column?: number;
+  asset?: { src: string; searched: string[] }; // image-not-found: the path as written and the files tried
 }
 
 export interface ConvertResult {
@@ -43,4 +91,22 @@ export interface ConvertResult {
   data?: Buffer;
   mimeType?: string;
   error?: string;
+  diagnostics?: Diagnostic[];
+}
+
+export interface MergeOptions {
+  filename?: string; // output name pattern, e.g. surat-${nomor}.pdf
+  combined?: boolean; // also render every row into one document
+}
+
+export interface MergeDocument {
+  index: number; // row position in the data, from 0
+  filename: string;
+  filenameError?: string; // why the filename pattern could not be filled in for this row
+  result: ConvertResult;
+}
+
+export interface MergeResult {
+  documents: MergeDocument[];
+  combined?: ConvertResult;
 }
\ No newline at end of file
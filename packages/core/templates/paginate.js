@@ -0,0 +1,127 @@
+// Aksara Writer flow pagination (`pagination: flow`)
+// Splits sections whose content overflows the fixed page height across as many pages as needed.
+// Each continuation page repeats the section's header, footer and backgrounds; long tables and
+// lists are split between rows, with the table header repeated. Footnotes at the bottom of the
+// page (PDF) go to the page of their first reference. Returns the number of pages.
+function paginateAksaraPages(pageSelector, contentSelector) {
+  let notes = []; // footnotes of the section being split
+  let firstPage = null; // that section's own page
+
+  // Each note on the page holding its first reference; unreferenced notes stay on the section's first page
+  const placeFootnotes = page => {
+    const list = page.querySelector(':scope > .footnotes ol');
+    if (!list) return;
+    const home = note => document.querySelector(`a[href="#${note.id}"]`)?.closest(pageSelector) || firstPage;
+    list.replaceChildren(...notes.filter(note => home(note) === page));
+    list.parentElement.hidden = list.children.length === 0;
+  };
+
+  // The page's footnotes take their room before the content is measured
+  const overflows = content => {
+    placeFootnotes(content.closest(pageSelector));
+    return content.scrollHeight > content.clientHeight + 1;
+  };
+
+  // Tables split between body rows, lists between items
+  const rowsOf = element => {
+    if (element.tagName === 'TABLE') {
+      const body = element.tBodies[0];
+      return body ? { container: body, rows: Array.from(body.rows) } : null;
+    }
+    if (element.tagName === 'UL' || element.tagName === 'OL') {
+      return { container: element, rows: Array.from(element.children) };
+    }
+    return null;
+  };
+
+  const splittable = element => {
+    const parts = element && rowsOf(element);
+    return !!parts && parts.rows.length > 1;
+  };
+
+  // Move leading rows of `element` (first on the next page) back onto the earlier page while they fit;
+  // an otherwise empty page keeps at least one row
+  const splitBack = (content, element) => {
+    if (!splittable(element)) return;
+
+    const copy = element.cloneNode(true);
+    copy.removeAttribute('id');
+    const parts = rowsOf(element);
+    const copyParts = rowsOf(copy);
+    copyParts.rows.forEach(row => row.remove());
+    const empty = content.children.length === 0;
+    content.appendChild(copy);
+
+    let moved = 0;
+    for (const row of parts.rows.slice(0, -1)) {
+      copyParts.container.appendChild(row);
+      if (overflows(content) && !(empty && moved === 0)) {
+        parts.container.insertBefore(row, parts.container.firstChild);
+        break;
+      }
+      moved++;
+    }
+
+    if (moved === 0) {
+      copy.remove();
+    } else if (element.tagName === 'OL') {
+      element.setAttribute('start', String(parseInt(copy.getAttribute('start') || '1', 10) + moved));
+    }
+  };
+
+  const continuation = page => {
+    const next = page.cloneNode(true);
+    next.querySelector(contentSelector).replaceChildren();
+    next.querySelectorAll('.footnotes ol').forEach(list => list.replaceChildren());
+    next.querySelectorAll('[id]').forEach(element => element.removeAttribute('id'));
+    next.classList.add('page-continued');
+    return next;
+  };
+
+  for (const section of Array.from(document.querySelectorAll(pageSelector))) {
+    let page = section;
+    let content = page.querySelector(contentSelector);
+    const pages = [section];
+    notes = Array.from(section.querySelectorAll(':scope > .footnotes li'));
+    firstPage = section;
+
+    while (content && overflows(content) && (content.children.length > 1 || splittable(content.firstElementChild))) {
+      const next = continuation(page);
+      const target = next.querySelector(contentSelector);
+      page.after(next);
+
+      // Move whole blocks until the page fits, keeping at least one block on it
+      while (overflows(content) && content.children.length > 1) {
+        target.insertBefore(content.lastElementChild, target.firstChild);
+      }
+
+      // A heading belongs with the text that follows it
+      while (content.children.length > 1 && /^H[1-6]$/.test(content.lastElementChild.tagName)) {
+        target.insertBefore(content.lastElementChild, target.firstChild);
+      }
+
+      // A table or list too long for the page on its own is split between rows
+      if (overflows(content) && splittable(content.lastElementChild)) {
+        target.insertBefore(content.lastElementChild, target.firstChild);
+      }
+
+      splitBack(content, target.firstElementChild);
+
+      page = next;
+      content = target;
+      pages.push(page);
+    }
+
+    // Rows and headings moved after the last measurement take their notes along
+    pages.forEach(placeFootnotes);
+  }
+
+  // Renumber `[page]` and `[total]` over the physical pages
+  const pages = Array.from(document.querySelectorAll(pageSelector));
+  pages.forEach((page, index) => {
+    page.querySelectorAll('.page-current').forEach(element => { element.textContent = String(index + 1); });
+    page.querySelectorAll('.page-total').forEach(element => { element.textContent = String(pages.length); });
+  });
+
+  return pages.length;
+}
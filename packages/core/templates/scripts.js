@@ -359,6 +359,12 @@ document.addEventListener('fullscreenchange', () => {
   } else {
     controls?.classList.remove('fullscreen-mode');
   }
+
+  // Tooltip in the document locale (aksaraMessages is set by the converter)
+  const button = controls?.querySelector('.fullscreen-btn');
+  if (button && typeof aksaraMessages !== 'undefined') {
+    button.title = document.fullscreenElement ? aksaraMessages.exitFullscreen : aksaraMessages.fullscreen;
+  }
 });
 
 // Initialize on load
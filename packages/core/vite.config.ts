@@ -20,7 +20,9 @@ export default defineConfig({
         'pptxgenjs',
         'marked',
         'jszip',
-        'gray-matter'
+        'gray-matter',
+        'js-yaml',
+        /^mathjax-full\//
       ]
     }
   }
@@ -61,7 +61,7 @@ async function openSmartPreview(vscode) {
 
     try {
         const markdown = editor.document.getText();
-        const hasAksaraDirective = markdown.includes('aksara:true') || markdown.includes('data-aksara');
+        const hasAksaraDirective = /aksara:\s*true/.test(markdown) || markdown.includes('data-aksara');
 
         if (hasAksaraDirective) {
             console.log('📄 Aksara directive detected - opening Ak\'sara preview');
@@ -210,7 +210,7 @@ async function insertTemplate(vscode) {
     const editor = await vscode.window.showTextDocument(doc);
 
     // Auto-open preview if template has Aksara directives
-    if (templateContent.includes('aksara:true')) {
+    if (/aksara:\s*true/.test(templateContent)) {
         setTimeout(async () => {
             await previewDocument(vscode);
         }, 500);
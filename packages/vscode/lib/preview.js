@@ -80,7 +80,7 @@ function getOrCreatePreviewPanel(vscode, editor, context) {
 async function updatePreview(vscode, panel, document, config) {
     const markdown = document.getText();
 
-    if (!markdown.includes('aksara:true') && !markdown.includes('data-aksara')) {
+    if (!/aksara:\s*true/.test(markdown) && !markdown.includes('data-aksara')) {
         panel.title = `Ak'sara: ${path.basename(document.fileName)} (No Aksara)`;
         panel.webview.html = getNoAksaraHtml(path.basename(document.fileName));
         return;
@@ -227,6 +227,9 @@ function setupEditorPreviewSync(vscode, editor, panel) {
             case 'preview-scroll':
                 syncEditorToPreview(vscode, currentSyncedEditor, message.line, message.section);
                 break;
+            case 'preview-click':
+                syncEditorToPreview(vscode, currentSyncedEditor, message.line, message.section);
+                break;
             case 'slide-changed':
                 syncEditorToSlide(vscode, currentSyncedEditor, message.section);
                 break;
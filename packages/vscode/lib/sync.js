@@ -98,10 +98,12 @@ function initializeVSCodeSync() {
             // Update slide counter for document mode
             updateSlideCounterForDocument(section);
 
+            // Exact line of the first block in view; the editor falls back to the section start
+            const element = getFirstVisibleSourceElement();
             vscode.postMessage({
                 type: 'preview-scroll',
-                section: section
-                // Don't send line - let editor calculate it from section
+                section: section,
+                line: element ? getSourceLine(element) : undefined
             });
 
             lastScrollTime = Date.now();
@@ -125,6 +127,20 @@ function initializeVSCodeSync() {
         }
     };
 
+    // Double-click jumps to the source of the block under the pointer
+    const dblclickHandler = (event) => {
+        const element = event.target.closest && event.target.closest('[data-source-line]:not([data-source-file])');
+        if (!element) {
+            return;
+        }
+
+        vscode.postMessage({
+            type: 'preview-click',
+            section: getSectionIndexOf(element),
+            line: getSourceLine(element)
+        });
+    };
+
     // Register event listeners and track them for cleanup
     // Only register scroll handler for document mode
     if (!isPresentationMode) {
@@ -134,6 +150,11 @@ function initializeVSCodeSync() {
         });
     }
 
+    document.addEventListener('dblclick', dblclickHandler);
+    activeListeners.push(() => {
+        document.removeEventListener('dblclick', dblclickHandler);
+    });
+
     window.addEventListener('message', messageHandler);
     activeListeners.push(() => {
         window.removeEventListener('message', messageHandler);
@@ -225,9 +246,56 @@ function estimateLineFromScroll() {
     return Math.floor(scrollPercent * totalLines);
 }
 
+/**
+ * Editor line (0-based) of an element's `data-source-line` (1-based)
+ */
+function getSourceLine(element) {
+    return parseInt(element.getAttribute('data-source-line'), 10) - 1;
+}
+
+/**
+ * Elements rendered from the previewed file, blocks from included files are left out
+ */
+function getSourceElements() {
+    return Array.from(document.querySelectorAll('[data-source-line]:not([data-source-file])'))
+        .filter(element => !element.classList.contains('document-section'));
+}
+
+/**
+ * The last block starting at or before an editor line
+ */
+function findSourceElement(line) {
+    let found = null;
+    for (const element of getSourceElements()) {
+        if (getSourceLine(element) > line) {
+            break;
+        }
+        found = element;
+    }
+    return found;
+}
+
+function getFirstVisibleSourceElement() {
+    return getSourceElements().find(element => {
+        const rect = element.getBoundingClientRect();
+        return rect.bottom > 0 && rect.top < window.innerHeight;
+    });
+}
+
+function getSectionIndexOf(element) {
+    const section = element.closest('.document-section');
+    return section ? Array.from(document.querySelectorAll('.document-section')).indexOf(section) : 0;
+}
+
 function handleEditorSync(line, section) {
     isUpdatingFromEditor = true;
 
+    // Blocks carry their source line, which is exact where counting `---` is not
+    const element = typeof line === 'number' ? findSourceElement(line) : null;
+    if (element) {
+        section = getSectionIndexOf(element);
+    }
+
     // Check if this is a presentation
     const hasShowSlide = typeof window.showSlide === 'function';
     const hasNavFunctions = typeof window.nextSlide === 'function' && typeof window.previousSlide === 'function';
@@ -240,8 +308,12 @@ function handleEditorSync(line, section) {
         const clampedSection = Math.max(0, Math.min(section, totalSlides - 1));
         navigateToSlide(clampedSection);
     } else {
-        // Document mode: scroll to section and update counter
-        scrollToSection(section);
+        // Document mode: scroll to the block, or the section, and update counter
+        if (element) {
+            element.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        } else {
+            scrollToSection(section);
+        }
         updateSlideCounterForDocument(section);
     }
 